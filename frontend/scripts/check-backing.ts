@@ -0,0 +1,56 @@
+// Checks that every ovflToken is fully backed by PT held in OVFL.
+//
+//   [RPC_URL=...] [OVFL_ADDRESS=0x...] [ADMIN_ADDRESS=0x...] [DEPLOY_BLOCK=...] npm run check-backing [-- --json]
+//
+// Addresses default to the deployment registry entry for the RPC's chain.
+// Exits 1 if any ovflToken or series is short of PT, so it can gate CI runs against a local fork.
+
+import { checkBacking, isFullyBacked, TokenBacking } from '../src/lib/backing'
+import { formatAmount } from '../src/lib/amount'
+import { fetchMarkets } from '../src/lib/markets'
+import { createClient, readEnv, RPC_URL } from './env'
+import { toJson } from './json'
+
+function printReport(report: TokenBacking[]) {
+  if (report.length === 0) {
+    console.log('No approved markets')
+    return
+  }
+
+  for (const token of report) {
+    const { symbol, decimals } = token.ovfl
+    const ratio = token.ratioBps === null ? '-' : `${(token.ratioBps / 100).toFixed(2)}%`
+    const status = isFullyBacked(token) ? 'OK' : 'DEFICIT'
+    console.log(`${status.padEnd(8)}${symbol}  supply ${formatAmount(token.supply, decimals)}  PT ${formatAmount(token.ptBalance, decimals)}  ratio ${ratio}`)
+
+    for (const s of token.series) {
+      const pt = s.market.pt
+      const detail =
+        s.deficit > 0n
+          ? `short ${formatAmount(s.deficit, pt.decimals)}`
+          : `sweepable ${formatAmount(s.excess, pt.decimals)}`
+      console.log(`          ${pt.symbol}  held ${formatAmount(s.ptBalance, pt.decimals)}  owed ${formatAmount(s.accounted, pt.decimals)}  ${detail}`)
+    }
+  }
+}
+
+async function main() {
+  const client = await createClient(RPC_URL)
+  const env = readEnv(client.chain.id)
+
+  const markets = await fetchMarkets(client, { ovfl: env.ovfl, admin: env.admin, fromBlock: env.deployBlock })
+  const report = await checkBacking(client, env.ovfl, markets)
+
+  if (process.argv.includes('--json')) {
+    console.log(toJson(report))
+  } else {
+    printReport(report)
+  }
+
+  if (!report.every(isFullyBacked)) process.exitCode = 1
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exitCode = 2
+})
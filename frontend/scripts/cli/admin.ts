@@ -0,0 +1,82 @@
+import { parseEventLogs, TransactionReceipt } from 'viem'
+import { ADMIN_ABI } from '../../src/abi/admin'
+import { OVFL_ABI } from '../../src/abi/ovfl'
+import { formatAmount, formatTokenAmount } from '../../src/lib/amount'
+import { adminCall, AdminCall, prepareAdminCall } from '../../src/sdk'
+import { expectArgs, parseAddress, parseInteger, parseTokenAmount } from './args'
+import { Cli, marketAddress, printSent, printSimulation, resolveMarket } from './context'
+import { formatDate } from './format'
+
+// minPtAmount is entered in 18 decimals, as in the admin console
+const MIN_PT_DECIMALS = 18
+
+// Simulates `call` under --dry-run, otherwise sends it and prints `describe(receipt)` once mined
+async function run(cli: Cli, call: AdminCall, describe: (receipt: TransactionReceipt) => string) {
+  if (cli.options.dryRun) {
+    const from = await cli.sender()
+    return printSimulation(cli, from, await prepareAdminCall(cli.client, cli.contracts, from, call))
+  }
+  const result = await adminCall(cli.client, await cli.wallet(), cli.contracts, call)
+  printSent(cli, describe(result.receipt), result, { functionName: call.functionName, args: call.args })
+}
+
+export async function queueMarket(cli: Cli, args: string[]) {
+  expectArgs(args, ['market', 'underlying', 'twapSeconds', 'feeBps'])
+  const market = marketAddress(args[0])
+  const call: AdminCall = {
+    functionName: 'queueAddMarket',
+    args: [
+      market,
+      parseInteger(args[2], '<twapSeconds>'),
+      parseAddress(args[1], '<underlying>'),
+      parseInteger(args[3], '<feeBps>'),
+    ],
+  }
+  await run(cli, call, (receipt) => {
+    const [queued] = parseEventLogs({ abi: ADMIN_ABI, eventName: 'MarketQueued', logs: receipt.logs })
+    return `Queued ${market}, executable from ${formatDate(Number(queued.args.eta))}`
+  })
+}
+
+export async function executeMarket(cli: Cli, args: string[]) {
+  expectArgs(args, ['market'])
+  const market = marketAddress(args[0])
+  await run(cli, { functionName: 'executeAddMarket', args: [market] }, () => `Approved ${market}`)
+}
+
+export async function cancelMarket(cli: Cli, args: string[]) {
+  expectArgs(args, ['market'])
+  const market = marketAddress(args[0])
+  await run(cli, { functionName: 'cancelPendingMarket', args: [market] }, () => `Cancelled ${market}`)
+}
+
+// A limit of 0 removes the market's deposit cap
+export async function setLimit(cli: Cli, args: string[]) {
+  expectArgs(args, ['market', 'limit'])
+  const market = await resolveMarket(cli, args[0])
+  const limit = parseTokenAmount(args[1], market.pt.decimals, '<limit>')
+  await run(cli, { functionName: 'setMarketDepositLimit', args: [market.address, limit] }, () =>
+    limit === 0n
+      ? `Removed the deposit limit on ${market.name}`
+      : `Deposit limit on ${market.name} set to ${formatTokenAmount(limit, market.pt)}`
+  )
+}
+
+export async function setMin(cli: Cli, args: string[]) {
+  expectArgs(args, ['amount'])
+  const newMin = parseTokenAmount(args[0], MIN_PT_DECIMALS, '<amount>')
+  await run(cli, { functionName: 'setMinPtAmount', args: [newMin] }, () =>
+    `Minimum deposit set to ${formatAmount(newMin, MIN_PT_DECIMALS)} PT`
+  )
+}
+
+// Sweeps the PT of `market` that OVFL holds above the market's marketTotalDeposited
+export async function sweep(cli: Cli, args: string[]) {
+  expectArgs(args, ['market', 'to'])
+  const market = await resolveMarket(cli, args[0])
+  const to = parseAddress(args[1], '<to>')
+  await run(cli, { functionName: 'sweepExcessPt', args: [market.pt.address, to] }, (receipt) => {
+    const [swept] = parseEventLogs({ abi: OVFL_ABI, eventName: 'ExcessSwept', logs: receipt.logs })
+    return `Swept ${formatTokenAmount(swept.args.amount, market.pt)} to ${to}`
+  })
+}
@@ -0,0 +1,94 @@
+import { parseArgs } from 'node:util'
+import { getAddress, isAddress } from 'viem'
+import { parseAmount } from '../../src/lib/amount'
+
+export interface CliOptions {
+  json: boolean
+  // Simulate writes without signing or sending anything
+  dryRun: boolean
+  // V3 JSON keystore to sign with, instead of PRIVATE_KEY
+  keystore?: string
+  // Account to simulate from under --dry-run when no key is configured
+  from?: `0x${string}`
+  slippageBps?: number
+  // Approve maxUint256 instead of the exact deposit amounts
+  unlimited: boolean
+  help: boolean
+}
+
+// Bad command-line input; printed with the usage text
+export class UsageError extends Error {
+  override name = 'UsageError'
+}
+
+export function parseCli(argv: string[]): { positionals: string[]; options: CliOptions } {
+  let parsed
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean', default: false },
+        'dry-run': { type: 'boolean', default: false },
+        keystore: { type: 'string' },
+        from: { type: 'string' },
+        slippage: { type: 'string' },
+        unlimited: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    })
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err))
+  }
+  const { values, positionals } = parsed
+
+  let slippageBps: number | undefined
+  if (values.slippage !== undefined) {
+    slippageBps = Number(values.slippage)
+    if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > 10_000) {
+      throw new UsageError(`--slippage takes basis points from 0 to 10000, got "${values.slippage}"`)
+    }
+  }
+
+  return {
+    positionals,
+    options: {
+      json: values.json,
+      dryRun: values['dry-run'],
+      keystore: values.keystore,
+      from: values.from === undefined ? undefined : parseAddress(values.from, '--from'),
+      slippageBps,
+      unlimited: values.unlimited,
+      help: values.help,
+    },
+  }
+}
+
+// Checks a command got its `required` positional arguments and at most `optional` more
+export function expectArgs(args: string[], required: string[], optional = 0) {
+  if (args.length < required.length) throw new UsageError(`Missing <${required[args.length]}>`)
+  if (args.length > required.length + optional) {
+    throw new UsageError(`Unexpected argument "${args[required.length + optional]}"`)
+  }
+}
+
+export function parseAddress(input: string, name: string): `0x${string}` {
+  if (!isAddress(input, { strict: false })) throw new UsageError(`${name} must be an address, got "${input}"`)
+  return getAddress(input)
+}
+
+export function parseTokenAmount(input: string, decimals: number, name: string): bigint {
+  const amount = parseAmount(input, decimals)
+  if (amount === null) {
+    throw new UsageError(`${name} must be a decimal amount with at most ${decimals} decimals, got "${input}"`)
+  }
+  return amount
+}
+
+export function parseInteger(input: string, name: string): number {
+  const value = Number(input)
+  if (!/^\d+$/.test(input) || !Number.isSafeInteger(value)) {
+    throw new UsageError(`${name} must be a whole number, got "${input}"`)
+  }
+  return value
+}
@@ -0,0 +1,209 @@
+import { maxUint256 } from 'viem'
+import { ERC20_ABI, SABLIER_ABI } from '../../src/abi/ovfl'
+import { formatAmount, formatRate, formatTokenAmount } from '../../src/lib/amount'
+import { fetchHoldings } from '../../src/lib/portfolio'
+import { formatApy, quoteYield } from '../../src/lib/yield'
+import {
+  applyBps,
+  claim as sendClaim,
+  DEFAULT_SLIPPAGE_BPS,
+  deposit as sendDeposit,
+  depositApprovals,
+  listStreams,
+  OvflError,
+  prepareClaim,
+  prepareDeposit,
+  prepareWithdraw,
+  previewDeposit,
+  previewStream,
+  readWithdrawable,
+  withdrawStream,
+} from '../../src/sdk'
+import { expectArgs, parseAddress, parseTokenAmount, UsageError } from './args'
+import { Cli, output, printSent, printSimulation, resolveMarket } from './context'
+import { formatBps, formatDate, formatDuration, printFields, printTable } from './format'
+
+export async function markets(cli: Cli, args: string[]) {
+  expectArgs(args, [])
+  const [markets, block] = await Promise.all([cli.markets(), cli.client.getBlock()])
+
+  output(cli, markets, () => {
+    if (markets.length === 0) return console.log('No approved markets')
+    printTable(
+      ['MARKET', 'ADDRESS', 'EXPIRY', 'FEE', 'TWAP', 'OVFL TOKEN', 'UNDERLYING'],
+      markets.map((m) => [
+        m.name,
+        m.address,
+        `${formatDate(m.expiry)}${m.expiry <= Number(block.timestamp) ? ' (matured)' : ''}`,
+        formatBps(m.feeBps),
+        formatDuration(m.twapDuration),
+        m.ovfl.symbol,
+        m.underlying.symbol,
+      ])
+    )
+  })
+}
+
+export async function preview(cli: Cli, args: string[]) {
+  expectArgs(args, ['market', 'amount'])
+  const market = await resolveMarket(cli, args[0])
+  const ptAmount = parseTokenAmount(args[1], market.pt.decimals, '<amount>')
+
+  const [deposit, stream] = await Promise.all([
+    previewDeposit(cli.client, cli.contracts, market, ptAmount),
+    previewStream(cli.client, cli.contracts, market, ptAmount),
+  ])
+  const quote = quoteYield(deposit.rateE18, deposit.toStream, market.feeBps, market.expiry, stream.startTime)
+
+  const data = {
+    market: market.address,
+    ptAmount,
+    ...deposit,
+    stream,
+    impliedApy: quote?.impliedApy ?? null,
+    effectiveApy: quote?.effectiveApy ?? null,
+  }
+  output(cli, data, () =>
+    printFields([
+      ['Deposit', formatTokenAmount(ptAmount, market.pt)],
+      ['Paid now', formatTokenAmount(deposit.toUser, market.ovfl)],
+      ['Streamed', `${formatTokenAmount(deposit.toStream, market.ovfl)} until ${formatDate(stream.endTime)}`],
+      ['Fee', formatTokenAmount(deposit.feeAmount, market.underlying)],
+      ['TWAP rate', `${formatRate(deposit.rateE18)}%`],
+      ...(quote
+        ? ([
+            ['Implied APY', formatApy(quote.impliedApy)],
+            ['Effective APY', formatApy(quote.effectiveApy)],
+          ] as [string, string][])
+        : []),
+    ])
+  )
+}
+
+export async function deposit(cli: Cli, args: string[]) {
+  expectArgs(args, ['market', 'amount'])
+  const market = await resolveMarket(cli, args[0])
+  const ptAmount = parseTokenAmount(args[1], market.pt.decimals, '<amount>')
+  const slippageBps = cli.options.slippageBps ?? DEFAULT_SLIPPAGE_BPS
+
+  if (!cli.options.dryRun) {
+    const result = await sendDeposit(cli.client, await cli.wallet(), cli.contracts, {
+      market,
+      ptAmount,
+      slippageBps,
+      approval: cli.options.unlimited ? 'unlimited' : 'exact',
+    })
+    const { toUser, toStream, streamId } = result
+    return printSent(
+      cli,
+      `Deposited ${formatTokenAmount(ptAmount, market.pt)}: ${formatTokenAmount(toUser, market.ovfl)} now, ` +
+        `${formatTokenAmount(toStream, market.ovfl)} streaming in stream #${streamId}`,
+      result,
+      { toUser, toStream, streamId }
+    )
+  }
+
+  const from = await cli.sender()
+  const quoted = await previewDeposit(cli.client, cli.contracts, market, ptAmount)
+  const approvals = await depositApprovals(cli.client, cli.contracts, from, market, ptAmount, quoted.feeAmount)
+
+  // The deposit reverts on allowance until the approvals are mined, so it can't be simulated yet
+  if (approvals.length > 0) {
+    const needed = approvals.map((a) => ({ ...a, amount: cli.options.unlimited ? maxUint256 : a.amount }))
+    return output(cli, { dryRun: true, from, preview: quoted, approvals: needed }, () => {
+      console.log('Approvals needed before the deposit can be simulated:')
+      for (const a of needed) {
+        const amount = a.amount === maxUint256 ? `unlimited ${a.token.symbol}` : formatTokenAmount(a.amount, a.token)
+        console.log(`  approve ${amount} to ${a.spender}`)
+      }
+    })
+  }
+
+  const request = await prepareDeposit(cli.client, cli.contracts, from, {
+    market,
+    ptAmount,
+    minToUser: applyBps(quoted.toUser, slippageBps),
+  })
+  printSimulation(cli, from, request)
+}
+
+export async function claim(cli: Cli, args: string[]) {
+  expectArgs(args, ['market'], 1)
+  const market = await resolveMarket(cli, args[0])
+  const from = await cli.sender()
+
+  // Defaults to everything claimable: the balance, bounded by the series' PT reserve and what it is owed
+  let amount: bigint
+  if (args[1] !== undefined) {
+    amount = parseTokenAmount(args[1], market.ovfl.decimals, '<amount>')
+  } else {
+    const held = (await fetchHoldings(cli.client, cli.contracts.ovfl, from, [market])).get(market.address)!
+    amount = [held.ovflBalance, held.ptReserve, held.outstanding].reduce((a, b) => (a < b ? a : b))
+    if (amount === 0n) throw new OvflError('ZERO_AMOUNT', `Nothing to claim on ${market.name} for ${from}`)
+  }
+
+  if (cli.options.dryRun) {
+    return printSimulation(cli, from, await prepareClaim(cli.client, cli.contracts, from, { market, amount }))
+  }
+  const result = await sendClaim(cli.client, await cli.wallet(), cli.contracts, { market, amount })
+  printSent(
+    cli,
+    `Claimed ${formatTokenAmount(result.ptOut, market.pt)} for ${formatTokenAmount(result.burnedAmount, market.ovfl)}`,
+    result,
+    { burnedAmount: result.burnedAmount, ptOut: result.ptOut }
+  )
+}
+
+export async function streams(cli: Cli, args: string[]) {
+  expectArgs(args, [], 1)
+  const owner = args[0] !== undefined ? parseAddress(args[0], '<address>') : await cli.sender()
+  const streams = await listStreams(cli.client, cli.contracts, owner, await cli.markets())
+
+  output(cli, streams, () => {
+    if (streams.length === 0) return console.log(`No OVFL streams held by ${owner}`)
+    printTable(
+      ['STREAM', 'TOKEN', 'DEPOSITED', 'WITHDRAWN', 'WITHDRAWABLE', 'ENDS'],
+      streams.map((s) => [
+        `#${s.id}`,
+        s.asset.symbol,
+        formatAmount(s.deposited, s.asset.decimals),
+        formatAmount(s.withdrawn, s.asset.decimals),
+        formatAmount(s.withdrawable, s.asset.decimals),
+        formatDate(s.endTime),
+      ])
+    )
+  })
+}
+
+// Decimals of the ovflToken a stream pays out, from its market or else the token itself
+async function streamDecimals(cli: Cli, streamId: bigint) {
+  const { asset } = await cli.client.readContract({
+    address: cli.contracts.sablierLockupLinear,
+    abi: SABLIER_ABI,
+    functionName: 'getStream',
+    args: [streamId],
+  })
+  const market = (await cli.markets()).find((m) => m.ovfl.address.toLowerCase() === asset.toLowerCase())
+  if (market) return market.ovfl.decimals
+  return cli.client.readContract({ address: asset, abi: ERC20_ABI, functionName: 'decimals' })
+}
+
+export async function withdraw(cli: Cli, args: string[]) {
+  expectArgs(args, ['streamId'])
+  if (!/^\d+$/.test(args[0])) throw new UsageError(`<streamId> must be a stream number, got "${args[0]}"`)
+  const streamId = BigInt(args[0])
+
+  if (!cli.options.dryRun) {
+    const result = await withdrawStream(cli.client, await cli.wallet(), cli.contracts, streamId)
+    const decimals = await streamDecimals(cli, streamId)
+    return printSent(cli, `Withdrew ${formatAmount(result.amount, decimals)} from stream #${streamId}`, result, {
+      streamId,
+      amount: result.amount,
+    })
+  }
+
+  const from = await cli.sender()
+  const [stream] = await readWithdrawable(cli.client, cli.contracts, [streamId])
+  if (!stream) throw new OvflError('NOTHING_TO_WITHDRAW', `Stream #${streamId} has nothing to withdraw yet`)
+  printSimulation(cli, from, await prepareWithdraw(cli.client, cli.contracts, from, stream))
+}
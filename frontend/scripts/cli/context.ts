@@ -0,0 +1,94 @@
+import { createWalletClient, http, LocalAccount } from 'viem'
+import { Market } from '../../src/lib/markets'
+import { listMarkets, OvflContracts } from '../../src/sdk'
+import { createClient, readContracts, RPC_URL } from '../env'
+import { CliOptions, parseAddress, UsageError } from './args'
+import { toJson } from '../json'
+import { loadAccount } from './signer'
+
+export interface Cli {
+  client: Awaited<ReturnType<typeof createClient>>
+  contracts: OvflContracts
+  options: CliOptions
+  markets(): Promise<Market[]>
+  // The signing account; throws when none is configured
+  signer(): Promise<LocalAccount>
+  // Who writes are simulated from: the signer, or --from under --dry-run
+  sender(): Promise<`0x${string}`>
+  wallet(): Promise<ReturnType<typeof createWallet>>
+}
+
+const createWallet = (client: Cli['client'], account: LocalAccount) =>
+  createWalletClient({ account, chain: client.chain, transport: http(RPC_URL) })
+
+export async function createCli(options: CliOptions): Promise<Cli> {
+  const client = await createClient(RPC_URL)
+  const contracts = readContracts(client.chain.id)
+
+  let markets: Promise<Market[]> | undefined
+  let account: Promise<LocalAccount | undefined> | undefined
+  const signer = async () => {
+    account ??= loadAccount(options.keystore)
+    const loaded = await account
+    if (!loaded) throw new UsageError('No signer: set PRIVATE_KEY, OVFL_KEYSTORE or --keystore')
+    return loaded
+  }
+
+  return {
+    client,
+    contracts,
+    options,
+    markets: () => (markets ??= listMarkets(client, contracts)),
+    signer,
+    sender: async () => (options.dryRun && options.from ? options.from : (await signer()).address),
+    wallet: async () => createWallet(client, await signer()),
+  }
+}
+
+// An approved market by its address, name or PT (symbol or address), matched case-insensitively
+export async function resolveMarket(cli: Cli, input: string): Promise<Market> {
+  const markets = await cli.markets()
+  const needle = input.toLowerCase()
+  const market = markets.find((m) =>
+    [m.address, m.name, m.pt.symbol, m.pt.address].some((key) => key.toLowerCase() === needle)
+  )
+  if (!market) throw new UsageError(`Unknown market "${input}"; "ovfl markets" lists the approved ones`)
+  return market
+}
+
+// A market that may not be approved yet, so only by address
+export const marketAddress = (input: string) => parseAddress(input, '<market>')
+
+// Prints `data` as JSON under --json, otherwise runs `print`
+export function output(cli: Cli, data: unknown, print: () => void) {
+  if (cli.options.json) console.log(toJson(data))
+  else print()
+}
+
+interface SimulatedRequest {
+  address: `0x${string}`
+  functionName: string
+  args?: readonly unknown[]
+}
+
+// What a write would have sent, for --dry-run
+export function printSimulation(cli: Cli, from: `0x${string}`, request: SimulatedRequest) {
+  const args = (request.args ?? []).map(String)
+  output(cli, { dryRun: true, from, to: request.address, functionName: request.functionName, args }, () => {
+    console.log(`Simulated ${request.functionName}(${args.join(', ')})`)
+    console.log(`  on ${request.address} from ${from}; nothing was sent`)
+  })
+}
+
+// A mined write: `summary` and the transaction, or the hash, block and `data` as JSON
+export function printSent(
+  cli: Cli,
+  summary: string,
+  result: { hash: `0x${string}`; receipt: { blockNumber: bigint } },
+  data: object
+) {
+  output(cli, { hash: result.hash, blockNumber: result.receipt.blockNumber, ...data }, () => {
+    console.log(summary)
+    console.log(`  tx ${result.hash} in block ${result.receipt.blockNumber}`)
+  })
+}
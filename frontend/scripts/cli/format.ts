@@ -0,0 +1,24 @@
+// Left-aligned columns, two spaces apart
+export function printTable(headers: string[], rows: string[][]) {
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)))
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()
+  console.log(line(headers))
+  for (const row of rows) console.log(line(row))
+}
+
+// One "label  value" line per field
+export function printFields(fields: [string, string][]) {
+  const width = Math.max(...fields.map(([label]) => label.length))
+  for (const [label, value] of fields) console.log(`${label.padEnd(width)}  ${value}`)
+}
+
+export const formatDate = (seconds: number) =>
+  `${new Date(seconds * 1000).toISOString().slice(0, 16).replace('T', ' ')} UTC`
+
+export function formatDuration(seconds: number): string {
+  if (seconds % 3600 === 0) return `${seconds / 3600}h`
+  if (seconds % 60 === 0) return `${seconds / 60}m`
+  return `${seconds}s`
+}
+
+export const formatBps = (bps: number) => `${(bps / 100).toFixed(2)}%`
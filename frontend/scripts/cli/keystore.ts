@@ -0,0 +1,41 @@
+import { createDecipheriv, pbkdf2Sync, scryptSync } from 'node:crypto'
+import { concat, Hex, keccak256 } from 'viem'
+
+interface KeystoreCrypto {
+  cipher: string
+  ciphertext: string
+  cipherparams: { iv: string }
+  kdf: string
+  kdfparams: { salt: string; dklen: number; n?: number; r?: number; p?: number; c?: number; prf?: string }
+  mac: string
+}
+
+// Decrypts a version 3 JSON keystore, as written by geth, `cast wallet import` and most wallets.
+// Throws on a wrong password rather than returning a garbage key.
+export function decryptKeystore(json: string, password: string): Hex {
+  const keystore = JSON.parse(json)
+  const crypto: KeystoreCrypto | undefined = keystore.crypto ?? keystore.Crypto
+  if (keystore.version !== 3 || !crypto) throw new Error('Unsupported keystore: expected a version 3 JSON keystore')
+  if (crypto.cipher !== 'aes-128-ctr') throw new Error(`Unsupported keystore cipher ${crypto.cipher}`)
+
+  const { salt, dklen } = crypto.kdfparams
+  let key: Buffer
+  if (crypto.kdf === 'scrypt') {
+    const { n = 0, r = 0, p = 0 } = crypto.kdfparams
+    // Node's default 32 MB cap is below what the standard n = 2^18 needs, so allow exactly the
+    // 128 * r * (n + p + 2) bytes OpenSSL works in
+    key = scryptSync(password, Buffer.from(salt, 'hex'), dklen, { N: n, r, p, maxmem: 128 * r * (n + p + 2) })
+  } else if (crypto.kdf === 'pbkdf2' && crypto.kdfparams.prf === 'hmac-sha256') {
+    key = pbkdf2Sync(password, Buffer.from(salt, 'hex'), crypto.kdfparams.c ?? 0, dklen, 'sha256')
+  } else {
+    throw new Error(`Unsupported keystore KDF ${crypto.kdf}`)
+  }
+
+  const ciphertext = Buffer.from(crypto.ciphertext, 'hex')
+  if (keccak256(concat([key.subarray(16, 32), ciphertext])).slice(2) !== crypto.mac.toLowerCase()) {
+    throw new Error('Wrong keystore password')
+  }
+
+  const decipher = createDecipheriv('aes-128-ctr', key.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, 'hex'))
+  return `0x${Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('hex')}`
+}
@@ -0,0 +1,57 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { Hex, LocalAccount } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { decryptKeystore } from './keystore'
+
+// A bare name is looked up among Foundry's keystores, so `--keystore deployer` works after
+// `cast wallet import deployer`
+function keystorePath(keystore: string): string {
+  const foundry = join(homedir(), '.foundry', 'keystores', keystore)
+  return !existsSync(keystore) && !keystore.includes('/') && existsSync(foundry) ? foundry : keystore
+}
+
+// Reads one line from the terminal without echoing it. Raw mode hands over every keypress as typed,
+// so Enter, Backspace and Ctrl-C are handled here rather than by the terminal.
+async function promptPassword(question: string): Promise<string> {
+  const { stdin, stderr } = process
+  if (!stdin.isTTY) throw new Error('KEYSTORE_PASSWORD is not set and there is no terminal to ask for it')
+  stderr.write(question)
+  stdin.setRawMode(true)
+  stdin.setEncoding('utf8')
+  stdin.resume()
+
+  return new Promise((resolve, reject) => {
+    let password = ''
+    const finish = (err?: Error) => {
+      stdin.off('data', onData)
+      stdin.setRawMode(false)
+      stdin.pause()
+      stderr.write('\n')
+      if (err) reject(err)
+      else resolve(password)
+    }
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n' || char === '\u0004') return finish()
+        if (char === '\u0003') return finish(new Error('Cancelled'))
+        if (char === '\u007f' || char === '\b') password = password.slice(0, -1)
+        else password += char
+      }
+    }
+    stdin.on('data', onData)
+  })
+}
+
+// The signing account: PRIVATE_KEY if set, otherwise the keystore from --keystore or OVFL_KEYSTORE,
+// unlocked with KEYSTORE_PASSWORD or a prompt. Undefined when none is configured.
+export async function loadAccount(keystore = process.env.OVFL_KEYSTORE): Promise<LocalAccount | undefined> {
+  if (process.env.PRIVATE_KEY) return privateKeyToAccount(process.env.PRIVATE_KEY as Hex)
+  if (!keystore) return undefined
+
+  const path = keystorePath(keystore)
+  const json = readFileSync(path, 'utf8')
+  const password = process.env.KEYSTORE_PASSWORD ?? (await promptPassword(`Password for ${path}: `))
+  return privateKeyToAccount(decryptKeystore(json, password))
+}
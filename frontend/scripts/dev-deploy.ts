@@ -0,0 +1,31 @@
+// Deploys OVFL, Admin and mock Pendle/Sablier contracts to a local Anvil node, approves one
+// market, funds test accounts and writes the addresses to src/deployments.local.json, where the
+// dev server picks them up.
+//
+//   anvil
+//   npm run dev:deploy [-- --fund 0x...]
+//
+// Contracts come from the Foundry build in ../out. Every account is funded with PT to deposit and
+// WETH for the fee; --fund adds a wallet (e.g. a browser wallet) on top of Anvil's own accounts.
+
+import { writeFileSync } from 'node:fs'
+import { formatUnits, getAddress } from 'viem'
+import { deployDevnet, PT_PER_ACCOUNT, WETH_PER_ACCOUNT } from './devnet'
+import { LOCAL_DEPLOYMENT_FILE, RPC_URL } from './env'
+
+function parseFund(argv: string[]): `0x${string}`[] {
+  return argv.flatMap((arg, i) => (arg === '--fund' && argv[i + 1] ? [getAddress(argv[i + 1])] : []))
+}
+
+async function main() {
+  const { deployment } = await deployDevnet(RPC_URL, { fund: parseFund(process.argv), log: console.log })
+  writeFileSync(LOCAL_DEPLOYMENT_FILE, `${JSON.stringify(deployment, null, 2)}\n`)
+
+  console.log(`Each account holds ${formatUnits(PT_PER_ACCOUNT, 18)} PT and ${formatUnits(WETH_PER_ACCOUNT, 18)} WETH`)
+  console.log(`Wrote ${LOCAL_DEPLOYMENT_FILE.pathname}`)
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exitCode = 1
+})
@@ -0,0 +1,148 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { Abi, createPublicClient, createTestClient, createWalletClient, defineChain, Hex, http, parseEther } from 'viem'
+import { mnemonicToAccount } from 'viem/accounts'
+import { LOCAL_CHAIN, LocalDeploymentFile, MULTICALL3 } from '../src/deployments'
+
+// Anvil's default mnemonic, funded with ETH on every fresh node
+const ANVIL_MNEMONIC = 'test test test test test test test test test test test junk'
+export const FUNDED_ACCOUNTS = 3
+
+export const TIMELOCK_DELAY = 24 * 60 * 60
+const MATURITY = 90 * 24 * 60 * 60
+// PT at 98.5% of par, accreting to 100% at expiry (about 6% APY)
+const START_RATE = parseEther('0.985')
+const TWAP_DURATION = 15 * 60
+export const FEE_BPS = 50
+
+export const PT_PER_ACCOUNT = parseEther('100')
+export const WETH_PER_ACCOUNT = parseEther('10')
+const ETH_PER_EXTRA_ACCOUNT = parseEther('100')
+
+const OUT_DIR = new URL('../../out/', import.meta.url)
+
+interface Artifact {
+  abi: Abi
+  bytecode: { object: Hex }
+  deployedBytecode: { object: Hex }
+}
+
+export interface Devnet {
+  deployment: LocalDeploymentFile
+  market: `0x${string}`
+  pt: `0x${string}`
+  weth: `0x${string}`
+  expiry: number
+}
+
+// Anvil account `index`; 0 deploys and holds ADMIN_ROLE, 0 to FUNDED_ACCOUNTS - 1 are funded
+export const devAccount = (index: number) => mnemonicToAccount(ANVIL_MNEMONIC, { addressIndex: index })
+
+// The local chain at a given RPC URL, e.g. an Anvil node started on another port
+export const devChain = (rpcUrl: string) =>
+  rpcUrl === LOCAL_CHAIN.rpcUrls.default.http[0]
+    ? LOCAL_CHAIN
+    : defineChain({ ...LOCAL_CHAIN, rpcUrls: { default: { http: [rpcUrl] } } })
+
+export const hasArtifacts = () => existsSync(new URL('OVFL.sol/OVFL.json', OUT_DIR))
+
+function artifact(file: string, name: string): Artifact {
+  const path = new URL(`${file}/${name}.json`, OUT_DIR)
+  if (!existsSync(path)) throw new Error(`${name} artifact not found, run forge build first`)
+  return JSON.parse(readFileSync(path, 'utf8'))
+}
+
+// Pendle's PT naming, e.g. PT-WETH-26DEC2024
+function expiryLabel(expiry: bigint) {
+  const date = new Date(Number(expiry) * 1000)
+  const month = date.toLocaleString('en-US', { month: 'short', timeZone: 'UTC' }).toUpperCase()
+  return `${date.getUTCDate()}${month}${date.getUTCFullYear()}`
+}
+
+// Deploys OVFL, Admin and the mocks in test/mocks, approves one market and funds the first
+// FUNDED_ACCOUNTS Anvil accounts plus `fund` with PT to deposit and WETH for the fee
+export async function deployDevnet(
+  rpcUrl: string,
+  { fund = [], log = () => {} }: { fund?: `0x${string}`[]; log?: (line: string) => void } = {}
+): Promise<Devnet> {
+  const chain = devChain(rpcUrl)
+  const transport = http(rpcUrl)
+  const client = createPublicClient({ chain, transport })
+  const testClient = createTestClient({ chain, mode: 'anvil', transport })
+
+  // Mocks must never end up on a real network
+  const chainId = await client.getChainId()
+  if (chainId !== LOCAL_CHAIN.id) throw new Error(`Expected an Anvil node (chain ${LOCAL_CHAIN.id}), got chain ${chainId}`)
+
+  const deployer = devAccount(0)
+  const wallet = createWalletClient({ account: deployer, chain, transport })
+
+  const deploy = async (file: string, name: string, args: unknown[] = []) => {
+    const { abi, bytecode } = artifact(file, name)
+    const hash = await wallet.deployContract({ abi, bytecode: bytecode.object, args })
+    const { contractAddress, status } = await client.waitForTransactionReceipt({ hash })
+    if (status !== 'success' || !contractAddress) throw new Error(`${name} deployment reverted`)
+    log(`${name.padEnd(24)}${contractAddress}`)
+    return { address: contractAddress, abi }
+  }
+
+  const send = async (contract: { address: `0x${string}`; abi: Abi }, functionName: string, args: unknown[] = []) => {
+    const { request } = await client.simulateContract({ account: deployer, ...contract, functionName, args })
+    const hash = await wallet.writeContract(request)
+    await client.waitForTransactionReceipt({ hash })
+  }
+
+  const startBlock = await client.getBlockNumber()
+
+  // viem batches reads through Multicall3, which a bare node lacks
+  await testClient.setCode({ address: MULTICALL3, bytecode: artifact('Multicall3.sol', 'Multicall3').deployedBytecode.object })
+
+  const { timestamp } = await client.getBlock()
+  const expiry = timestamp + BigInt(TIMELOCK_DELAY + MATURITY)
+  const label = expiryLabel(expiry)
+
+  const weth = await deploy('MockERC20.sol', 'MockERC20', ['Wrapped Ether', 'WETH', 18])
+  const sy = await deploy('MockSY.sol', 'MockSY', ['SY Wrapped Ether', 'SY-WETH', weth.address])
+  const pt = await deploy('MockPT.sol', 'MockPT', [`PT Wrapped Ether ${label}`, `PT-WETH-${label}`, sy.address, expiry])
+  const yt = await deploy('MockYT.sol', 'MockYT', [sy.address, pt.address, expiry])
+  const market = await deploy('MockPendleMarket.sol', 'MockPendleMarket', [sy.address, pt.address, yt.address, expiry])
+  const oracle = await deploy('MockPendleOracle.sol', 'MockPendleOracle')
+  const router = await deploy('MockPendleRouter.sol', 'MockPendleRouter', [oracle.address])
+  const sablier = await deploy('MockSablierLockupLinear.sol', 'MockSablierLockupLinear')
+  const admin = await deploy('Admin.sol', 'Admin', [deployer.address, oracle.address])
+  const ovfl = await deploy('OVFL.sol', 'OVFL', [admin.address, deployer.address, oracle.address, sablier.address])
+
+  await send(admin, 'setOVFL', [ovfl.address])
+  await send(admin, 'approveUnderlying', [weth.address, 'OVFL Wrapped Ether', 'ovflWETH'])
+  await send(oracle, 'setRate', [market.address, START_RATE])
+
+  // Skip the timelock so the market is live straight away
+  await send(admin, 'queueAddMarket', [market.address, TWAP_DURATION, weth.address, FEE_BPS])
+  await testClient.increaseTime({ seconds: TIMELOCK_DELAY })
+  await testClient.mine({ blocks: 1 })
+  await send(admin, 'executeAddMarket', [market.address])
+
+  const recipients = [...Array.from({ length: FUNDED_ACCOUNTS }, (_, i) => devAccount(i).address), ...fund]
+  for (const [i, recipient] of recipients.entries()) {
+    if (i >= FUNDED_ACCOUNTS) await testClient.setBalance({ address: recipient, value: ETH_PER_EXTRA_ACCOUNT })
+    await send(pt, 'mint', [recipient, PT_PER_ACCOUNT])
+    await send(weth, 'mint', [recipient, WETH_PER_ACCOUNT])
+  }
+  log(`Market PT-WETH-${label} approved, ${FEE_BPS / 100}% fee, ${recipients.length} accounts funded`)
+
+  return {
+    deployment: {
+      ovfl: ovfl.address,
+      admin: admin.address,
+      sablierLockupLinear: sablier.address,
+      pendleOracle: oracle.address,
+      // The mock serves quotes as well as swaps
+      pendleRouter: router.address,
+      pendleRouterStatic: router.address,
+      startBlock: Number(startBlock),
+    },
+    market: market.address,
+    pt: pt.address,
+    weth: weth.address,
+    expiry: Number(expiry),
+  }
+}
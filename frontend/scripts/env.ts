@@ -0,0 +1,66 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { createPublicClient, defineChain, getAddress, http } from 'viem'
+import { Deployment, getDeployment, isDeployed, LOCAL_CHAIN, LocalDeploymentFile, MULTICALL3 } from '../src/deployments'
+import { OvflContracts } from '../src/sdk'
+
+export const LOCAL_DEPLOYMENT_FILE = new URL('../src/deployments.local.json', import.meta.url)
+
+export const RPC_URL = process.env.RPC_URL ?? 'http://127.0.0.1:8545'
+
+export interface ScriptEnv {
+  ovfl: `0x${string}`
+  admin: `0x${string}`
+  deployBlock: bigint
+}
+
+function required(name: string, fallback: string | undefined): string {
+  const value = process.env[name] ?? fallback
+  if (!value) throw new Error(`${name} is not set and chain has no deployment`)
+  return value
+}
+
+// The addresses `npm run dev:deploy` last wrote for the local node, if any
+function localDeployment(): Deployment | undefined {
+  if (!existsSync(LOCAL_DEPLOYMENT_FILE)) return undefined
+  const file: LocalDeploymentFile = JSON.parse(readFileSync(LOCAL_DEPLOYMENT_FILE, 'utf8'))
+  return { ...file, startBlock: BigInt(file.startBlock) }
+}
+
+const deploymentFor = (chainId: number) => (chainId === LOCAL_CHAIN.id ? localDeployment() : getDeployment(chainId))
+
+// Addresses come from the deployment registry for the RPC's chain, overridable per variable.
+// Chains listed ahead of their deployment count as having none.
+export function readEnv(chainId: number): ScriptEnv {
+  const listed = deploymentFor(chainId)
+  const deployment = isDeployed(listed) ? listed : undefined
+  return {
+    ovfl: getAddress(required('OVFL_ADDRESS', deployment?.ovfl)),
+    admin: getAddress(required('ADMIN_ADDRESS', deployment?.admin)),
+    deployBlock: BigInt(process.env.DEPLOY_BLOCK ?? deployment?.startBlock ?? 0n),
+  }
+}
+
+// Everything the SDK talks to, with Sablier's LockupLinear overridable through SABLIER_ADDRESS
+export function readContracts(chainId: number): OvflContracts {
+  const env = readEnv(chainId)
+  return {
+    ovfl: env.ovfl,
+    admin: env.admin,
+    sablierLockupLinear: getAddress(required('SABLIER_ADDRESS', deploymentFor(chainId)?.sablierLockupLinear)),
+    startBlock: env.deployBlock,
+  }
+}
+
+// The chain is taken from the RPC so the same scripts run against mainnet, a fork or a bare Anvil node
+export async function createClient(rpcUrl: string) {
+  const transport = http(rpcUrl)
+  const id = await createPublicClient({ transport }).getChainId()
+  const chain = defineChain({
+    id,
+    name: `Chain ${id}`,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [rpcUrl] } },
+    contracts: { multicall3: { address: MULTICALL3 } },
+  })
+  return createPublicClient({ chain, transport })
+}
@@ -0,0 +1,3 @@
+// JSON for script output, with bigints written as decimal strings. `indent` 0 keeps it on one line.
+export const toJson = (value: unknown, indent = 2) =>
+  JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v), indent)
@@ -0,0 +1,125 @@
+// Executes markets queued on the Admin contract once their timelock passes.
+//
+//   [RPC_URL=...] [PRIVATE_KEY=0x... | OVFL_KEYSTORE=path] npm run keeper [-- --state <file>] [--once] [--dry-run]
+//
+// Every poll it applies new MarketQueued/MarketCancelled/MarketApproved events to the pending
+// markets kept in the state file, then sends executeAddMarket for each market whose eta has passed
+// and whose Pendle oracle is ready for its TWAP. Unmined transactions are replaced with higher fees;
+// failed executions are retried with exponential backoff. The signer needs ADMIN_ROLE.
+
+import { parseArgs } from 'node:util'
+import { createWalletClient, http, parseGwei } from 'viem'
+import { ADMIN_ABI } from '../src/abi/admin'
+import { toOvflError } from '../src/sdk'
+import { parseAddress, parseInteger, UsageError } from './cli/args'
+import { loadAccount } from './cli/signer'
+import { createClient, readContracts, RPC_URL } from './env'
+import { Keeper, log, tick } from './keeper/execute'
+import { loadState } from './keeper/state'
+
+function parseOptions(argv: string[]) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      state: { type: 'string' },
+      poll: { type: 'string', default: '12' },
+      'bump-after': { type: 'string', default: '60' },
+      'max-bumps': { type: 'string', default: '5' },
+      'max-fee-gwei': { type: 'string' },
+      keystore: { type: 'string' },
+      from: { type: 'string' },
+      once: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  })
+  const poll = parseInteger(values.poll, '--poll')
+  return {
+    statePath: values.state,
+    keystore: values.keystore,
+    from: values.from === undefined ? undefined : parseAddress(values.from, '--from'),
+    poll,
+    once: values.once,
+    dryRun: values['dry-run'],
+    bump: {
+      bumpAfter: parseInteger(values['bump-after'], '--bump-after'),
+      maxBumps: parseInteger(values['max-bumps'], '--max-bumps'),
+      maxFeePerGas: values['max-fee-gwei'] === undefined ? undefined : parseGwei(values['max-fee-gwei']),
+      pollInterval: Math.min(poll, 4) * 1000,
+    },
+  }
+}
+
+async function main() {
+  const { keystore, from, statePath, ...options } = parseOptions(process.argv.slice(2))
+  const client = await createClient(RPC_URL)
+  const contracts = readContracts(client.chain.id)
+
+  const signer = await loadAccount(keystore)
+  const account = options.dryRun && from ? from : signer?.address
+  if (!account) throw new UsageError('No signer: set PRIVATE_KEY, OVFL_KEYSTORE or --keystore')
+
+  const [oracle, adminRole] = await Promise.all([
+    client.readContract({ address: contracts.admin, abi: ADMIN_ABI, functionName: 'PENDLE_ORACLE' }),
+    client.readContract({ address: contracts.admin, abi: ADMIN_ABI, functionName: 'ADMIN_ROLE' }),
+  ])
+  const isAdmin = await client.readContract({
+    address: contracts.admin,
+    abi: ADMIN_ABI,
+    functionName: 'hasRole',
+    args: [adminRole, account],
+  })
+  if (!isAdmin) {
+    throw new Error(`${account} lacks ADMIN_ROLE on ${contracts.admin}, so executeAddMarket would revert`)
+  }
+
+  const path = statePath ?? `keeper-state.${client.chain.id}.json`
+  const keeper: Keeper = {
+    client,
+    contracts,
+    oracle,
+    account,
+    wallet:
+      signer && !options.dryRun
+        ? createWalletClient({ account: signer, chain: client.chain, transport: http(RPC_URL) })
+        : undefined,
+    state: loadState(path, client.chain.id, contracts.admin, contracts.startBlock),
+    options: { ...options, statePath: path },
+  }
+  const pending = Object.keys(keeper.state.pending).length
+  log(`Keeper for Admin ${contracts.admin} as ${account}, ${pending} pending, state in ${path}`)
+
+  // The first signal stops after the current poll; a second one exits at once. State is saved
+  // after every change, so either way nothing is lost.
+  let stopping = false
+  let wake = () => {}
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+      if (stopping) process.exit(130)
+      stopping = true
+      wake()
+    })
+  }
+
+  while (!stopping) {
+    try {
+      await tick(keeper)
+    } catch (err) {
+      // RPC hiccups shouldn't stop the keeper; the next poll starts over from the saved state
+      log(`Poll failed: ${toOvflError(err).message}`)
+      if (options.once) throw err
+    }
+    if (options.once) break
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, options.poll * 1000)
+      wake = () => {
+        clearTimeout(timer)
+        resolve()
+      }
+    })
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exitCode = 2
+})
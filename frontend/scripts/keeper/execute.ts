@@ -0,0 +1,115 @@
+import { Account, Chain, Transport, WalletClient } from 'viem'
+import { PENDLE_ORACLE_ABI } from '../../src/abi/pendle'
+import { AdminCall, OvflContracts, prepareAdminCall, toOvflError } from '../../src/sdk'
+import { createClient } from '../env'
+import { BumpOptions, replacementFor, sendWithBumps } from './send'
+import { KeeperState, PendingEntry, saveState, SentTx } from './state'
+import { syncPending } from './sync'
+
+// Failed executions wait 1, 2, 4 ... minutes, up to an hour, before the next attempt
+const RETRY_BASE = 60
+const RETRY_MAX = 3600
+
+export interface KeeperOptions {
+  statePath: string
+  poll: number
+  once: boolean
+  dryRun: boolean
+  bump: BumpOptions
+}
+
+export interface Keeper {
+  client: Awaited<ReturnType<typeof createClient>>
+  contracts: OvflContracts
+  oracle: `0x${string}`
+  // Executions are simulated from `account`; `wallet` is undefined under --dry-run without a key
+  account: `0x${string}`
+  wallet?: WalletClient<Transport, Chain, Account>
+  state: KeeperState
+  options: KeeperOptions
+}
+
+export const log = (message: string) => console.log(`${new Date().toISOString()} ${message}`)
+
+// Mirrors Admin._checkOracleReady, which executeAddMarket reverts on
+async function checkOracle(keeper: Keeper, market: `0x${string}`, twapDuration: number) {
+  const [increaseCardinalityRequired, , oldestObservationSatisfied] = await keeper.client.readContract({
+    address: keeper.oracle,
+    abi: PENDLE_ORACLE_ABI,
+    functionName: 'getOracleState',
+    args: [market, twapDuration],
+  })
+  if (increaseCardinalityRequired) throw new Error(`oracle cardinality too low for a ${twapDuration}s TWAP`)
+  if (!oldestObservationSatisfied) throw new Error(`oracle has no observation ${twapDuration}s old yet`)
+}
+
+// Another market's transaction left unmined at the account's next nonce, e.g. after running out of
+// fee bumps. A new transaction would only queue behind it, so it is sent at that nonce instead.
+async function stuckNonce(keeper: Keeper, market: `0x${string}`) {
+  const others = Object.entries(keeper.state.pending).filter(([other, entry]) => other !== market && entry.tx)
+  if (others.length === 0) return undefined
+
+  const next = await keeper.client.getTransactionCount({ address: keeper.account, blockTag: 'latest' })
+  const stuck = others.find(([, entry]) => entry.tx!.nonce === next)
+  if (!stuck) return undefined
+  const [holder, entry] = stuck
+  const tx = replacementFor(entry.tx!, keeper.options.bump.maxFeePerGas)
+  if (!tx) throw new Error(`nonce ${next} is held by the transaction for ${holder}, already at the fee cap`)
+  return { holder: holder as `0x${string}`, entry, tx }
+}
+
+async function execute(keeper: Keeper, market: `0x${string}`, entry: PendingEntry) {
+  const { client, contracts, state, options } = keeper
+  await checkOracle(keeper, market, entry.twapDuration)
+  const call: AdminCall = { functionName: 'executeAddMarket', args: [market] }
+  await prepareAdminCall(client, contracts, keeper.account, call)
+  if (!keeper.wallet) {
+    log(`${market}: executeAddMarket simulated, not sent (--dry-run)`)
+    return
+  }
+
+  const stuck = entry.tx ? undefined : await stuckNonce(keeper, market)
+  const onSent = (tx: SentTx) => {
+    entry.tx = tx
+    // The replaced market is sent again, at a new nonce, on its next attempt
+    if (stuck?.entry.tx) {
+      stuck.entry.tx = undefined
+      log(`${stuck.holder}: transaction at nonce ${tx.nonce} replaced by the one for ${market}`)
+    }
+    saveState(options.statePath, state)
+    log(`${market}: sent ${tx.hashes[tx.hashes.length - 1]} at nonce ${tx.nonce}, max fee ${tx.maxFeePerGas} wei`)
+  }
+  const tx = entry.tx ?? stuck?.tx
+  const receipt = await sendWithBumps(client, keeper.wallet, contracts.admin, call, tx, options.bump, onSent)
+  entry.tx = undefined
+  if (receipt.status !== 'success') throw new Error(`executeAddMarket reverted in ${receipt.transactionHash}`)
+
+  delete state.pending[market]
+  log(`${market}: executed in ${receipt.transactionHash}, block ${receipt.blockNumber}`)
+}
+
+// One poll: applies new Admin events, then executes every pending market whose eta and retry
+// time have passed. Failures are recorded on the market with exponential backoff.
+export async function tick(keeper: Keeper) {
+  const { client, contracts, state, options } = keeper
+  const head = await client.getBlock()
+  const { queued, removed } = await syncPending(client, contracts, state, head.number)
+  saveState(options.statePath, state)
+  for (const market of queued) log(`${market}: queued, eta ${new Date(state.pending[market].eta * 1000).toISOString()}`)
+  for (const market of removed) log(`${market}: no longer pending (executed or cancelled)`)
+
+  const now = Number(head.timestamp)
+  for (const [market, entry] of Object.entries(state.pending) as [`0x${string}`, PendingEntry][]) {
+    if (entry.eta > now || (entry.retryAt ?? 0) > now) continue
+    try {
+      await execute(keeper, market, entry)
+    } catch (err) {
+      entry.attempts += 1
+      entry.lastError = toOvflError(err).message
+      entry.retryAt = now + Math.min(RETRY_BASE * 2 ** (entry.attempts - 1), RETRY_MAX)
+      const retry = new Date(entry.retryAt * 1000).toISOString()
+      log(`${market}: attempt ${entry.attempts} failed: ${entry.lastError}; retrying after ${retry}`)
+    }
+    saveState(options.statePath, state)
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  Account,
+  Chain,
+  PublicClient,
+  TransactionReceipt,
+  Transport,
+  WalletClient,
+  WriteContractParameters,
+} from 'viem'
+import { ADMIN_ABI } from '../../src/abi/admin'
+import { AdminCall } from '../../src/sdk'
+import { SentTx } from './state'
+
+export interface BumpOptions {
+  // Seconds to wait for a receipt before replacing the transaction with higher fees
+  bumpAfter: number
+  // Replacements per call before giving up until the next retry
+  maxBumps: number
+  // Fees are never bid above this per gas
+  maxFeePerGas?: bigint
+  pollInterval: number
+}
+
+// Each replacement bids 12.5% more; nodes reject replacements under 10%
+const bump = (fee: bigint) => (fee * 1125n) / 1000n
+
+const min = (a: bigint, b: bigint | undefined) => (b !== undefined && b < a ? b : a)
+
+// A transaction to send at `tx`'s nonce in place of it, with bumped fees and nothing sent yet.
+// Undefined when `maxFeePerGas` leaves no room to bump.
+export function replacementFor(tx: SentTx, maxFeePerGas?: bigint): SentTx | undefined {
+  const maxFee = min(bump(BigInt(tx.maxFeePerGas)), maxFeePerGas)
+  if (maxFee === BigInt(tx.maxFeePerGas)) return undefined
+  return {
+    nonce: tx.nonce,
+    hashes: [],
+    maxFeePerGas: maxFee.toString(),
+    maxPriorityFeePerGas: min(bump(BigInt(tx.maxPriorityFeePerGas)), maxFee).toString(),
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// The receipt of whichever of `hashes` was mined, if any
+async function findReceipt(client: PublicClient, hashes: `0x${string}`[]): Promise<TransactionReceipt | undefined> {
+  for (const hash of hashes) {
+    const receipt = await client.getTransactionReceipt({ hash }).catch(() => undefined)
+    if (receipt) return receipt
+  }
+  return undefined
+}
+
+async function waitForReceipt(client: PublicClient, hashes: `0x${string}`[], options: BumpOptions) {
+  const deadline = Date.now() + options.bumpAfter * 1000
+  for (;;) {
+    const receipt = await findReceipt(client, hashes)
+    if (receipt || Date.now() >= deadline) return receipt
+    await sleep(options.pollInterval)
+  }
+}
+
+// Sends an Admin.sol write and replaces it with higher fees at the same nonce until one of the
+// transactions is mined. `tx` resumes a transaction recorded before a restart, or with no hashes
+// yet, fixes the nonce and fees of the first send; `onSent` is called after every send so it can be
+// recorded. Throws once `maxBumps` replacements went unmined, leaving `tx` to resume from. Callers
+// simulate `call` first, so reverts surface before anything is sent.
+export async function sendWithBumps(
+  client: PublicClient,
+  wallet: WalletClient<Transport, Chain, Account>,
+  admin: `0x${string}`,
+  call: AdminCall,
+  tx: SentTx | undefined,
+  options: BumpOptions,
+  onSent: (tx: SentTx) => void
+): Promise<TransactionReceipt> {
+  const address = wallet.account.address
+
+  if (tx) {
+    const mined = await findReceipt(client, tx.hashes)
+    if (mined) return mined
+    // The nonce went to a transaction the keeper never saw mined; start over with a fresh one
+    if ((await client.getTransactionCount({ address, blockTag: 'latest' })) > tx.nonce) tx = undefined
+  }
+
+  // A resumed transaction may still be in the mempool, so it gets a full wait before its first bump
+  let send = !tx || tx.hashes.length === 0
+  if (!tx) {
+    const fees = await client.estimateFeesPerGas()
+    const maxFeePerGas = min(fees.maxFeePerGas, options.maxFeePerGas)
+    tx = {
+      nonce: await client.getTransactionCount({ address, blockTag: 'pending' }),
+      hashes: [],
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxPriorityFeePerGas: min(fees.maxPriorityFeePerGas, maxFeePerGas).toString(),
+    }
+  }
+
+  for (let bumps = 0; ; bumps++) {
+    if (send) {
+      try {
+        const hash: `0x${string}` = await wallet.writeContract({
+          address: admin,
+          abi: ADMIN_ABI,
+          ...call,
+          account: wallet.account,
+          chain: wallet.chain,
+          nonce: tx.nonce,
+          maxFeePerGas: BigInt(tx.maxFeePerGas),
+          maxPriorityFeePerGas: BigInt(tx.maxPriorityFeePerGas),
+        } as WriteContractParameters<typeof ADMIN_ABI, AdminCall['functionName'], AdminCall['args'], Chain, Account>)
+        tx = { ...tx, hashes: [...tx.hashes, hash] }
+        onSent(tx)
+      } catch (err) {
+        // "nonce too low" once an earlier transaction is mined between the wait and the replacement
+        const mined = await findReceipt(client, tx.hashes)
+        if (mined) return mined
+        throw err
+      }
+    }
+
+    const receipt = await waitForReceipt(client, tx.hashes, options)
+    if (receipt) return receipt
+    if (bumps >= options.maxBumps) throw new Error(`Not mined after ${bumps} fee bumps at nonce ${tx.nonce}`)
+
+    const replacement = replacementFor(tx, options.maxFeePerGas)
+    if (!replacement) throw new Error(`Not mined at the ${options.maxFeePerGas} wei fee cap, nonce ${tx.nonce}`)
+    tx = { ...replacement, hashes: tx.hashes }
+    send = true
+  }
+}
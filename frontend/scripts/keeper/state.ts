@@ -0,0 +1,50 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs'
+
+// A transaction sent for a market and possibly replaced by fee bumps, all with the same nonce.
+// bigints are stored as decimal strings.
+export interface SentTx {
+  nonce: number
+  hashes: `0x${string}`[]
+  maxFeePerGas: string
+  maxPriorityFeePerGas: string
+}
+
+// A market in Admin.pendingMarkets, as last read from the chain
+export interface PendingEntry {
+  twapDuration: number
+  feeBps: number
+  eta: number
+  underlying: `0x${string}`
+  // Failed executions so far; the next one waits until `retryAt` (unix seconds)
+  attempts: number
+  retryAt?: number
+  lastError?: string
+  tx?: SentTx
+}
+
+export interface KeeperState {
+  chainId: number
+  admin: `0x${string}`
+  // Last block whose Admin events have been applied
+  lastBlock: string
+  pending: Record<`0x${string}`, PendingEntry>
+}
+
+// The saved state, or a fresh one scanning from `startBlock`. A file written for another chain or
+// Admin contract is refused rather than silently mixed in.
+export function loadState(path: string, chainId: number, admin: `0x${string}`, startBlock: bigint): KeeperState {
+  if (!existsSync(path)) return { chainId, admin, lastBlock: (startBlock - 1n).toString(), pending: {} }
+
+  const state: KeeperState = JSON.parse(readFileSync(path, 'utf8'))
+  if (state.chainId !== chainId || state.admin.toLowerCase() !== admin.toLowerCase()) {
+    throw new Error(`${path} tracks Admin ${state.admin} on chain ${state.chainId}, not ${admin} on chain ${chainId}`)
+  }
+  return state
+}
+
+// Written to a temporary file and renamed over the old one, so a crash mid-write never leaves a
+// truncated state behind
+export function saveState(path: string, state: KeeperState) {
+  writeFileSync(`${path}.tmp`, `${JSON.stringify(state, null, 2)}\n`)
+  renameSync(`${path}.tmp`, path)
+}
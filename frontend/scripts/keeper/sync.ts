@@ -0,0 +1,59 @@
+import { PublicClient } from 'viem'
+import { ADMIN_ABI } from '../../src/abi/admin'
+import { OvflContracts, scanQueueChanges } from '../../src/sdk'
+import { KeeperState } from './state'
+
+// Blocks this close to the last sync are scanned again in case of a reorg
+const REORG_DEPTH = 12n
+
+export interface SyncChanges {
+  queued: `0x${string}`[]
+  removed: `0x${string}`[]
+}
+
+// Applies Admin events up to `head` to `state.pending`. MarketQueued, MarketCancelled and
+// MarketApproved only say which markets changed; each one is re-read from pendingMarkets at
+// `head`, so replayed or reorged logs can't leave a stale entry behind.
+export async function syncPending(
+  client: PublicClient,
+  contracts: OvflContracts,
+  state: KeeperState,
+  head: bigint
+): Promise<SyncChanges> {
+  const resumeFrom = BigInt(state.lastBlock) - REORG_DEPTH + 1n
+  const fromBlock = resumeFrom > contracts.startBlock ? resumeFrom : contracts.startBlock
+  if (fromBlock > head) return { queued: [], removed: [] }
+
+  const touched = await scanQueueChanges(client, contracts, fromBlock, head)
+
+  const changes: SyncChanges = { queued: [], removed: [] }
+  if (touched.length > 0) {
+    const results = await client.multicall({
+      allowFailure: false,
+      blockNumber: head,
+      contracts: touched.map((market) => ({
+        address: contracts.admin,
+        abi: ADMIN_ABI,
+        functionName: 'pendingMarkets',
+        args: [market],
+      }) as const),
+    })
+
+    touched.forEach((market, i) => {
+      const [queued, twapDuration, feeBps, eta, underlying] = results[i]
+      const known = state.pending[market]
+      if (!queued) {
+        if (known) changes.removed.push(market)
+        delete state.pending[market]
+        return
+      }
+      // Re-queued after a cancel: start over. Otherwise keep retries and any transaction in flight.
+      if (known && known.eta === Number(eta)) return
+      state.pending[market] = { twapDuration, feeBps, eta: Number(eta), underlying, attempts: 0 }
+      changes.queued.push(market)
+    })
+  }
+
+  state.lastBlock = head.toString()
+  return changes
+}
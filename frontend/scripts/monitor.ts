@@ -0,0 +1,147 @@
+// Watches OVFL for risk conditions and sends alerts to the sinks set in a config file.
+//
+//   [RPC_URL=...] npm run monitor [-- --config monitor.config.json] [--once]
+//
+// Every poll reads the protocol at the latest block and alerts when deposits near a market's limit,
+// a series nears expiry short of PT, the TWAP rate jumps, a queued market sits past its eta, or OVFL
+// emits ExcessSwept or AdminContractUpdated. Conditions alert once when they start and once more when
+// they clear. Thresholds and sinks are described in scripts/monitor.config.example.json.
+
+import { existsSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import { OVFL_ABI } from '../src/abi/ovfl'
+import { Market } from '../src/lib/markets'
+import { blockWindows } from '../src/lib/rpc'
+import { listMarkets, listPendingMarkets, OvflContracts, scanQueueChanges, toOvflError } from '../src/sdk'
+import { createClient, readContracts, RPC_URL } from './env'
+import { DEFAULT_CONFIG, loadConfig, MonitorConfig } from './monitor/config'
+import { conditions, eventAlert, transitions, twapAlerts, WatchedLog } from './monitor/rules'
+import { Alert, createSink, dispatch, Sink } from './monitor/sinks'
+import { readSnapshot, Snapshot } from './monitor/snapshot'
+
+const DEFAULT_CONFIG_FILE = 'monitor.config.json'
+
+interface Monitor {
+  client: Awaited<ReturnType<typeof createClient>>
+  contracts: OvflContracts
+  config: MonitorConfig
+  sinks: Sink[]
+  markets: Market[]
+  // Markets queued at some point, re-read from pendingMarkets every poll
+  candidates: Set<`0x${string}`>
+  // Conditions currently alerting, by key
+  active: Map<string, Alert>
+  previous?: Snapshot
+  // Last block whose events have been read
+  lastBlock: bigint
+}
+
+async function poll(monitor: Monitor) {
+  const { client, contracts, config } = monitor
+  const head = await client.getBlock()
+  if (monitor.previous && head.number <= monitor.previous.block) return
+
+  // Events are read a window at a time and lastBlock moves past each window once its alerts are
+  // sent, so a backlog wider than the provider's getLogs range is worked through across polls
+  for (const window of blockWindows(monitor.lastBlock + 1n, head.number)) {
+    const [touched, ovflLogs] = await Promise.all([
+      scanQueueChanges(client, contracts, window.fromBlock, window.toBlock),
+      client.getContractEvents({ address: contracts.ovfl, abi: OVFL_ABI, ...window }),
+    ])
+    for (const market of touched) monitor.candidates.add(market)
+    // A market the queue touched that isn't listed yet may have just been approved; if so it is
+    // watched from this poll on
+    if (touched.some((market) => !monitor.markets.some((m) => m.address === market))) {
+      monitor.markets = await listMarkets(client, contracts)
+    }
+
+    const watched = ovflLogs.filter(
+      (log): log is typeof log & WatchedLog =>
+        (log.eventName === 'ExcessSwept' || log.eventName === 'AdminContractUpdated') &&
+        config.events.includes(log.eventName)
+    )
+    for (const log of watched) await dispatch(monitor.sinks, eventAlert(log, monitor.markets))
+    monitor.lastBlock = window.toBlock
+  }
+
+  const snapshot = await readSnapshot(client, contracts, monitor.markets, [...monitor.candidates], head)
+  for (const market of monitor.candidates) {
+    if (!snapshot.pending.some((p) => p.market === market)) monitor.candidates.delete(market)
+  }
+
+  const alerts = [
+    ...transitions(monitor.active, conditions(snapshot, config.thresholds), snapshot),
+    ...twapAlerts(monitor.previous, snapshot, config.thresholds),
+  ]
+  for (const alert of alerts) await dispatch(monitor.sinks, alert)
+
+  monitor.previous = snapshot
+}
+
+async function main() {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      config: { type: 'string' },
+      once: { type: 'boolean', default: false },
+    },
+  })
+  // The default file is optional; one named with --config has to exist
+  const configFile = values.config ?? DEFAULT_CONFIG_FILE
+  const config = values.config || existsSync(configFile) ? loadConfig(configFile) : DEFAULT_CONFIG
+
+  const client = await createClient(RPC_URL)
+  const contracts = readContracts(client.chain.id)
+  const head = await client.getBlockNumber()
+
+  // Queued markets from before the monitor started still need watching; past OVFL events don't
+  const candidates = new Set((await listPendingMarkets(client, contracts)).map((pending) => pending.market))
+  const monitor: Monitor = {
+    client,
+    contracts,
+    config,
+    sinks: config.sinks.map(createSink),
+    markets: await listMarkets(client, contracts),
+    candidates,
+    active: new Map(),
+    lastBlock: head - 1n,
+  }
+  console.error(
+    `${new Date().toISOString()} Monitoring OVFL ${contracts.ovfl}, ${monitor.markets.length} markets, ` +
+      `sinks: ${monitor.sinks.map((sink) => sink.name).join(', ')}`
+  )
+
+  // A signal stops after the current poll
+  let stopping = false
+  let wake = () => {}
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+      if (stopping) process.exit(130)
+      stopping = true
+      wake()
+    })
+  }
+
+  while (!stopping) {
+    try {
+      await poll(monitor)
+    } catch (err) {
+      // The next poll resumes after the last window whose events were sent
+      console.error(`${new Date().toISOString()} Poll failed: ${toOvflError(err).message}`)
+      if (values.once) throw err
+    }
+    if (values.once) break
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, config.pollSeconds * 1000)
+      wake = () => {
+        clearTimeout(timer)
+        resolve()
+      }
+    })
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exitCode = 2
+})
@@ -0,0 +1,85 @@
+import { readFileSync } from 'node:fs'
+
+export type SinkConfig =
+  | { type: 'stdout' }
+  // One JSON alert per line, appended to `path`
+  | { type: 'jsonLog'; path: string }
+  // Each alert POSTed as JSON
+  | { type: 'webhook'; url: string; headers?: Record<string, string> }
+
+export const WATCHED_EVENTS = ['ExcessSwept', 'AdminContractUpdated'] as const
+export type WatchedEvent = (typeof WATCHED_EVENTS)[number]
+
+export interface Thresholds {
+  // Alert once marketTotalDeposited reaches this share of marketDepositLimits, in basis points
+  depositLimitBps: number
+  // Alert when a series is this close to expiryCached while its ovflToken supply exceeds the PT reserves
+  expiryWarningSeconds: number
+  // Alert when previewRate moves more than this between polled blocks, in basis points
+  twapBandBps: number
+  // Alert when a queued market is still not executed this long after its eta
+  etaGraceSeconds: number
+}
+
+export interface MonitorConfig {
+  pollSeconds: number
+  sinks: SinkConfig[]
+  thresholds: Thresholds
+  // OVFL events that alert every time they are emitted
+  events: WatchedEvent[]
+}
+
+export const DEFAULT_CONFIG: MonitorConfig = {
+  pollSeconds: 12,
+  sinks: [{ type: 'stdout' }],
+  thresholds: {
+    depositLimitBps: 9000,
+    expiryWarningSeconds: 3 * 86_400,
+    twapBandBps: 100,
+    etaGraceSeconds: 3600,
+  },
+  events: [...WATCHED_EVENTS],
+}
+
+function checkSink(sink: SinkConfig, path: string): SinkConfig {
+  switch (sink?.type) {
+    case 'stdout':
+      return sink
+    case 'jsonLog':
+      if (typeof sink.path !== 'string') throw new Error(`${path}: jsonLog sinks need a "path"`)
+      return sink
+    case 'webhook':
+      if (typeof sink.url !== 'string') throw new Error(`${path}: webhook sinks need a "url"`)
+      return sink
+    default:
+      throw new Error(`${path}: unknown sink type ${JSON.stringify((sink as { type?: unknown })?.type)}`)
+  }
+}
+
+// Reads the config file, filling in defaults for anything left out. Unknown sinks, events and
+// thresholds, and thresholds that aren't non-negative numbers, are rejected up front rather than
+// at the first alert.
+export function loadConfig(path: string): MonitorConfig {
+  const file: Partial<MonitorConfig> = JSON.parse(readFileSync(path, 'utf8'))
+  const config: MonitorConfig = {
+    pollSeconds: file.pollSeconds ?? DEFAULT_CONFIG.pollSeconds,
+    sinks: (file.sinks ?? DEFAULT_CONFIG.sinks).map((sink) => checkSink(sink, path)),
+    thresholds: { ...DEFAULT_CONFIG.thresholds, ...file.thresholds },
+    events: file.events ?? DEFAULT_CONFIG.events,
+  }
+
+  for (const key of Object.keys(file.thresholds ?? {})) {
+    if (!(key in DEFAULT_CONFIG.thresholds)) throw new Error(`${path}: unknown threshold "${key}"`)
+  }
+  const numbers: [string, unknown][] = [
+    ['pollSeconds', config.pollSeconds],
+    ...Object.entries(config.thresholds).map(([key, value]): [string, unknown] => [`thresholds.${key}`, value]),
+  ]
+  for (const [key, value] of numbers) {
+    if (typeof value !== 'number' || !(value >= 0)) throw new Error(`${path}: ${key} must be a non-negative number`)
+  }
+  for (const event of config.events) {
+    if (!WATCHED_EVENTS.includes(event)) throw new Error(`${path}: events can only list ${WATCHED_EVENTS.join(', ')}`)
+  }
+  return config
+}
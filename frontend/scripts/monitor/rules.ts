@@ -0,0 +1,187 @@
+import { formatAmount, formatRate, formatTokenAmount } from '../../src/lib/amount'
+import { Market } from '../../src/lib/markets'
+import { Thresholds } from './config'
+import { Alert } from './sinks'
+import { Snapshot } from './snapshot'
+
+// A condition that holds at the snapshot's block. It alerts when it first holds and again, as
+// resolved, once it no longer does; `key` tells one occurrence from another.
+export interface Condition {
+  key: string
+  alert: Alert
+}
+
+type AlertFields = Omit<Alert, 'time' | 'block'>
+
+const at = (snapshot: Snapshot, fields: AlertFields): Alert => ({
+  ...fields,
+  time: new Date().toISOString(),
+  block: snapshot.block,
+})
+
+// Event alerts carry the block the event was emitted in
+const emitted = (log: { blockNumber: bigint }, fields: AlertFields): Alert => ({
+  ...fields,
+  time: new Date().toISOString(),
+  block: log.blockNumber,
+})
+
+const formatHours = (seconds: number) => `${(seconds / 3600).toFixed(1)}h`
+
+// marketTotalDeposited at or above depositLimitBps of a market's deposit limit
+function depositLimitConditions(snapshot: Snapshot, thresholds: Thresholds): Condition[] {
+  return snapshot.backing.flatMap((token) =>
+    token.series.flatMap(({ market, accounted }): Condition[] => {
+      const limit = snapshot.limits.get(market.address) ?? 0n
+      if (limit === 0n || accounted * 10_000n < limit * BigInt(thresholds.depositLimitBps)) return []
+      const usedBps = Number((accounted * 10_000n) / limit)
+      return [
+        {
+          key: `deposit-limit:${market.address}`,
+          alert: at(snapshot, {
+            rule: 'deposit-limit',
+            severity: 'warning',
+            market: market.address,
+            message:
+              `${market.name} is at ${(usedBps / 100).toFixed(2)}% of its deposit limit ` +
+              `(${formatTokenAmount(accounted, market.pt)} of ${formatTokenAmount(limit, market.pt)})`,
+            data: { totalDeposited: accounted, limit, usedBps },
+          }),
+        },
+      ]
+    })
+  )
+}
+
+// A series within expiryWarningSeconds of expiryCached while its ovflToken's supply is above the
+// PT reserves of every series minting it, so claims at maturity could come up short
+function expiryBackingConditions(snapshot: Snapshot, thresholds: Thresholds): Condition[] {
+  return snapshot.backing.flatMap((token) =>
+    token.series.flatMap(({ market }): Condition[] => {
+      const secondsLeft = market.expiry - snapshot.timestamp
+      const nearExpiry = secondsLeft > 0 && secondsLeft <= thresholds.expiryWarningSeconds
+      if (!nearExpiry || token.ptBalance >= token.supply) return []
+      return [
+        {
+          key: `expiry-backing:${market.address}`,
+          alert: at(snapshot, {
+            rule: 'expiry-backing',
+            severity: 'critical',
+            market: market.address,
+            message:
+              `${market.name} matures in ${formatHours(secondsLeft)} with ${token.ovfl.symbol} supply ` +
+              `${formatAmount(token.supply, token.ovfl.decimals)} above PT reserves ` +
+              `${formatAmount(token.ptBalance, token.ovfl.decimals)}`,
+            data: {
+              expiry: market.expiry,
+              supply: token.supply,
+              ptReserves: token.ptBalance,
+              shortfall: token.deficit,
+            },
+          }),
+        },
+      ]
+    })
+  )
+}
+
+// A queued market still not executed etaGraceSeconds after its eta
+function etaOverdueConditions(snapshot: Snapshot, thresholds: Thresholds): Condition[] {
+  return snapshot.pending.flatMap((pending): Condition[] => {
+    const overdue = snapshot.timestamp - pending.eta
+    if (overdue <= thresholds.etaGraceSeconds) return []
+    return [
+      {
+        key: `eta-overdue:${pending.market}`,
+        alert: at(snapshot, {
+          rule: 'eta-overdue',
+          severity: 'warning',
+          market: pending.market,
+          message: `Queued market ${pending.market} is still not executed ${formatHours(overdue)} after its eta`,
+          data: { ...pending, overdueSeconds: overdue },
+        }),
+      },
+    ]
+  })
+}
+
+export function conditions(snapshot: Snapshot, thresholds: Thresholds): Condition[] {
+  return [
+    ...depositLimitConditions(snapshot, thresholds),
+    ...expiryBackingConditions(snapshot, thresholds),
+    ...etaOverdueConditions(snapshot, thresholds),
+  ]
+}
+
+// Alerts for conditions that started holding since the last call, and resolved copies of those
+// that stopped. `active` carries the conditions between calls.
+export function transitions(active: Map<string, Alert>, current: Condition[], snapshot: Snapshot): Alert[] {
+  const alerts: Alert[] = []
+  const keys = new Set(current.map((c) => c.key))
+  for (const [key, alert] of active) {
+    if (keys.has(key)) continue
+    active.delete(key)
+    alerts.push({ ...alert, resolved: true, time: new Date().toISOString(), block: snapshot.block })
+  }
+  for (const condition of current) {
+    if (active.has(condition.key)) continue
+    active.set(condition.key, condition.alert)
+    alerts.push(condition.alert)
+  }
+  return alerts
+}
+
+// previewRate moves wider than twapBandBps between two polled blocks
+export function twapAlerts(previous: Snapshot | undefined, snapshot: Snapshot, thresholds: Thresholds): Alert[] {
+  if (!previous) return []
+  return snapshot.markets.flatMap((market): Alert[] => {
+    const before = previous.rates.get(market.address)
+    const after = snapshot.rates.get(market.address)
+    if (!before || after == null) return []
+
+    const moveBps = Number(((after > before ? after - before : before - after) * 10_000n) / before)
+    if (moveBps <= thresholds.twapBandBps) return []
+    return [
+      at(snapshot, {
+        rule: 'twap-band',
+        severity: 'warning',
+        market: market.address,
+        message:
+          `${market.name} TWAP rate moved ${(moveBps / 100).toFixed(2)}% from ${formatRate(before)}% ` +
+          `to ${formatRate(after)}% between blocks ${previous.block} and ${snapshot.block}`,
+        data: { fromBlock: previous.block, rateBefore: before, rateAfter: after, moveBps },
+      }),
+    ]
+  })
+}
+
+export type WatchedLog =
+  | { eventName: 'ExcessSwept'; args: { ptToken: `0x${string}`; to: `0x${string}`; amount: bigint } }
+  | { eventName: 'AdminContractUpdated'; args: { adminContract: `0x${string}` } }
+
+// One alert per ExcessSwept or AdminContractUpdated emitted by OVFL
+export function eventAlert(
+  log: WatchedLog & { blockNumber: bigint; transactionHash: `0x${string}` },
+  markets: Market[]
+): Alert {
+  const tx = { blockNumber: log.blockNumber, transactionHash: log.transactionHash }
+  if (log.eventName === 'AdminContractUpdated') {
+    return emitted(log, {
+      rule: 'admin-updated',
+      severity: 'critical',
+      message: `OVFL admin contract changed to ${log.args.adminContract} in ${log.transactionHash}`,
+      data: { ...log.args, ...tx },
+    })
+  }
+
+  const { ptToken, to, amount } = log.args
+  const market = markets.find((m) => m.pt.address.toLowerCase() === ptToken.toLowerCase())
+  const swept = market ? formatTokenAmount(amount, market.pt) : `${amount} of PT ${ptToken}`
+  return emitted(log, {
+    rule: 'excess-swept',
+    severity: 'info',
+    market: market?.address,
+    message: `${swept} swept to ${to} in ${log.transactionHash}`,
+    data: { ...log.args, ...tx },
+  })
+}
@@ -0,0 +1,77 @@
+import { appendFileSync } from 'node:fs'
+import { toJson } from '../json'
+import { SinkConfig } from './config'
+
+export type Severity = 'info' | 'warning' | 'critical'
+
+export interface Alert {
+  rule: 'deposit-limit' | 'expiry-backing' | 'twap-band' | 'eta-overdue' | 'excess-swept' | 'admin-updated'
+  severity: Severity
+  message: string
+  // ISO time the alert was raised
+  time: string
+  block: bigint
+  market?: `0x${string}`
+  // Set on the alert sent when a condition that fired earlier clears
+  resolved?: boolean
+  data: Record<string, unknown>
+}
+
+export interface Sink {
+  name: string
+  send(alert: Alert): Promise<void>
+}
+
+function stdoutSink(): Sink {
+  return {
+    name: 'stdout',
+    send: async (alert) => {
+      const status = alert.resolved ? 'RESOLVED' : alert.severity.toUpperCase()
+      console.log(`${alert.time} ${status.padEnd(8)} ${alert.rule}  ${alert.message}`)
+    },
+  }
+}
+
+function jsonLogSink(path: string): Sink {
+  return {
+    name: `jsonLog ${path}`,
+    send: async (alert) => appendFileSync(path, `${toJson(alert, 0)}\n`),
+  }
+}
+
+function webhookSink(url: string, headers: Record<string, string> = {}): Sink {
+  return {
+    name: `webhook ${url}`,
+    send: async (alert) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: toJson(alert, 0),
+        signal: AbortSignal.timeout(10_000),
+      })
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`)
+    },
+  }
+}
+
+export function createSink(config: SinkConfig): Sink {
+  switch (config.type) {
+    case 'stdout':
+      return stdoutSink()
+    case 'jsonLog':
+      return jsonLogSink(config.path)
+    case 'webhook':
+      return webhookSink(config.url, config.headers)
+  }
+}
+
+// Sends `alert` to every sink. A failing sink is reported on stderr without holding up the others.
+export async function dispatch(sinks: Sink[], alert: Alert) {
+  const results = await Promise.allSettled(sinks.map((sink) => sink.send(alert)))
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      const reason = result.reason instanceof Error ? result.reason.message : String(result.reason)
+      console.error(`${new Date().toISOString()} sink ${sinks[i].name} failed: ${reason}`)
+    }
+  })
+}
@@ -0,0 +1,79 @@
+import { PublicClient } from 'viem'
+import { ADMIN_ABI } from '../../src/abi/admin'
+import { OVFL_ABI } from '../../src/abi/ovfl'
+import { checkBacking, TokenBacking } from '../../src/lib/backing'
+import { Market } from '../../src/lib/markets'
+import { OvflContracts, PendingMarket } from '../../src/sdk'
+
+// Protocol state at one block, as the alert rules read it
+export interface Snapshot {
+  block: bigint
+  timestamp: number
+  markets: Market[]
+  // ovflToken supply against PT reserves, with each series' marketTotalDeposited
+  backing: TokenBacking[]
+  // marketDepositLimits by market address; 0 means no limit
+  limits: Map<`0x${string}`, bigint>
+  // previewRate by market address; null where it reverts, e.g. once the market has matured
+  rates: Map<`0x${string}`, bigint | null>
+  pending: PendingMarket[]
+}
+
+// Reads everything at `block`, so the rules never compare values from different blocks.
+// `candidates` are markets that may be queued; those no longer queued are left out of `pending`.
+export async function readSnapshot(
+  client: PublicClient,
+  contracts: OvflContracts,
+  markets: Market[],
+  candidates: `0x${string}`[],
+  block: { number: bigint; timestamp: bigint }
+): Promise<Snapshot> {
+  const blockNumber = block.number
+  const [backing, limits, rates, pending] = await Promise.all([
+    checkBacking(client, contracts.ovfl, markets, blockNumber),
+    client.multicall({
+      allowFailure: false,
+      blockNumber,
+      contracts: markets.map((market) => ({
+        address: contracts.ovfl,
+        abi: OVFL_ABI,
+        functionName: 'marketDepositLimits',
+        args: [market.address],
+      }) as const),
+    }),
+    client.multicall({
+      blockNumber,
+      contracts: markets.map((market) => ({
+        address: contracts.ovfl,
+        abi: OVFL_ABI,
+        functionName: 'previewRate',
+        args: [market.address],
+      }) as const),
+    }),
+    client.multicall({
+      allowFailure: false,
+      blockNumber,
+      contracts: candidates.map((market) => ({
+        address: contracts.admin,
+        abi: ADMIN_ABI,
+        functionName: 'pendingMarkets',
+        args: [market],
+      }) as const),
+    }),
+  ])
+
+  return {
+    block: blockNumber,
+    timestamp: Number(block.timestamp),
+    markets,
+    backing,
+    limits: new Map(markets.map((market, i) => [market.address, limits[i]])),
+    rates: new Map(
+      markets.map((market, i) => [market.address, rates[i].status === 'success' ? (rates[i].result as bigint) : null])
+    ),
+    pending: candidates.flatMap((market, i): PendingMarket[] => {
+      const [queued, twapDuration, feeBps, eta, underlying] = pending[i]
+      return queued ? [{ market, twapDuration, feeBps, eta: Number(eta), underlying }] : []
+    }),
+  }
+}
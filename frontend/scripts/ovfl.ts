@@ -0,0 +1,96 @@
+// Command-line OVFL client on the SDK in src/sdk.
+//
+//   [RPC_URL=...] [PRIVATE_KEY=0x... | OVFL_KEYSTORE=path] npm run ovfl -- <command> [args] [--json] [--dry-run]
+//
+// Addresses come from the deployment registry like check-backing's, with SABLIER_ADDRESS as a
+// further override. Exits 1 when a command fails and 2 on bad arguments.
+
+import { toOvflError } from '../src/sdk'
+import { parseCli, UsageError } from './cli/args'
+import { cancelMarket, executeMarket, queueMarket, setLimit, setMin, sweep } from './cli/admin'
+import { claim, deposit, markets, preview, streams, withdraw } from './cli/commands'
+import { Cli, createCli } from './cli/context'
+import { toJson } from './json'
+
+type Command = (cli: Cli, args: string[]) => Promise<void>
+
+const COMMANDS: Record<string, Command> = { markets, preview, deposit, claim, streams, withdraw }
+
+const ADMIN_COMMANDS: Record<string, Command> = {
+  'queue-market': queueMarket,
+  'execute-market': executeMarket,
+  'cancel-market': cancelMarket,
+  'set-limit': setLimit,
+  'set-min': setMin,
+  sweep,
+}
+
+const USAGE = `Usage: npm run ovfl -- <command> [args] [options]
+
+Commands:
+  markets                              List approved markets
+  preview <market> <amount>            Preview a deposit of <amount> PT
+  deposit <market> <amount>            Approve what is missing and deposit <amount> PT
+  claim <market> [amount]              Claim PT for ovflTokens after maturity (default: all claimable)
+  streams [address]                    List OVFL streams (default: the signer's)
+  withdraw <streamId>                  Withdraw everything vested from a stream
+
+Admin commands (ADMIN_ROLE on the Admin contract):
+  admin queue-market <market> <underlying> <twapSeconds> <feeBps>
+  admin execute-market <market>        Approve a queued market once its eta has passed
+  admin cancel-market <market>
+  admin set-limit <market> <limit>     Cap deposits in PT; 0 removes the cap
+  admin set-min <amount>               Minimum PT per deposit
+  admin sweep <market> <to>            Send PT held above the market's deposits
+
+<market> is a market address, its name or its PT symbol.
+
+Options:
+  --json                 Print JSON instead of tables
+  --dry-run              Simulate writes without sending them
+  --from <address>       Account to simulate from under --dry-run
+  --keystore <path>      V3 keystore to sign with, or a Foundry keystore name
+  --slippage <bps>       Deposit slippage on the immediate amount (default 50)
+  --unlimited            Approve unlimited amounts when depositing
+
+Environment:
+  RPC_URL                JSON-RPC endpoint (default http://127.0.0.1:8545)
+  PRIVATE_KEY            Signing key; takes precedence over a keystore
+  OVFL_KEYSTORE          Keystore used when --keystore is not given
+  KEYSTORE_PASSWORD      Keystore password; prompted for when unset
+  OVFL_ADDRESS, ADMIN_ADDRESS, SABLIER_ADDRESS, DEPLOY_BLOCK
+                         Override the deployment registry`
+
+async function main() {
+  const { positionals, options } = parseCli(process.argv.slice(2))
+  const [name, ...rest] = positionals
+  if (options.help || name === undefined || name === 'help') {
+    console.log(USAGE)
+    return
+  }
+
+  const isAdmin = name === 'admin'
+  const commands = isAdmin ? ADMIN_COMMANDS : COMMANDS
+  const [key = '', args] = isAdmin ? [rest[0], rest.slice(1)] : [name, rest]
+  if (isAdmin && !key) throw new UsageError('Missing admin command')
+  if (!Object.prototype.hasOwnProperty.call(commands, key)) {
+    throw new UsageError(`Unknown ${isAdmin ? 'admin ' : ''}command "${key}"`)
+  }
+
+  await commands[key](await createCli(options), args)
+}
+
+main().catch((err) => {
+  if (err instanceof UsageError) {
+    console.error(`${err.message}\n\n${USAGE}`)
+    process.exitCode = 2
+    return
+  }
+  const error = toOvflError(err)
+  if (process.argv.includes('--json')) {
+    console.log(toJson({ error: { code: error.code, message: error.message, reason: error.reason } }))
+  } else {
+    console.error(`Error (${error.code}): ${error.message}`)
+  }
+  process.exitCode = 1
+})
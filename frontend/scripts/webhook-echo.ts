@@ -0,0 +1,19 @@
+// Local stand-in for a webhook receiver: prints every request body POSTed to it, so the monitor's
+// webhook sink can be tried without an alerting service.
+//
+//   npm run webhook-echo [-- --port 8787]
+
+import { createServer } from 'node:http'
+import { parseArgs } from 'node:util'
+
+const { values } = parseArgs({ args: process.argv.slice(2), options: { port: { type: 'string', default: '8787' } } })
+const port = Number(values.port)
+
+createServer((req, res) => {
+  const chunks: Buffer[] = []
+  req.on('data', (chunk: Buffer) => chunks.push(chunk))
+  req.on('end', () => {
+    console.log(`${new Date().toISOString()} ${req.method} ${req.url} ${Buffer.concat(chunks).toString('utf8')}`)
+    res.writeHead(204).end()
+  })
+}).listen(port, '127.0.0.1', () => console.error(`Listening on http://127.0.0.1:${port}`))
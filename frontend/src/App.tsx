@@ -1,45 +1,86 @@
 import { useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
+import { useAccount } from 'wagmi'
 import Header from './components/Header'
 import Card from './components/Card'
-import TabToggle from './components/TabToggle'
+import TabToggle, { Tab } from './components/TabToggle'
 import DepositTab from './components/DepositTab'
 import ClaimTab from './components/ClaimTab'
+import Portfolio from './components/Portfolio'
 import StreamList from './components/StreamList'
-
-type Tab = 'deposit' | 'claim'
+import AdminConsole from './components/AdminConsole'
+import AnalyticsDashboard from './components/AnalyticsDashboard'
+import UnsupportedNetwork from './components/UnsupportedNetwork'
+import TimeTravelPanel from './components/TimeTravelPanel'
+import { useDeployment } from './hooks/useDeployment'
+import { useRoute } from './hooks/useRoute'
 
 function App() {
-  const [activeTab, setActiveTab] = useState<Tab>('deposit')
+  const { isConnected } = useAccount()
+  // Until a tab is picked, connected wallets land on their portfolio
+  const [pickedTab, setPickedTab] = useState<Tab | null>(null)
+  const tabs: Tab[] = isConnected ? ['portfolio', 'deposit', 'claim'] : ['deposit', 'claim']
+  const activeTab = pickedTab && tabs.includes(pickedTab) ? pickedTab : tabs[0]
+  const { route } = useRoute()
+  const { isSupported, isLocal } = useDeployment()
 
   return (
     <div className="min-h-screen flex flex-col">
       <Header />
       
       <main className="flex-1 flex items-start justify-center px-4 py-8 md:py-16">
-        <div className="w-full max-w-lg space-y-6">
-          {/* Main Action Card */}
-          <Card>
-            <TabToggle activeTab={activeTab} onTabChange={setActiveTab} />
-            
-            <AnimatePresence mode="wait">
-              <motion.div
-                key={activeTab}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -10 }}
-                transition={{ duration: 0.2 }}
-              >
-                {activeTab === 'deposit' ? <DepositTab /> : <ClaimTab />}
-              </motion.div>
-            </AnimatePresence>
-          </Card>
+        {!isSupported ? (
+          <div className="w-full max-w-lg">
+            <UnsupportedNetwork />
+          </div>
+        ) : route === '/admin' ? (
+          <div className="w-full max-w-lg">
+            <AdminConsole />
+          </div>
+        ) : route === '/analytics' ? (
+          <div className="w-full max-w-3xl">
+            <AnalyticsDashboard />
+          </div>
+        ) : (
+          <div className="w-full max-w-lg space-y-6">
+            {/* Main Action Card */}
+            <Card>
+              <TabToggle tabs={tabs} activeTab={activeTab} onTabChange={setPickedTab} />
+              
+              <AnimatePresence mode="wait">
+                <motion.div
+                  key={activeTab}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  transition={{ duration: 0.2 }}
+                >
+                  {activeTab === 'portfolio' ? (
+                    <Portfolio onClaim={() => setPickedTab('claim')} />
+                  ) : activeTab === 'deposit' ? (
+                    <DepositTab />
+                  ) : (
+                    <ClaimTab />
+                  )}
+                </motion.div>
+              </AnimatePresence>
+            </Card>
 
-          {/* Streams Card */}
-          <StreamList />
-        </div>
+            {/* Streams Card */}
+            <StreamList />
+          </div>
+        )}
       </main>
 
+      {/* Dev mode against a local Anvil node */}
+      {isLocal && (
+        <div className="flex justify-center px-4 pb-8">
+          <div className="w-full max-w-lg">
+            <TimeTravelPanel />
+          </div>
+        </div>
+      )}
+
       {/* Footer */}
       <footer className="py-6 text-center text-white/40 text-sm">
         <p>
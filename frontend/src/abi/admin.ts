@@ -0,0 +1,204 @@
+export const ADMIN_ABI = [
+  // Constants
+  {
+    inputs: [],
+    name: 'ADMIN_ROLE',
+    outputs: [{ type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'FEE_MAX_BPS',
+    outputs: [{ type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'TIMELOCK_DELAY',
+    outputs: [{ type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'MIN_TWAP_DURATION',
+    outputs: [{ type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'MAX_TWAP_DURATION',
+    outputs: [{ type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'PENDLE_ORACLE',
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  // State
+  {
+    inputs: [],
+    name: 'ovfl',
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'underlying', type: 'address' }],
+    name: 'underlyingToOvfl',
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'market', type: 'address' }],
+    name: 'pendingMarkets',
+    outputs: [
+      { name: 'queued', type: 'bool' },
+      { name: 'twapDuration', type: 'uint32' },
+      { name: 'feeBps', type: 'uint16' },
+      { name: 'eta', type: 'uint256' },
+      { name: 'underlying', type: 'address' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'role', type: 'bytes32' },
+      { name: 'account', type: 'address' },
+    ],
+    name: 'hasRole',
+    outputs: [{ type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  // Underlyings
+  {
+    inputs: [
+      { name: 'underlying', type: 'address' },
+      { name: 'name', type: 'string' },
+      { name: 'symbol', type: 'string' },
+    ],
+    name: 'approveUnderlying',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  // Market lifecycle
+  {
+    inputs: [
+      { name: 'market', type: 'address' },
+      { name: 'twapSeconds', type: 'uint32' },
+      { name: 'underlying', type: 'address' },
+      { name: 'feeBps', type: 'uint16' },
+    ],
+    name: 'queueAddMarket',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'market', type: 'address' }],
+    name: 'executeAddMarket',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'market', type: 'address' }],
+    name: 'cancelPendingMarket',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  // Limits
+  {
+    inputs: [
+      { name: 'market', type: 'address' },
+      { name: 'limit', type: 'uint256' },
+    ],
+    name: 'setMarketDepositLimit',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'newMin', type: 'uint256' }],
+    name: 'setMinPtAmount',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'ptToken', type: 'address' },
+      { name: 'to', type: 'address' },
+    ],
+    name: 'sweepExcessPt',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  // Events
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'underlying', type: 'address' },
+      { indexed: true, name: 'ovflToken', type: 'address' },
+    ],
+    name: 'UnderlyingApproved',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'market', type: 'address' },
+      { indexed: false, name: 'eta', type: 'uint256' },
+    ],
+    name: 'MarketQueued',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'market', type: 'address' },
+    ],
+    name: 'MarketCancelled',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'market', type: 'address' },
+      { indexed: true, name: 'ptToken', type: 'address' },
+      { indexed: true, name: 'underlying', type: 'address' },
+    ],
+    name: 'MarketApproved',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'market', type: 'address' },
+      { indexed: false, name: 'limit', type: 'uint256' },
+    ],
+    name: 'MarketDepositLimitSet',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, name: 'newMin', type: 'uint256' },
+    ],
+    name: 'MinPtAmountSet',
+    type: 'event',
+  },
+] as const
@@ -15,6 +15,44 @@ export const OVFL_ABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  // Deposit, with EIP-2612 permits for the PT and fee token instead of approvals
+  {
+    inputs: [
+      { name: 'market', type: 'address' },
+      { name: 'ptAmount', type: 'uint256' },
+      { name: 'minToUser', type: 'uint256' },
+      {
+        components: [
+          { name: 'value', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+          { name: 'v', type: 'uint8' },
+          { name: 'r', type: 'bytes32' },
+          { name: 's', type: 'bytes32' },
+        ],
+        name: 'ptPermit',
+        type: 'tuple',
+      },
+      {
+        components: [
+          { name: 'value', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+          { name: 'v', type: 'uint8' },
+          { name: 'r', type: 'bytes32' },
+          { name: 's', type: 'bytes32' },
+        ],
+        name: 'feePermit',
+        type: 'tuple',
+      },
+    ],
+    name: 'depositWithPermit',
+    outputs: [
+      { name: 'toUser', type: 'uint256' },
+      { name: 'toStream', type: 'uint256' },
+      { name: 'streamId', type: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
   // Claim
   {
     inputs: [
@@ -125,6 +163,32 @@ export const OVFL_ABI = [
     name: 'Claimed',
     type: 'event',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'payer', type: 'address' },
+      { indexed: true, name: 'token', type: 'address' },
+      { indexed: false, name: 'amount', type: 'uint256' },
+    ],
+    name: 'FeeTaken',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'ptToken', type: 'address' },
+      { indexed: true, name: 'to', type: 'address' },
+      { indexed: false, name: 'amount', type: 'uint256' },
+    ],
+    name: 'ExcessSwept',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, name: 'adminContract', type: 'address' }],
+    name: 'AdminContractUpdated',
+    type: 'event',
+  },
 ] as const
 
 export const ERC20_ABI = [
@@ -155,6 +219,13 @@ export const ERC20_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'totalSupply',
+    outputs: [{ type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [],
     name: 'decimals',
@@ -169,6 +240,35 @@ export const ERC20_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  // EIP-2612
+  {
+    inputs: [],
+    name: 'name',
+    outputs: [{ type: 'string' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'version',
+    outputs: [{ type: 'string' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'owner', type: 'address' }],
+    name: 'nonces',
+    outputs: [{ type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'DOMAIN_SEPARATOR',
+    outputs: [{ type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
 ] as const
 
 export const SABLIER_ABI = [
@@ -180,16 +280,24 @@ export const SABLIER_ABI = [
         components: [
           { name: 'sender', type: 'address' },
           { name: 'recipient', type: 'address' },
-          { name: 'totalAmount', type: 'uint128' },
-          { name: 'asset', type: 'address' },
-          { name: 'cancelable', type: 'bool' },
-          { name: 'transferable', type: 'bool' },
           { name: 'startTime', type: 'uint40' },
-          { name: 'cliffTime', type: 'uint40' },
+          { name: 'isCancelable', type: 'bool' },
+          { name: 'wasCanceled', type: 'bool' },
+          { name: 'asset', type: 'address' },
           { name: 'endTime', type: 'uint40' },
-          { name: 'isCanceled', type: 'bool' },
           { name: 'isDepleted', type: 'bool' },
-          { name: 'wasCanceled', type: 'bool' },
+          { name: 'isStream', type: 'bool' },
+          { name: 'isTransferable', type: 'bool' },
+          {
+            components: [
+              { name: 'deposited', type: 'uint128' },
+              { name: 'withdrawn', type: 'uint128' },
+              { name: 'refunded', type: 'uint128' },
+            ],
+            name: 'amounts',
+            type: 'tuple',
+          },
+          { name: 'cliffTime', type: 'uint40' },
         ],
         type: 'tuple',
       },
@@ -204,6 +312,13 @@ export const SABLIER_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    name: 'ownerOf',
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [
       { name: 'streamId', type: 'uint256' },
@@ -215,5 +330,25 @@ export const SABLIER_ABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [
+      { name: 'streamIds', type: 'uint256[]' },
+      { name: 'amounts', type: 'uint128[]' },
+    ],
+    name: 'withdrawMultiple',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  // Events
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'from', type: 'address' },
+      { indexed: true, name: 'to', type: 'address' },
+      { indexed: true, name: 'tokenId', type: 'uint256' },
+    ],
+    name: 'Transfer',
+    type: 'event',
+  },
 ] as const
-
@@ -0,0 +1,254 @@
+export const PENDLE_ORACLE_ABI = [
+  {
+    inputs: [
+      { name: 'market', type: 'address' },
+      { name: 'duration', type: 'uint32' },
+    ],
+    name: 'getOracleState',
+    outputs: [
+      { name: 'increaseCardinalityRequired', type: 'bool' },
+      { name: 'cardinalityRequired', type: 'uint16' },
+      { name: 'oldestObservationSatisfied', type: 'bool' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'market', type: 'address' },
+      { name: 'twapDuration', type: 'uint32' },
+    ],
+    name: 'getPtToSyRate',
+    outputs: [{ type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+export const PENDLE_MARKET_ABI = [
+  {
+    inputs: [],
+    name: 'expiry',
+    outputs: [{ type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'readTokens',
+    outputs: [
+      { name: '_SY', type: 'address' },
+      { name: '_PT', type: 'address' },
+      { name: '_YT', type: 'address' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+export const SY_ABI = [
+  {
+    inputs: [],
+    name: 'assetInfo',
+    outputs: [
+      { name: 'assetType', type: 'uint8' },
+      { name: 'assetAddress', type: 'address' },
+      { name: 'assetDecimals', type: 'uint8' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'yieldToken',
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+// Router structs shared by the swap entrypoints. Limit orders are never filled here, so
+// LimitOrderData is always passed empty.
+const APPROX_PARAMS = {
+  name: 'guessPtOut',
+  type: 'tuple',
+  components: [
+    { name: 'guessMin', type: 'uint256' },
+    { name: 'guessMax', type: 'uint256' },
+    { name: 'guessOffchain', type: 'uint256' },
+    { name: 'maxIteration', type: 'uint256' },
+    { name: 'eps', type: 'uint256' },
+  ],
+} as const
+
+const SWAP_DATA = {
+  name: 'swapData',
+  type: 'tuple',
+  components: [
+    { name: 'swapType', type: 'uint8' },
+    { name: 'extRouter', type: 'address' },
+    { name: 'extCalldata', type: 'bytes' },
+    { name: 'needScale', type: 'bool' },
+  ],
+} as const
+
+const TOKEN_INPUT = {
+  name: 'input',
+  type: 'tuple',
+  components: [
+    { name: 'tokenIn', type: 'address' },
+    { name: 'netTokenIn', type: 'uint256' },
+    { name: 'tokenMintSy', type: 'address' },
+    { name: 'pendleSwap', type: 'address' },
+    SWAP_DATA,
+  ],
+} as const
+
+const TOKEN_OUTPUT = {
+  name: 'output',
+  type: 'tuple',
+  components: [
+    { name: 'tokenOut', type: 'address' },
+    { name: 'minTokenOut', type: 'uint256' },
+    { name: 'tokenRedeemSy', type: 'address' },
+    { name: 'pendleSwap', type: 'address' },
+    SWAP_DATA,
+  ],
+} as const
+
+const FILL_ORDER_PARAMS = {
+  type: 'tuple[]',
+  components: [
+    {
+      name: 'order',
+      type: 'tuple',
+      components: [
+        { name: 'salt', type: 'uint256' },
+        { name: 'expiry', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'orderType', type: 'uint8' },
+        { name: 'token', type: 'address' },
+        { name: 'YT', type: 'address' },
+        { name: 'maker', type: 'address' },
+        { name: 'receiver', type: 'address' },
+        { name: 'makingAmount', type: 'uint256' },
+        { name: 'lnImpliedRate', type: 'uint256' },
+        { name: 'failSafeRate', type: 'uint256' },
+        { name: 'permit', type: 'bytes' },
+      ],
+    },
+    { name: 'signature', type: 'bytes' },
+    { name: 'makingAmount', type: 'uint256' },
+  ],
+} as const
+
+const LIMIT_ORDER_DATA = {
+  name: 'limit',
+  type: 'tuple',
+  components: [
+    { name: 'limitRouter', type: 'address' },
+    { name: 'epsSkipMarket', type: 'uint256' },
+    { ...FILL_ORDER_PARAMS, name: 'normalFills' },
+    { ...FILL_ORDER_PARAMS, name: 'flashFills' },
+    { name: 'optData', type: 'bytes' },
+  ],
+} as const
+
+export const PENDLE_ROUTER_ABI = [
+  {
+    inputs: [
+      { name: 'receiver', type: 'address' },
+      { name: 'market', type: 'address' },
+      { name: 'minPtOut', type: 'uint256' },
+      APPROX_PARAMS,
+      TOKEN_INPUT,
+      LIMIT_ORDER_DATA,
+    ],
+    name: 'swapExactTokenForPt',
+    outputs: [
+      { name: 'netPtOut', type: 'uint256' },
+      { name: 'netSyFee', type: 'uint256' },
+      { name: 'netSyInterm', type: 'uint256' },
+    ],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'receiver', type: 'address' },
+      { name: 'market', type: 'address' },
+      { name: 'exactSyIn', type: 'uint256' },
+      { name: 'minPtOut', type: 'uint256' },
+      APPROX_PARAMS,
+      LIMIT_ORDER_DATA,
+    ],
+    name: 'swapExactSyForPt',
+    outputs: [
+      { name: 'netPtOut', type: 'uint256' },
+      { name: 'netSyFee', type: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'receiver', type: 'address' },
+      { name: 'YT', type: 'address' },
+      { name: 'netPyIn', type: 'uint256' },
+      TOKEN_OUTPUT,
+    ],
+    name: 'redeemPyToToken',
+    outputs: [
+      { name: 'netTokenOut', type: 'uint256' },
+      { name: 'netSyInterm', type: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const
+
+export const PENDLE_ROUTER_STATIC_ABI = [
+  {
+    inputs: [
+      { name: 'market', type: 'address' },
+      { name: 'tokenIn', type: 'address' },
+      { name: 'amountTokenIn', type: 'uint256' },
+    ],
+    name: 'swapExactTokenForPtStatic',
+    outputs: [
+      { name: 'netPtOut', type: 'uint256' },
+      { name: 'netSyMinted', type: 'uint256' },
+      { name: 'netSyFee', type: 'uint256' },
+      { name: 'priceImpact', type: 'uint256' },
+      { name: 'exchangeRateAfter', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'market', type: 'address' },
+      { name: 'exactSyIn', type: 'uint256' },
+    ],
+    name: 'swapExactSyForPtStatic',
+    outputs: [
+      { name: 'netPtOut', type: 'uint256' },
+      { name: 'netSyFee', type: 'uint256' },
+      { name: 'priceImpact', type: 'uint256' },
+      { name: 'exchangeRateAfter', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'YT', type: 'address' },
+      { name: 'netPYToRedeem', type: 'uint256' },
+      { name: 'tokenOut', type: 'address' },
+    ],
+    name: 'redeemPyToTokenStatic',
+    outputs: [{ name: 'netTokenOut', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
@@ -8,6 +8,8 @@ interface ActionButtonProps {
   disabled?: boolean
   isLoading?: boolean
   loadingText?: string
+  steps?: string[]
+  currentStep?: number
 }
 
 export default function ActionButton({ 
@@ -15,7 +17,9 @@ export default function ActionButton({
   onClick, 
   disabled = false, 
   isLoading = false,
-  loadingText = 'Processing...'
+  loadingText = 'Processing...',
+  steps,
+  currentStep = 0,
 }: ActionButtonProps) {
   const { isConnected } = useAccount()
 
@@ -36,7 +40,7 @@ export default function ActionButton({
     )
   }
 
-  return (
+  const button = (
     <motion.button
       whileHover={{ scale: disabled ? 1 : 1.01 }}
       whileTap={{ scale: disabled ? 1 : 0.99 }}
@@ -65,5 +69,27 @@ export default function ActionButton({
       {isLoading ? loadingText : label}
     </motion.button>
   )
+
+  if (!steps) return button
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        {steps.map((step, i) => (
+          <div key={step} className="flex-1 space-y-1">
+            <div
+              className={`h-1 rounded-full transition-colors ${
+                i < currentStep ? 'bg-accent' : i === currentStep ? 'bg-accent/50' : 'bg-white/10'
+              }`}
+            />
+            <div className={`text-xs ${i <= currentStep ? 'text-white/70' : 'text-white/30'}`}>
+              {i < currentStep ? '✓ ' : ''}{step}
+            </div>
+          </div>
+        ))}
+      </div>
+      {button}
+    </div>
+  )
 }
 
@@ -0,0 +1,31 @@
+import { useAccount } from 'wagmi'
+import Card from './Card'
+import AdminForms from './AdminForms'
+import PendingMarketList from './PendingMarketList'
+import { useIsAdmin } from '../hooks/useAdmin'
+
+export default function AdminConsole() {
+  const { address } = useAccount()
+  const { isAdmin, isLoading } = useIsAdmin()
+
+  if (!address || !isAdmin) {
+    return (
+      <Card>
+        <div className="text-center py-8 text-white/40">
+          {!address
+            ? 'Connect an admin wallet to continue'
+            : isLoading
+              ? 'Checking permissions...'
+              : 'This wallet does not hold the admin role'}
+        </div>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <PendingMarketList />
+      <AdminForms />
+    </div>
+  )
+}
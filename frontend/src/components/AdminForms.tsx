@@ -0,0 +1,302 @@
+import { ReactNode, useState } from 'react'
+import { isAddress } from 'viem'
+import Card from './Card'
+import ErrorMessage from './ErrorMessage'
+import MarketVettingPanel from './MarketVettingPanel'
+import { AdminLimits, useAdminAction, useAdminLimits } from '../hooks/useAdmin'
+import { useMarketVetting } from '../hooks/useMarketVetting'
+import { useMarkets } from '../hooks/useMarkets'
+import { isAmountInput, parseAmount } from '../lib/amount'
+
+interface FieldProps {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+  error?: string | null
+  hint?: string
+}
+
+function Field({ label, value, onChange, placeholder, error, hint }: FieldProps) {
+  return (
+    <div className="space-y-1">
+      <label className="text-sm text-white/50">{label}</label>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value.trim())}
+        placeholder={placeholder}
+        className={`glass-input text-sm ${error ? 'border-red-500/50' : ''}`}
+      />
+      {error ? (
+        <p className="text-xs text-red-400">{error}</p>
+      ) : (
+        hint && <p className="text-xs text-white/40">{hint}</p>
+      )}
+    </div>
+  )
+}
+
+interface SectionProps {
+  title: string
+  description: string
+  children: ReactNode
+}
+
+function Section({ title, description, children }: SectionProps) {
+  return (
+    <Card>
+      <h2 className="text-lg font-semibold">{title}</h2>
+      <p className="text-sm text-white/40 mb-4">{description}</p>
+      <div className="space-y-4">{children}</div>
+    </Card>
+  )
+}
+
+interface SubmitProps {
+  label: string
+  onClick: () => void
+  disabled: boolean
+  isLoading: boolean
+}
+
+function Submit({ label, onClick, disabled, isLoading }: SubmitProps) {
+  return (
+    <button onClick={onClick} disabled={disabled || isLoading} className="btn-primary w-full py-3">
+      {isLoading ? 'Submitting...' : label}
+    </button>
+  )
+}
+
+// Empty inputs show no error until the user types something
+const addressError = (value: string) => (value && !isAddress(value) ? 'Not a valid address' : null)
+
+function ApproveUnderlyingForm() {
+  const [underlying, setUnderlying] = useState('')
+  const [name, setName] = useState('')
+  const [symbol, setSymbol] = useState('')
+  const action = useAdminAction('Approve underlying')
+
+  const valid = isAddress(underlying) && !!name && !!symbol
+
+  return (
+    <Section title="Approve Underlying" description="Deploys the ovflToken for a new underlying asset.">
+      <Field label="Underlying" value={underlying} onChange={setUnderlying} placeholder="0x..." error={addressError(underlying)} />
+      <div className="grid grid-cols-2 gap-3">
+        <Field label="ovflToken name" value={name} onChange={setName} placeholder="OVFL Wrapped Ether" />
+        <Field label="ovflToken symbol" value={symbol} onChange={setSymbol} placeholder="ovflETH" />
+      </div>
+      <ErrorMessage error={action.error} />
+      <Submit
+        label="Approve Underlying"
+        onClick={() =>
+          action.execute({ functionName: 'approveUnderlying', args: [underlying as `0x${string}`, name, symbol] })
+        }
+        disabled={!valid}
+        isLoading={action.isLoading}
+      />
+    </Section>
+  )
+}
+
+function QueueMarketForm({ limits }: { limits: AdminLimits }) {
+  const [market, setMarket] = useState('')
+  const [underlying, setUnderlying] = useState('')
+  const [twapMinutes, setTwapMinutes] = useState('')
+  const [feeBps, setFeeBps] = useState('')
+  const action = useAdminAction('Queue market')
+
+  const minMinutes = limits.minTwapDuration / 60
+  const maxMinutes = limits.maxTwapDuration / 60
+  const twapSeconds = /^\d+$/.test(twapMinutes) ? Number(twapMinutes) * 60 : null
+  const fee = /^\d+$/.test(feeBps) ? Number(feeBps) : null
+
+  const twapError =
+    twapMinutes &&
+    (twapSeconds === null || twapSeconds < limits.minTwapDuration || twapSeconds > limits.maxTwapDuration)
+      ? `Must be between ${minMinutes} and ${maxMinutes} minutes`
+      : null
+  const feeError =
+    feeBps && (fee === null || fee > limits.feeMaxBps) ? `Must be a whole number up to ${limits.feeMaxBps} bps` : null
+
+  // Checked before queueing so a market that can never be executed doesn't sit out the timelock
+  const { vetting, isLoading: isVetting, error: vettingError } = useMarketVetting(
+    isAddress(market) ? market : null,
+    twapSeconds !== null && !twapError ? twapSeconds : null
+  )
+
+  const valid =
+    isAddress(market) &&
+    isAddress(underlying) &&
+    twapSeconds !== null &&
+    fee !== null &&
+    !twapError &&
+    !feeError &&
+    !!vetting &&
+    !vetting.isExpired
+
+  return (
+    <Section
+      title="Queue Market"
+      description={`Markets can be executed ${limits.timelockDelay / 3600}h after queueing, once the Pendle oracle is ready.`}
+    >
+      <Field label="Pendle market" value={market} onChange={setMarket} placeholder="0x..." error={addressError(market)} />
+      <Field
+        label="Underlying"
+        value={underlying}
+        onChange={setUnderlying}
+        placeholder="0x..."
+        error={addressError(underlying)}
+        hint="Must already be approved"
+      />
+      <div className="grid grid-cols-2 gap-3">
+        <Field
+          label="TWAP (minutes)"
+          value={twapMinutes}
+          onChange={setTwapMinutes}
+          placeholder={`${minMinutes}`}
+          error={twapError}
+          hint={`${minMinutes}-${maxMinutes} minutes`}
+        />
+        <Field
+          label="Fee (bps)"
+          value={feeBps}
+          onChange={setFeeBps}
+          placeholder="0"
+          error={feeError}
+          hint={`Max ${limits.feeMaxBps} bps`}
+        />
+      </div>
+      <MarketVettingPanel vetting={vetting} underlying={underlying} isLoading={isVetting} error={vettingError} />
+      <ErrorMessage error={action.error} />
+      <Submit
+        label="Queue Market"
+        onClick={() =>
+          action.execute({
+            functionName: 'queueAddMarket',
+            args: [market as `0x${string}`, twapSeconds!, underlying as `0x${string}`, fee!],
+          })
+        }
+        disabled={!valid}
+        isLoading={action.isLoading}
+      />
+    </Section>
+  )
+}
+
+function DepositLimitForm() {
+  const { markets } = useMarkets()
+  const [marketAddress, setMarketAddress] = useState('')
+  const [limit, setLimit] = useState('')
+  const action = useAdminAction('Set deposit limit')
+
+  const market = markets.find((m) => m.address === marketAddress)
+  const decimals = market?.pt.decimals ?? 18
+  const limitAmount = parseAmount(limit, decimals)
+
+  return (
+    <Section title="Deposit Limit" description="Caps total PT deposited into a market. Zero removes the limit.">
+      <MarketPicker value={marketAddress} onChange={setMarketAddress} />
+      <Field
+        label={`Limit${market ? ` (${market.pt.symbol})` : ''}`}
+        value={limit}
+        onChange={(value) => isAmountInput(value, decimals) && setLimit(value)}
+        placeholder="0.0"
+      />
+      <ErrorMessage error={action.error} />
+      <Submit
+        label="Set Limit"
+        onClick={() =>
+          action.execute({ functionName: 'setMarketDepositLimit', args: [market!.address, limitAmount!] })
+        }
+        disabled={!market || limitAmount === null}
+        isLoading={action.isLoading}
+      />
+    </Section>
+  )
+}
+
+function MinPtAmountForm() {
+  const [amount, setAmount] = useState('')
+  const action = useAdminAction('Set minimum deposit')
+
+  const minAmount = parseAmount(amount, 18)
+
+  return (
+    <Section title="Minimum Deposit" description="Smallest PT amount accepted by deposit, across all markets.">
+      <Field
+        label="Minimum PT"
+        value={amount}
+        onChange={(value) => isAmountInput(value, 18) && setAmount(value)}
+        placeholder="0.01"
+      />
+      <ErrorMessage error={action.error} />
+      <Submit
+        label="Set Minimum"
+        onClick={() => action.execute({ functionName: 'setMinPtAmount', args: [minAmount!] })}
+        disabled={minAmount === null}
+        isLoading={action.isLoading}
+      />
+    </Section>
+  )
+}
+
+function SweepExcessForm() {
+  const { markets } = useMarkets()
+  const [marketAddress, setMarketAddress] = useState('')
+  const [recipient, setRecipient] = useState('')
+  const action = useAdminAction('Sweep excess PT')
+
+  const market = markets.find((m) => m.address === marketAddress)
+
+  return (
+    <Section
+      title="Sweep Excess PT"
+      description="Sends the PT OVFL holds for this market above its marketTotalDeposited to a recipient."
+    >
+      <MarketPicker value={marketAddress} onChange={setMarketAddress} />
+      <Field label="Recipient" value={recipient} onChange={setRecipient} placeholder="0x..." error={addressError(recipient)} />
+      <ErrorMessage error={action.error} />
+      <Submit
+        label="Sweep"
+        onClick={() =>
+          action.execute({ functionName: 'sweepExcessPt', args: [market!.pt.address, recipient as `0x${string}`] })
+        }
+        disabled={!market || !isAddress(recipient)}
+        isLoading={action.isLoading}
+      />
+    </Section>
+  )
+}
+
+function MarketPicker({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  const { markets } = useMarkets()
+
+  return (
+    <div className="space-y-1">
+      <label className="text-sm text-white/50">Market</label>
+      <select value={value} onChange={(e) => onChange(e.target.value)} className="glass-input text-sm">
+        <option value="">Select a market</option>
+        {markets.map((market) => (
+          <option key={market.address} value={market.address}>
+            {market.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
+
+export default function AdminForms() {
+  const { limits } = useAdminLimits()
+
+  return (
+    <div className="space-y-6">
+      <ApproveUnderlyingForm />
+      {limits && <QueueMarketForm limits={limits} />}
+      <DepositLimitForm />
+      <MinPtAmountForm />
+      <SweepExcessForm />
+    </div>
+  )
+}
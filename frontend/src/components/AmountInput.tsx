@@ -1,12 +1,27 @@
+import { isAmountInput } from '../lib/amount'
+
 interface AmountInputProps {
   value: string
   onChange: (value: string) => void
   balance: string
   symbol: string
+  decimals?: number
   onMax: () => void
+  error?: string
+  // Short tag shown in the token icon
+  badge?: string
 }
 
-export default function AmountInput({ value, onChange, balance, symbol, onMax }: AmountInputProps) {
+export default function AmountInput({
+  value,
+  onChange,
+  balance,
+  symbol,
+  decimals = 18,
+  onMax,
+  error,
+  badge = 'PT',
+}: AmountInputProps) {
   return (
     <div className="space-y-2">
       <div className="flex items-center justify-between">
@@ -21,15 +36,18 @@ export default function AmountInput({ value, onChange, balance, symbol, onMax }:
       
       <div className="relative">
         <input
-          type="number"
+          type="text"
+          inputMode="decimal"
           value={value}
-          onChange={(e) => onChange(e.target.value)}
+          onChange={(e) => {
+            if (isAmountInput(e.target.value, decimals)) onChange(e.target.value)
+          }}
           placeholder="0.0"
-          className="glass-input pr-24 text-xl font-medium"
+          className={`glass-input pr-24 text-xl font-medium ${error ? 'border-red-500/50' : ''}`}
         />
         <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-2">
           <div className="w-6 h-6 rounded-md bg-accent/20 flex items-center justify-center">
-            <span className="text-accent text-xs font-bold">PT</span>
+            <span className="text-accent text-xs font-bold">{badge}</span>
           </div>
           <span className="text-white/60 text-sm font-medium">{symbol}</span>
         </div>
@@ -39,6 +57,8 @@ export default function AmountInput({ value, onChange, balance, symbol, onMax }:
         <span className="text-white/40">Balance:</span>
         <span className="text-white/60">{balance} {symbol}</span>
       </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
     </div>
   )
 }
@@ -0,0 +1,136 @@
+import { useState } from 'react'
+import { formatUnits } from 'viem'
+import Card from './Card'
+import BarChart from './BarChart'
+import BackingPanel from './BackingPanel'
+import { useAnalytics } from '../hooks/useAnalytics'
+import { dailyActivity, dailyFees } from '../lib/analytics'
+import { formatAmount, formatRate, formatTokenAmount } from '../lib/amount'
+import { toUserError } from '../lib/errors'
+
+const formatDay = (day: number) =>
+  new Date(day * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-xs text-white/40">{label}</div>
+      <div className="font-medium">{value}</div>
+    </div>
+  )
+}
+
+export default function AnalyticsDashboard() {
+  const { markets, events, activity, fees, tvl, isLoading, error } = useAnalytics()
+  const [selected, setSelected] = useState<string | null>(null)
+
+  const now = Math.floor(Date.now() / 1000)
+  const market = markets.find((m) => m.address === selected) ?? markets[0]
+
+  const underlyings = [...new Map(markets.map((m) => [m.underlying.address, m.underlying])).values()]
+
+  if (error) {
+    return (
+      <Card>
+        <div className="text-center py-8 text-red-400">{toUserError(error).message}</div>
+      </Card>
+    )
+  }
+
+  if (markets.length === 0) {
+    return (
+      <Card>
+        <div className="text-center py-8 text-white/40">
+          {isLoading ? 'Indexing protocol events...' : 'No markets yet'}
+        </div>
+      </Card>
+    )
+  }
+
+  const daily = market ? dailyActivity(events, market.address, now) : []
+  const fee = market ? dailyFees(events, market.underlying.address, now) : []
+  const toPoints = <T,>(series: T[], day: (p: T) => number, value: (p: T) => bigint, decimals: number, symbol: string) =>
+    series.map((p) => ({
+      label: formatDay(day(p)),
+      value: Number(formatUnits(value(p), decimals)),
+      title: `${formatAmount(value(p), decimals)} ${symbol}`,
+    }))
+
+  return (
+    <div className="space-y-6">
+      <BackingPanel />
+
+      {/* Treasury fees per underlying */}
+      <Card>
+        <h2 className="text-lg font-semibold mb-4">Treasury Fees</h2>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {underlyings.map((underlying) => (
+            <div key={underlying.address} className="bg-ovfl-800/30 rounded-xl p-4">
+              <Stat label={underlying.symbol} value={formatTokenAmount(fees[underlying.address] ?? 0n, underlying)} />
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      {/* Per-market summary */}
+      <Card>
+        <h2 className="text-lg font-semibold mb-4">Markets</h2>
+        <div className="space-y-3">
+          {markets.map((m) => {
+            const stats = activity[m.address]
+            return (
+              <button
+                key={m.address}
+                onClick={() => setSelected(m.address)}
+                className={`w-full text-left rounded-xl p-4 transition-all ${
+                  market?.address === m.address
+                    ? 'bg-accent/10 border border-accent/30'
+                    : 'bg-ovfl-800/30 border border-white/5 hover:border-white/10'
+                }`}
+              >
+                <div className="font-medium mb-3">{m.name}</div>
+                <div className="grid grid-cols-3 gap-3">
+                  <Stat label="TVL" value={tvl[m.address] === undefined ? '-' : formatTokenAmount(tvl[m.address], m.pt)} />
+                  <Stat label="Deposits" value={stats.depositCount.toString()} />
+                  <Stat label="Avg rate" value={stats.avgRateE18 === null ? '-' : formatRate(stats.avgRateE18)} />
+                  <Stat label="Streaming" value={formatTokenAmount(stats.outstandingStream, m.ovfl)} />
+                  <Stat label="Claimed" value={formatTokenAmount(stats.claimed, m.pt)} />
+                  <Stat label="Swept" value={formatTokenAmount(stats.swept, m.pt)} />
+                </div>
+              </button>
+            )
+          })}
+        </div>
+      </Card>
+
+      {/* Daily charts for the selected market */}
+      {market && (
+        <Card>
+          <h2 className="text-lg font-semibold mb-4">{market.name} by day</h2>
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <div className="text-sm text-white/50">Deposited ({market.pt.symbol})</div>
+              <BarChart
+                points={toPoints(daily, (p) => p.day, (p) => p.deposited, market.pt.decimals, market.pt.symbol)}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="text-sm text-white/50">Claimed ({market.pt.symbol})</div>
+              <BarChart
+                points={toPoints(daily, (p) => p.day, (p) => p.claimed, market.pt.decimals, market.pt.symbol)}
+                emptyText="No claims yet"
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="text-sm text-white/50">Fees ({market.underlying.symbol}, all markets)</div>
+              <BarChart
+                points={toPoints(fee, (p) => p.day, (p) => p.fees, market.underlying.decimals, market.underlying.symbol)}
+                emptyText="No fees yet"
+              />
+            </div>
+          </div>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import { TokenBacking, isFullyBacked } from '../lib/backing'
+
+interface BackingBadgeProps {
+  backing: TokenBacking
+}
+
+export default function BackingBadge({ backing }: BackingBadgeProps) {
+  const healthy = isFullyBacked(backing)
+  const ratio = backing.ratioBps === null ? '-' : `${(backing.ratioBps / 100).toFixed(2)}%`
+
+  return (
+    <span
+      className={`px-2 py-1 rounded-md text-xs font-medium ${
+        healthy ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
+      }`}
+      title={`${backing.ovfl.symbol} backed by PT at ${ratio}`}
+    >
+      {healthy ? `Backed ${ratio}` : `Deficit ${ratio}`}
+    </span>
+  )
+}
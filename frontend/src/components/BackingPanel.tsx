@@ -0,0 +1,61 @@
+import Card from './Card'
+import BackingBadge from './BackingBadge'
+import { useBacking } from '../hooks/useBacking'
+import { formatAmount, formatTokenAmount } from '../lib/amount'
+
+export default function BackingPanel() {
+  const { backing, isLoading } = useBacking()
+
+  return (
+    <Card>
+      <h2 className="text-lg font-semibold mb-4">Backing</h2>
+
+      {backing.length === 0 ? (
+        <div className="text-center py-6 text-white/40">{isLoading ? 'Checking backing...' : 'No markets yet'}</div>
+      ) : (
+        <div className="space-y-3">
+          {backing.map((token) => (
+            <div key={token.ovfl.address} className="bg-ovfl-800/30 rounded-xl p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{token.ovfl.symbol}</span>
+                <BackingBadge backing={token} />
+              </div>
+
+              <div className="grid grid-cols-3 gap-3 text-sm">
+                <div>
+                  <div className="text-xs text-white/40">Supply</div>
+                  <div>{formatAmount(token.supply, token.ovfl.decimals)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-white/40">PT held</div>
+                  <div>{formatAmount(token.ptBalance, token.ovfl.decimals)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-white/40">Deficit</div>
+                  <div className={token.deficit > 0n ? 'text-red-400' : 'text-white/60'}>
+                    {formatAmount(token.deficit, token.ovfl.decimals)}
+                  </div>
+                </div>
+              </div>
+
+              <div className="border-t border-white/10 pt-3 space-y-2 text-xs">
+                {token.series.map((s) => (
+                  <div key={s.market.address} className="flex items-center justify-between">
+                    <span className="text-white/50">{s.market.name}</span>
+                    {s.deficit > 0n ? (
+                      <span className="text-red-400">Short {formatTokenAmount(s.deficit, s.market.pt)}</span>
+                    ) : (
+                      <span className="text-white/60">
+                        {s.excess > 0n ? `Sweepable ${formatTokenAmount(s.excess, s.market.pt)}` : 'Exact'}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,38 @@
+interface BarChartPoint {
+  label: string
+  value: number
+  // Shown on hover, e.g. the formatted amount
+  title: string
+}
+
+interface BarChartProps {
+  points: BarChartPoint[]
+  emptyText?: string
+}
+
+export default function BarChart({ points, emptyText = 'No activity yet' }: BarChartProps) {
+  const max = Math.max(0, ...points.map((point) => point.value))
+
+  if (points.length === 0 || max === 0) {
+    return <div className="h-32 flex items-center justify-center text-sm text-white/40">{emptyText}</div>
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="h-32 flex items-end gap-px">
+        {points.map((point) => (
+          <div key={point.label} className="flex-1 h-full flex items-end" title={`${point.label}: ${point.title}`}>
+            <div
+              className="w-full rounded-t-sm bg-gradient-to-t from-accent-dark to-accent hover:opacity-80 transition-opacity"
+              style={{ height: `${(point.value / max) * 100}%`, minHeight: point.value > 0 ? 2 : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-white/40">
+        <span>{points[0].label}</span>
+        <span>{points[points.length - 1].label}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+import { motion } from 'framer-motion'
+import { Capacity } from '../hooks/useCapacity'
+import { Market } from '../hooks/useMarkets'
+import { formatAmount } from '../lib/amount'
+
+interface CapacityBarProps {
+  capacity: Capacity
+  market: Market
+}
+
+export default function CapacityBar({ capacity, market }: CapacityBarProps) {
+  const { decimals } = market.pt
+
+  if (capacity.remaining === null) {
+    return (
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-white/40">Deposited</span>
+        <span className="text-white/60">
+          {formatAmount(capacity.deposited, decimals)} {market.pt.symbol} • No limit
+        </span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-white/40">Capacity</span>
+        <span className={capacity.isFull ? 'text-red-400' : capacity.isNearCap ? 'text-yellow-400' : 'text-white/60'}>
+          {formatAmount(capacity.deposited, decimals)} / {formatAmount(capacity.limit, decimals)} {market.pt.symbol}
+        </span>
+      </div>
+      <div className="h-2 bg-ovfl-900 rounded-full overflow-hidden">
+        <motion.div
+          initial={{ width: 0 }}
+          animate={{ width: `${Math.min(capacity.usedBps / 100, 100)}%` }}
+          transition={{ duration: 0.5, ease: 'easeOut' }}
+          className={`h-full rounded-full ${
+            capacity.isFull
+              ? 'bg-red-500'
+              : capacity.isNearCap
+                ? 'bg-yellow-400'
+                : 'bg-gradient-to-r from-accent to-accent-dark'
+          }`}
+        />
+      </div>
+      <div className="text-xs text-white/40">
+        {capacity.isFull
+          ? 'This market is full'
+          : `${formatAmount(capacity.remaining, decimals)} ${market.pt.symbol} remaining`}
+      </div>
+    </div>
+  )
+}
@@ -2,43 +2,64 @@ import { useState, useEffect } from 'react'
 import { useAccount } from 'wagmi'
 import { motion } from 'framer-motion'
 import ActionButton from './ActionButton'
+import ErrorMessage from './ErrorMessage'
+import BackingBadge from './BackingBadge'
+import SlippageSettings from './SlippageSettings'
 import { useClaim } from '../hooks/useClaim'
-import { EXAMPLE_MARKETS } from '../wagmi'
-
-type Market = typeof EXAMPLE_MARKETS[number]
+import { useClaimRedeem } from '../hooks/useClaimRedeem'
+import { useRedeemQuote } from '../hooks/useRedeemQuote'
+import { useSlippage } from '../hooks/useSlippage'
+import { useMarkets, Market } from '../hooks/useMarkets'
+import { useBalances } from '../hooks/useBalances'
+import { useBacking } from '../hooks/useBacking'
+import { useNow } from '../hooks/useNow'
+import { formatAmount, formatTokenAmount, isAmountInput, parseAmount } from '../lib/amount'
 
 export default function ClaimTab() {
   const { address } = useAccount()
   const [selectedMarket, setSelectedMarket] = useState<Market | null>(null)
   const [amount, setAmount] = useState('')
+  // Optionally carry on from PT to the underlying through Pendle
+  const [redeem, setRedeem] = useState(false)
+  const { markets, isLoading: marketsLoading } = useMarkets()
+  const now = useNow()
+
+  const balances = useBalances(selectedMarket)
+  const symbol = selectedMarket?.ovfl.symbol || 'ovflETH'
 
-  // Mock balances - in production, fetch from chain
-  const ovflBalance = '10.5'
-  const symbol = selectedMarket?.name.replace('PT-', '') || 'ETH'
+  const { claim, isLoading, isSuccess, error } = useClaim()
+  const { backing } = useBacking()
+  const tokenBacking = backing.find((b) => b.ovfl.address === selectedMarket?.ovfl.address)
 
-  const { claim, isLoading, isSuccess } = useClaim()
+  const claimAmount = selectedMarket ? parseAmount(amount, selectedMarket.ovfl.decimals) : null
 
   // Check if market is matured
   const isMatured = selectedMarket 
-    ? Date.now() / 1000 >= selectedMarket.expiry 
+    ? now >= selectedMarket.expiry 
     : false
 
+  const { slippageBps, setSlippageBps, applySlippage } = useSlippage()
+  const redeemAmount = redeem && isMatured ? claimAmount : null
+  const { amountOut, isLoading: quoteLoading, error: quoteError } = useRedeemQuote(selectedMarket, redeemAmount)
+  const minTokenOut = amountOut !== undefined ? applySlippage(amountOut) : undefined
+  const claimRedeem = useClaimRedeem(selectedMarket, redeemAmount, minTokenOut)
+
   // Reset on success
   useEffect(() => {
-    if (isSuccess) {
+    if (isSuccess || claimRedeem.isSuccess) {
       setAmount('')
     }
-  }, [isSuccess])
+  }, [isSuccess, claimRedeem.isSuccess])
 
   const handleMax = () => {
-    setAmount(ovflBalance)
+    if (balances.ovfl) setAmount(balances.ovfl.formatted)
   }
 
   const handleClaim = () => {
-    if (!selectedMarket || !amount) return
+    if (!selectedMarket || !claimAmount) return
     claim({
-      ptToken: selectedMarket.ptToken as `0x${string}`,
-      amount,
+      market: selectedMarket,
+      amount: claimAmount,
     })
   }
 
@@ -50,7 +71,10 @@ export default function ClaimTab() {
     })
   }
 
-  const isDisabled = !selectedMarket || !amount || parseFloat(amount) <= 0 || !isMatured
+  const exceedsBalance = !!balances.ovfl && !!claimAmount && claimAmount > balances.ovfl.value
+  const hasAmount = !!claimAmount && claimAmount > 0n
+
+  const isDisabled = !selectedMarket || !hasAmount || !isMatured || exceedsBalance || (redeem && !claimRedeem.isReady)
 
   return (
     <div className="space-y-6">
@@ -58,8 +82,13 @@ export default function ClaimTab() {
       <div className="space-y-2">
         <label className="text-sm text-white/50">Select Market to Claim</label>
         <div className="grid gap-2">
-          {EXAMPLE_MARKETS.map((market) => {
-            const matured = Date.now() / 1000 >= market.expiry
+          {markets.length === 0 && (
+            <div className="p-4 rounded-xl bg-ovfl-800/30 border border-white/5 text-sm text-white/40">
+              {marketsLoading ? 'Loading markets...' : 'No markets available'}
+            </div>
+          )}
+          {markets.map((market) => {
+            const matured = now >= market.expiry
             return (
               <button
                 key={market.address}
@@ -115,21 +144,28 @@ export default function ClaimTab() {
           
           <div className="relative">
             <input
-              type="number"
+              type="text"
+              inputMode="decimal"
               value={amount}
-              onChange={(e) => setAmount(e.target.value)}
+              onChange={(e) => {
+                if (isAmountInput(e.target.value, selectedMarket.ovfl.decimals)) setAmount(e.target.value)
+              }}
               placeholder="0.0"
-              className="glass-input pr-28 text-xl font-medium"
+              className={`glass-input pr-28 text-xl font-medium ${exceedsBalance ? 'border-red-500/50' : ''}`}
             />
             <div className="absolute right-4 top-1/2 -translate-y-1/2">
-              <span className="text-white/60 text-sm font-medium">ovfl{symbol}</span>
+              <span className="text-white/60 text-sm font-medium">{symbol}</span>
             </div>
           </div>
 
           <div className="flex items-center justify-between text-sm">
             <span className="text-white/40">Balance:</span>
-            <span className="text-white/60">{ovflBalance} ovfl{symbol}</span>
+            <span className="text-white/60">{balances.ovfl ? formatAmount(balances.ovfl.value, balances.ovfl.decimals) : '0'} {symbol}</span>
           </div>
+
+          {exceedsBalance && (
+            <p className="text-sm text-red-400">Insufficient {symbol} balance</p>
+          )}
         </motion.div>
       )}
 
@@ -151,25 +187,85 @@ export default function ClaimTab() {
       )}
 
       {/* Receive Preview */}
-      {selectedMarket && amount && parseFloat(amount) > 0 && isMatured && (
-        <div className="bg-ovfl-800/30 rounded-xl p-4">
-          <div className="flex items-center justify-between">
-            <span className="text-white/50">You Receive</span>
-            <span className="text-accent font-medium">{amount} {selectedMarket.name}</span>
+      {selectedMarket && hasAmount && isMatured && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <label className="flex items-center gap-2 text-white/50 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={redeem}
+                onChange={(e) => setRedeem(e.target.checked)}
+                className="accent-accent"
+              />
+              Redeem to {selectedMarket.underlying.symbol}
+            </label>
+            {redeem && <SlippageSettings slippageBps={slippageBps} onChange={setSlippageBps} />}
+          </div>
+
+          <div className="bg-ovfl-800/30 rounded-xl p-4">
+            <div className="flex items-center justify-between">
+              <span className="text-white/50">You Receive</span>
+              <span className="text-accent font-medium">
+                {!redeem
+                  ? formatTokenAmount(claimAmount, selectedMarket.pt)
+                  : quoteLoading || amountOut === undefined
+                    ? '...'
+                    : formatTokenAmount(amountOut, selectedMarket.underlying)}
+              </span>
+            </div>
+            {redeem && minTokenOut !== undefined && (
+              <div className="flex items-center justify-between mt-2 text-sm">
+                <span className="text-white/50">Minimum</span>
+                <div className="text-right">
+                  <span>{formatTokenAmount(minTokenOut, selectedMarket.underlying)}</span>
+                  <div className="text-xs text-white/40">with {(slippageBps / 100).toFixed(2)}% slippage</div>
+                </div>
+              </div>
+            )}
+            <p className="text-xs text-white/40 mt-2">
+              {redeem
+                ? `Burn ${symbol} 1:1 for PT, then redeem the PT through Pendle for ${selectedMarket.underlying.symbol}.`
+                : `Burn ${symbol} 1:1 to receive PT tokens, or redeem them for ${selectedMarket.underlying.symbol} in the same flow.`}
+            </p>
+            {tokenBacking && (
+              <div className="flex items-center justify-between mt-3">
+                <span className="text-xs text-white/40">{symbol} backing</span>
+                <BackingBadge backing={tokenBacking} />
+              </div>
+            )}
           </div>
-          <p className="text-xs text-white/40 mt-2">
-            Burn ovfl{symbol} 1:1 to receive PT tokens, then redeem on Pendle for underlying.
-          </p>
         </div>
       )}
 
-      <ActionButton
-        label={isMatured ? 'Claim' : 'Not Yet Matured'}
-        onClick={handleClaim}
-        disabled={isDisabled}
-        isLoading={isLoading}
-        loadingText="Claiming..."
-      />
+      <ErrorMessage error={redeem ? claimRedeem.error ?? (hasAmount && quoteError) : error} />
+
+      {redeem && isMatured ? (
+        <ActionButton
+          label="Claim and redeem"
+          onClick={claimRedeem.claimAndRedeem}
+          disabled={isDisabled}
+          isLoading={claimRedeem.isLoading}
+          loadingText={claimRedeem.canBatch ? 'Claiming...' : `${claimRedeem.steps[claimRedeem.currentStep] ?? 'Claiming'}...`}
+          steps={hasAmount && claimRedeem.steps.length > 0 ? claimRedeem.steps : undefined}
+          currentStep={claimRedeem.currentStep}
+        />
+      ) : (
+        <ActionButton
+          label={isMatured ? 'Claim' : 'Not Yet Matured'}
+          onClick={handleClaim}
+          disabled={isDisabled}
+          isLoading={isLoading}
+          loadingText="Claiming..."
+        />
+      )}
+
+      {redeem && hasAmount && isMatured && claimRedeem.steps.length > 1 && (
+        <p className="text-center text-xs text-white/40">
+          {claimRedeem.canBatch
+            ? `Your wallet runs all ${claimRedeem.steps.length} steps in a single batch`
+            : `${claimRedeem.steps.length} transactions, each sent once the previous one confirms`}
+        </p>
+      )}
 
       {!address && (
         <p className="text-center text-sm text-white/40">
@@ -1,30 +1,48 @@
 import { useState, useEffect } from 'react'
 import { useAccount } from 'wagmi'
+import { formatUnits } from 'viem'
 import MarketSelect from './MarketSelect'
 import AmountInput from './AmountInput'
 import Preview from './Preview'
 import ActionButton from './ActionButton'
+import ErrorMessage from './ErrorMessage'
+import SlippageSettings from './SlippageSettings'
+import CapacityBar from './CapacityBar'
+import ZapDeposit from './ZapDeposit'
 import { usePreview } from '../hooks/usePreview'
 import { useDeposit } from '../hooks/useDeposit'
-import { EXAMPLE_MARKETS } from '../wagmi'
+import { Market } from '../hooks/useMarkets'
+import { useApprovals, ApprovalMode } from '../hooks/useApprovals'
+import { useBalances } from '../hooks/useBalances'
+import { useSlippage } from '../hooks/useSlippage'
+import { useCapacity } from '../hooks/useCapacity'
+import { formatAmount, formatTokenAmount, parseAmount } from '../lib/amount'
 
-type Market = typeof EXAMPLE_MARKETS[number]
+const STEPS = ['Approve PT', 'Approve fee token', 'Deposit']
+
+// Deposit PT already in the wallet, or buy it first from the underlying
+type DepositMode = 'pt' | 'underlying'
 
 export default function DepositTab() {
   const { address } = useAccount()
   const [selectedMarket, setSelectedMarket] = useState<Market | null>(null)
+  const [mode, setMode] = useState<DepositMode>('pt')
   const [amount, setAmount] = useState('')
-  
-  // Mock balance - in production, fetch from chain
-  const balance = '12.5'
-  const symbol = selectedMarket?.name.replace('PT-', '') || 'ETH'
-
-  const { preview, isLoading: previewLoading } = usePreview(
-    selectedMarket?.address,
-    amount
-  )
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>('exact')
+  const balances = useBalances(selectedMarket)
+  const { slippageBps, setSlippageBps, applySlippage } = useSlippage()
+  const { capacities, minPtAmount } = useCapacity(selectedMarket ? [selectedMarket] : [])
+  const capacity = selectedMarket ? capacities[selectedMarket.address] : undefined
+
+  const ptAmount = selectedMarket ? parseAmount(amount, selectedMarket.pt.decimals) : null
+
+  const { preview, isLoading: previewLoading, error: previewError } = usePreview(selectedMarket, ptAmount)
+
+  const { deposit, isLoading: depositLoading, isSuccess, error: depositError } = useDeposit()
+
+  const minToUser = preview ? applySlippage(preview.toUser) : undefined
 
-  const { deposit, isLoading: depositLoading, isSuccess } = useDeposit()
+  const approvals = useApprovals(selectedMarket, ptAmount ?? 0n, preview?.feeAmount ?? 0n)
 
   // Reset amount on success
   useEffect(() => {
@@ -33,16 +51,24 @@ export default function DepositTab() {
     }
   }, [isSuccess])
 
+  // MAX is the wallet balance, clamped to what the market can still take
   const handleMax = () => {
-    setAmount(balance)
+    if (!balances.pt || !selectedMarket) return
+    const remaining = capacity?.remaining
+    if (remaining != null && remaining < balances.pt.value) {
+      setAmount(formatUnits(remaining, selectedMarket.pt.decimals))
+    } else {
+      setAmount(balances.pt.formatted)
+    }
   }
 
   const handleDeposit = () => {
-    if (!selectedMarket || !amount || !preview) return
+    if (!selectedMarket || !ptAmount || minToUser === undefined) return
     deposit({
-      market: selectedMarket.address as `0x${string}`,
-      ptAmount: amount,
-      minToUser: preview.toUser,
+      market: selectedMarket,
+      ptAmount,
+      minToUser,
+      permits: approvals.permits,
     })
   }
 
@@ -53,7 +79,36 @@ export default function DepositTab() {
     })
   }
 
-  const isDisabled = !selectedMarket || !amount || parseFloat(amount) <= 0
+  const hasAmount = !!selectedMarket && !!ptAmount && ptAmount > 0n
+  const fee = preview?.feeAmount ?? 0n
+
+  const getAmountError = () => {
+    if (!hasAmount) return undefined
+    const { pt, underlying } = selectedMarket
+    if (balances.pt && ptAmount > balances.pt.value) return `Insufficient ${pt.symbol} balance`
+    if (minPtAmount !== undefined && ptAmount < minPtAmount) {
+      return `Minimum deposit is ${formatTokenAmount(minPtAmount, pt)}`
+    }
+    if (capacity?.remaining != null && ptAmount > capacity.remaining) {
+      return capacity.isFull
+        ? 'This market is full'
+        : `Only ${formatTokenAmount(capacity.remaining, pt)} left in this market`
+    }
+    if (balances.underlying && fee > balances.underlying.value) {
+      return `Insufficient ${underlying.symbol} to pay the fee`
+    }
+  }
+  const amountError = getAmountError()
+
+  const isDisabled = !hasAmount || !!amountError
+
+  const action =
+    hasAmount && approvals.step === 'approve-pt'
+      ? { label: `Approve ${selectedMarket.pt.symbol}`, step: 0 }
+      : hasAmount && approvals.step === 'approve-fee'
+        ? { label: `Approve ${selectedMarket.underlying.symbol} for fee`, step: 1 }
+        : { label: 'Deposit', step: 2 }
+  const isApproving = action.step < 2
 
   return (
     <div className="space-y-6">
@@ -62,38 +117,110 @@ export default function DepositTab() {
         onSelect={setSelectedMarket}
       />
 
-      <AmountInput
-        value={amount}
-        onChange={setAmount}
-        balance={balance}
-        symbol={selectedMarket?.name || 'PT'}
-        onMax={handleMax}
-      />
+      {selectedMarket && capacity && <CapacityBar capacity={capacity} market={selectedMarket} />}
+
+      {selectedMarket && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-white/50">Deposit from</span>
+          <div className="inline-flex bg-ovfl-800/50 rounded-lg p-1 gap-1">
+            {(['pt', 'underlying'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                  mode === option ? 'bg-accent/20 text-white' : 'text-white/50 hover:text-white/70'
+                }`}
+              >
+                {option === 'pt' ? 'PT' : 'Underlying'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
 
-      {selectedMarket && amount && parseFloat(amount) > 0 && (
-        <Preview
-          toUser={preview?.toUser || '0'}
-          toStream={preview?.toStream || '0'}
-          fee={preview?.fee || '0'}
-          rate={preview?.rate || '0'}
-          symbol={`ovfl${symbol}`}
+      {selectedMarket && mode === 'underlying' ? (
+        <ZapDeposit
+          market={selectedMarket}
           expiry={formatExpiry(selectedMarket.expiry)}
-          isLoading={previewLoading}
+          capacity={capacity}
+          minPtAmount={minPtAmount}
         />
-      )}
+      ) : (
+        <>
+          <AmountInput
+            value={amount}
+            onChange={setAmount}
+            balance={balances.pt ? formatAmount(balances.pt.value, balances.pt.decimals) : '0'}
+            symbol={selectedMarket?.name || 'PT'}
+            decimals={selectedMarket?.pt.decimals}
+            onMax={handleMax}
+            error={amountError}
+          />
 
-      <ActionButton
-        label="Deposit"
-        onClick={handleDeposit}
-        disabled={isDisabled}
-        isLoading={depositLoading}
-        loadingText="Depositing..."
-      />
+          {hasAmount && (
+            <div className="space-y-2">
+              <div className="flex justify-end">
+                <SlippageSettings slippageBps={slippageBps} onChange={setSlippageBps} />
+              </div>
+              <Preview
+                preview={preview}
+                market={selectedMarket}
+                expiry={formatExpiry(selectedMarket.expiry)}
+                minToUser={minToUser}
+                slippageBps={slippageBps}
+                isLoading={previewLoading}
+              />
+            </div>
+          )}
+
+          {hasAmount && isApproving && (
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-white/50">Approval</span>
+              <div className="flex items-center gap-3">
+                {approvals.canPermit && (
+                  <button
+                    onClick={() => approvals.permit(approvalMode)}
+                    disabled={approvals.isLoading}
+                    className="text-xs text-accent hover:text-accent-light transition-colors disabled:opacity-50"
+                  >
+                    Sign permit instead
+                  </button>
+                )}
+                <div className="inline-flex bg-ovfl-800/50 rounded-lg p-1 gap-1">
+                  {(['exact', 'unlimited'] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setApprovalMode(option)}
+                      className={`px-3 py-1 rounded-md text-xs font-medium capitalize transition-colors ${
+                        approvalMode === option ? 'bg-accent/20 text-white' : 'text-white/50 hover:text-white/70'
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <ErrorMessage error={isApproving ? approvals.error : depositError ?? (hasAmount && previewError)} />
+
+          <ActionButton
+            label={action.label}
+            onClick={isApproving ? () => approvals.approve(approvalMode) : handleDeposit}
+            disabled={isDisabled || (!isApproving && minToUser === undefined)}
+            isLoading={isApproving ? approvals.isLoading : depositLoading}
+            loadingText={isApproving ? 'Approving...' : 'Depositing...'}
+            steps={hasAmount ? STEPS : undefined}
+            currentStep={action.step}
+          />
 
-      {!address && (
-        <p className="text-center text-sm text-white/40">
-          Connect your wallet to deposit PT tokens
-        </p>
+          {!address && (
+            <p className="text-center text-sm text-white/40">
+              Connect your wallet to deposit PT tokens
+            </p>
+          )}
+        </>
       )}
     </div>
   )
@@ -0,0 +1,35 @@
+import { motion } from 'framer-motion'
+import { toUserError } from '../lib/errors'
+
+interface ErrorMessageProps {
+  error: unknown
+}
+
+export default function ErrorMessage({ error }: ErrorMessageProps) {
+  if (!error) return null
+
+  const { title, message, fix } = toUserError(error)
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-red-500/10 border border-red-500/20 rounded-xl p-4"
+    >
+      <div className="flex items-start gap-3">
+        <svg className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+          <path
+            fillRule="evenodd"
+            d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z"
+            clipRule="evenodd"
+          />
+        </svg>
+        <div>
+          <div className="font-medium text-red-400">{title}</div>
+          <div className="text-sm text-red-400/70 mt-1">{message}</div>
+          {fix && <div className="text-sm text-red-400/70 mt-1">{fix}</div>}
+        </div>
+      </div>
+    </motion.div>
+  )
+}
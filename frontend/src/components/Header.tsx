@@ -1,11 +1,16 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit'
+import { useIsAdmin } from '../hooks/useAdmin'
+import { useRoute } from '../hooks/useRoute'
 
 export default function Header() {
+  const { isAdmin } = useIsAdmin()
+  const { route, navigate } = useRoute()
+
   return (
     <header className="w-full px-4 py-4 md:px-8">
       <div className="max-w-6xl mx-auto flex items-center justify-between">
         {/* Logo */}
-        <div className="flex items-center gap-3">
+        <button onClick={() => navigate('/')} className="flex items-center gap-3 text-left">
           <div className="relative">
             <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-accent to-accent-dark flex items-center justify-center">
               <span className="text-ovfl-900 font-bold text-lg">O</span>
@@ -16,17 +21,37 @@ export default function Header() {
             <h1 className="text-xl font-bold text-white">OVFL</h1>
             <p className="text-xs text-white/50 hidden sm:block">Unlock PT yield early</p>
           </div>
-        </div>
+        </button>
 
-        {/* Connect Button */}
-        <ConnectButton 
-          chainStatus="icon"
-          showBalance={false}
-          accountStatus={{
-            smallScreen: 'avatar',
-            largeScreen: 'full',
-          }}
-        />
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate(route === '/analytics' ? '/' : '/analytics')}
+            className={`btn-secondary text-sm ${route === '/analytics' ? 'border-accent/30 text-white' : ''}`}
+          >
+            Analytics
+          </button>
+          {isAdmin && (
+            <button
+              onClick={() => navigate(route === '/admin' ? '/' : '/admin')}
+              className={`btn-secondary text-sm ${route === '/admin' ? 'border-accent/30 text-white' : ''}`}
+            >
+              Admin
+            </button>
+          )}
+
+          {/* Connect Button */}
+          <ConnectButton 
+            chainStatus={{
+              smallScreen: 'icon',
+              largeScreen: 'full',
+            }}
+            showBalance={false}
+            accountStatus={{
+              smallScreen: 'avatar',
+              largeScreen: 'full',
+            }}
+          />
+        </div>
       </div>
     </header>
   )
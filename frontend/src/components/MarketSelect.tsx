@@ -1,14 +1,7 @@
 import { useState, useRef, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { EXAMPLE_MARKETS } from '../wagmi'
-
-interface Market {
-  address: string
-  name: string
-  underlying: string
-  expiry: number
-  ptToken: string
-}
+import { useMarkets, Market } from '../hooks/useMarkets'
+import { useCapacity } from '../hooks/useCapacity'
 
 interface MarketSelectProps {
   selectedMarket: Market | null
@@ -17,6 +10,8 @@ interface MarketSelectProps {
 
 export default function MarketSelect({ selectedMarket, onSelect }: MarketSelectProps) {
   const [isOpen, setIsOpen] = useState(false)
+  const { markets, isLoading } = useMarkets()
+  const { capacities } = useCapacity(markets)
   const dropdownRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -79,7 +74,12 @@ export default function MarketSelect({ selectedMarket, onSelect }: MarketSelectP
               transition={{ duration: 0.15 }}
               className="absolute z-50 w-full mt-2 py-2 glass-card"
             >
-              {EXAMPLE_MARKETS.map((market) => (
+              {markets.length === 0 && (
+                <div className="px-4 py-3 text-sm text-white/40">
+                  {isLoading ? 'Loading markets...' : 'No markets available'}
+                </div>
+              )}
+              {markets.map((market) => (
                 <button
                   key={market.address}
                   onClick={() => {
@@ -93,12 +93,21 @@ export default function MarketSelect({ selectedMarket, onSelect }: MarketSelectP
                   <div className="w-8 h-8 rounded-lg bg-accent/20 flex items-center justify-center">
                     <span className="text-accent text-sm font-semibold">PT</span>
                   </div>
-                  <div className="text-left">
+                  <div className="text-left flex-1">
                     <div className="font-medium">{market.name}</div>
                     <div className="text-xs text-white/50">
                       Expires {formatExpiry(market.expiry)}
                     </div>
                   </div>
+                  {capacities[market.address]?.isFull ? (
+                    <span className="px-2 py-1 rounded-md text-xs font-medium bg-red-500/20 text-red-400">
+                      Full
+                    </span>
+                  ) : capacities[market.address]?.isNearCap ? (
+                    <span className="px-2 py-1 rounded-md text-xs font-medium bg-yellow-500/20 text-yellow-400">
+                      Near cap
+                    </span>
+                  ) : null}
                   {selectedMarket?.address === market.address && (
                     <svg className="w-5 h-5 text-accent ml-auto" fill="currentColor" viewBox="0 0 20 20">
                       <path
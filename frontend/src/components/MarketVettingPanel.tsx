@@ -0,0 +1,90 @@
+import { MarketVetting } from '../lib/vetting'
+import { toUserError } from '../lib/errors'
+
+interface MarketVettingPanelProps {
+  vetting: MarketVetting | undefined
+  underlying: string
+  isLoading: boolean
+  error: unknown
+}
+
+const formatExpiry = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+
+function Row({ label, value, ok }: { label: string; value: string; ok?: boolean }) {
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-white/50">{label}</span>
+      <span className={ok === undefined ? 'text-white/70' : ok ? 'text-green-400' : 'text-yellow-400'}>
+        {value}
+      </span>
+    </div>
+  )
+}
+
+export default function MarketVettingPanel({ vetting, underlying, isLoading, error }: MarketVettingPanelProps) {
+  if (isLoading) {
+    return <div className="bg-ovfl-800/30 rounded-xl p-4 text-sm text-white/40">Checking market...</div>
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 text-sm text-red-400">
+        Could not read this market from Pendle: {toUserError(error).message}
+      </div>
+    )
+  }
+
+  if (!vetting) return null
+
+  const underlyingMatches = vetting.syUnderlying.address.toLowerCase() === underlying.toLowerCase()
+  const twapMinutes = vetting.twapDuration / 60
+
+  return (
+    <div className="bg-ovfl-800/30 rounded-xl p-4 space-y-2 text-sm">
+      <Row
+        label="PT expiry"
+        value={vetting.isExpired ? `Expired ${formatExpiry(vetting.expiry)}` : formatExpiry(vetting.expiry)}
+        ok={!vetting.isExpired}
+      />
+      <Row
+        label="SY underlying"
+        value={vetting.syUnderlying.symbol}
+        ok={underlying ? underlyingMatches : undefined}
+      />
+      <Row
+        label="Oracle cardinality"
+        value={vetting.increaseCardinalityRequired ? `Needs ${vetting.cardinalityRequired}` : 'Sufficient'}
+        ok={!vetting.increaseCardinalityRequired}
+      />
+      <Row
+        label={`Observations cover ${twapMinutes} min`}
+        value={vetting.oldestObservationSatisfied ? 'Yes' : 'Not yet'}
+        ok={vetting.oldestObservationSatisfied}
+      />
+
+      <div className="border-t border-white/10 pt-2 text-xs text-white/40 space-y-1">
+        {vetting.isExpired && <p className="text-red-400">This market has expired and cannot take deposits.</p>}
+        {underlying && !underlyingMatches && (
+          <p className="text-yellow-400">
+            The SY wraps {vetting.syUnderlying.symbol} ({vetting.syUnderlying.address}), not the underlying entered above.
+          </p>
+        )}
+        {vetting.increaseCardinalityRequired && (
+          <p>
+            Queueing grows the cardinality to {vetting.cardinalityRequired}; the oracle then needs {twapMinutes} minutes
+            of observations before execution.
+          </p>
+        )}
+        {!vetting.increaseCardinalityRequired && !vetting.oldestObservationSatisfied && (
+          <p>The oracle does not yet have {twapMinutes} minutes of history. Execution will revert until it does.</p>
+        )}
+        {vetting.oracleReady && !vetting.isExpired && <p className="text-green-400">Oracle is ready for this TWAP.</p>}
+      </div>
+    </div>
+  )
+}
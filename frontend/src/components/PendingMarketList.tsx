@@ -0,0 +1,112 @@
+import { useState } from 'react'
+import Card from './Card'
+import ErrorMessage from './ErrorMessage'
+import { useAdminAction, usePendingMarkets } from '../hooks/useAdmin'
+import { useNow } from '../hooks/useNow'
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const formatCountdown = (seconds: number) => {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = seconds % 60
+  return `${h}h ${m.toString().padStart(2, '0')}m ${s.toString().padStart(2, '0')}s`
+}
+
+export default function PendingMarketList() {
+  const { pendingMarkets, isLoading } = usePendingMarkets()
+  const executeAction = useAdminAction('Execute market')
+  const cancelAction = useAdminAction('Cancel market')
+  const [activeMarket, setActiveMarket] = useState<string | null>(null)
+
+  // Ticks every second so countdowns and the Execute gate follow the clock
+  const now = useNow()
+
+  const handleExecute = async (market: `0x${string}`) => {
+    setActiveMarket(market)
+    await executeAction.execute({ functionName: 'executeAddMarket', args: [market] })
+    setActiveMarket(null)
+  }
+
+  const handleCancel = async (market: `0x${string}`) => {
+    setActiveMarket(market)
+    await cancelAction.execute({ functionName: 'cancelPendingMarket', args: [market] })
+    setActiveMarket(null)
+  }
+
+  const isBusy = executeAction.isLoading || cancelAction.isLoading
+
+  return (
+    <Card>
+      <h2 className="text-lg font-semibold mb-4">Pending Markets</h2>
+
+      {pendingMarkets.length === 0 ? (
+        <div className="text-center py-6 text-white/40">
+          {isLoading ? 'Loading pending markets...' : 'No markets queued'}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {pendingMarkets.map((pending) => {
+            const remaining = pending.eta - now
+            const ready = remaining <= 0
+            const active = activeMarket === pending.market
+
+            return (
+              <div key={pending.market} className="bg-ovfl-800/30 rounded-xl p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-mono text-sm" title={pending.market}>
+                    {shortAddress(pending.market)}
+                  </span>
+                  <span className={`px-2 py-1 rounded-md text-xs font-medium ${
+                    ready ? 'bg-green-500/20 text-green-400' : 'bg-yellow-500/20 text-yellow-400'
+                  }`}>
+                    {ready ? 'Ready' : formatCountdown(remaining)}
+                  </span>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2 text-xs">
+                  <div>
+                    <div className="text-white/40">Underlying</div>
+                    <div className="font-mono text-white/70" title={pending.underlying}>
+                      {shortAddress(pending.underlying)}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-white/40">TWAP</div>
+                    <div className="text-white/70">{pending.twapDuration / 60} min</div>
+                  </div>
+                  <div>
+                    <div className="text-white/40">Fee</div>
+                    <div className="text-white/70">{(pending.feeBps / 100).toFixed(2)}%</div>
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleExecute(pending.market)}
+                    disabled={!ready || isBusy}
+                    className="btn-primary flex-1 py-2 text-sm"
+                  >
+                    {active && executeAction.isLoading ? 'Executing...' : 'Execute'}
+                  </button>
+                  <button
+                    onClick={() => handleCancel(pending.market)}
+                    disabled={isBusy}
+                    className="btn-secondary flex-1 py-2 text-sm"
+                  >
+                    {active && cancelAction.isLoading ? 'Cancelling...' : 'Cancel'}
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="mt-4 space-y-2">
+        <ErrorMessage error={executeAction.error} />
+        <ErrorMessage error={cancelAction.error} />
+      </div>
+    </Card>
+  )
+}
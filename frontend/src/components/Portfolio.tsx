@@ -0,0 +1,139 @@
+import { motion } from 'framer-motion'
+import { usePortfolio } from '../hooks/usePortfolio'
+import { formatAmount, formatTokenAmount } from '../lib/amount'
+
+interface PortfolioProps {
+  // Opens the Claim tab for a matured series
+  onClaim?: () => void
+}
+
+export default function Portfolio({ onClaim }: PortfolioProps) {
+  const { positions, totals, isLoading } = usePortfolio()
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="w-6 h-6 border-2 border-accent/30 border-t-accent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  if (positions.length === 0) {
+    return (
+      <div className="p-4 rounded-xl bg-ovfl-800/30 border border-white/5 text-sm text-white/40 text-center">
+        No OVFL positions yet. Deposit PT to get ovflTokens now and stream the rest until maturity.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Totals per underlying */}
+      <div className="space-y-2">
+        <label className="text-sm text-white/50">Totals</label>
+        {totals.map((total) => (
+          <div key={total.underlying.address} className="bg-ovfl-800/30 rounded-xl p-4 space-y-2 text-sm">
+            <div className="font-medium text-white">{total.underlying.symbol}</div>
+            <div className="flex items-center justify-between">
+              <span className="text-white/40">Balance</span>
+              <span className="text-white/80 font-medium tabular-nums">
+                {formatTokenAmount(total.ovflBalance, total.ovfl)}
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-white/40">Withdrawable</span>
+              <span className="text-white/80 tabular-nums">{formatTokenAmount(total.withdrawable, total.ovfl)}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-white/40">Vesting</span>
+              <span className="text-white/80 tabular-nums">{formatTokenAmount(total.vesting, total.ovfl)}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-white/40">Claimable PT</span>
+              <span className="text-accent font-medium tabular-nums">
+                {formatAmount(total.claimablePt, total.ovfl.decimals)} PT
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* One row per series */}
+      <div className="space-y-2">
+        <label className="text-sm text-white/50">Series</label>
+        {positions.map((position, index) => {
+          const { market } = position
+          return (
+            <motion.div
+              key={market.address}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.1 }}
+              className="p-4 rounded-xl bg-ovfl-800/30 border border-white/5 space-y-3"
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-accent/20 flex items-center justify-center">
+                    <span className="text-accent font-semibold">PT</span>
+                  </div>
+                  <div>
+                    <div className="font-medium">{market.name}</div>
+                    <div className="text-xs text-white/50">
+                      {position.isMatured
+                        ? 'Matured'
+                        : `${position.daysLeft} ${position.daysLeft === 1 ? 'day' : 'days'} to maturity`}
+                    </div>
+                  </div>
+                </div>
+                <div
+                  className={`px-2 py-1 rounded-md text-xs font-medium ${
+                    position.isMatured ? 'bg-green-500/20 text-green-400' : 'bg-yellow-500/20 text-yellow-400'
+                  }`}
+                >
+                  {position.isMatured ? 'Ready' : 'Pending'}
+                </div>
+              </div>
+
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-white/40">{market.ovfl.symbol} balance</span>
+                  <span className="text-white/80 tabular-nums">{formatTokenAmount(position.ovflBalance, market.ovfl)}</span>
+                </div>
+                {position.streams.length > 0 && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-white/40">
+                      {position.streams.length} {position.streams.length === 1 ? 'stream' : 'streams'}, withdrawable
+                    </span>
+                    <span className="text-white/80 tabular-nums">
+                      {formatTokenAmount(position.withdrawable, market.ovfl)}
+                    </span>
+                  </div>
+                )}
+                {position.vesting > 0n && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-white/40">Still vesting</span>
+                    <span className="text-white/80 tabular-nums">{formatTokenAmount(position.vesting, market.ovfl)}</span>
+                  </div>
+                )}
+                {position.isMatured && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-white/40">Claimable</span>
+                    <span className="text-accent font-medium tabular-nums">
+                      {formatTokenAmount(position.claimablePt, market.pt)}
+                    </span>
+                  </div>
+                )}
+              </div>
+
+              {position.isMatured && position.claimablePt > 0n && onClaim && (
+                <button onClick={onClaim} className="w-full btn-secondary text-sm">
+                  Claim PT
+                </button>
+              )}
+            </motion.div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
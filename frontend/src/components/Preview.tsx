@@ -1,23 +1,46 @@
 import { motion } from 'framer-motion'
+import { Market } from '../hooks/useMarkets'
+import { Preview as PreviewData } from '../hooks/usePreview'
+import { useNow } from '../hooks/useNow'
+import { formatRate, formatTokenAmount } from '../lib/amount'
+import { formatApy, quoteYield } from '../lib/yield'
 
 interface PreviewProps {
-  toUser: string
-  toStream: string
-  fee: string
-  rate: string
-  symbol: string
+  preview: PreviewData | null
+  market: Market
   expiry: string
+  minToUser?: bigint
+  slippageBps?: number
   isLoading?: boolean
 }
 
-export default function Preview({ toUser, toStream, fee, rate, symbol, expiry, isLoading }: PreviewProps) {
+export default function Preview({ preview, market, expiry, minToUser, slippageBps, isLoading }: PreviewProps) {
+  const toUser = preview?.toUser ?? 0n
+  const toStream = preview?.toStream ?? 0n
+  const fee = preview?.feeAmount ?? 0n
+  const now = useNow()
+
   const rows = [
-    { label: 'Immediate', value: `${toUser} ${symbol}`, highlight: true },
-    { label: 'Streamed', value: `${toStream} ${symbol}`, subtext: `until ${expiry}` },
-    { label: 'Fee', value: fee === '0' ? 'No fee' : `${fee} ETH` },
-    { label: 'Rate', value: `${rate}%` },
+    { label: 'Immediate', value: formatTokenAmount(toUser, market.ovfl), highlight: true },
+    ...(minToUser !== undefined && slippageBps !== undefined
+      ? [
+          {
+            label: 'Minimum immediate',
+            value: formatTokenAmount(minToUser, market.ovfl),
+            subtext: `with ${(slippageBps / 100).toFixed(2)}% slippage`,
+          },
+        ]
+      : []),
+    { label: 'Streamed', value: formatTokenAmount(toStream, market.ovfl), subtext: `until ${expiry}` },
+    { label: 'Fee', value: fee === 0n ? 'No fee' : formatTokenAmount(fee, market.underlying) },
+    { label: 'Rate', value: `${formatRate(preview?.rateE18 ?? 0n)}%` },
   ]
 
+  const quote = preview
+    ? quoteYield(preview.rateE18, toStream, market.feeBps, market.expiry, now)
+    : null
+  const daysLeft = quote ? Math.ceil(quote.secondsToExpiry / 86_400) : 0
+
   return (
     <div className="space-y-2">
       <label className="text-sm text-white/50">You Receive</label>
@@ -43,6 +66,37 @@ export default function Preview({ toUser, toStream, fee, rate, symbol, expiry, i
           </motion.div>
         ))}
       </div>
+
+      {quote && (
+        <div className="bg-ovfl-800/30 rounded-xl p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-white/50 text-sm">Implied fixed APY</span>
+            <span className="font-medium">{isLoading ? '...' : formatApy(quote.impliedApy)}</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-white/50 text-sm">Effective APY</span>
+            <div className="text-right">
+              <span className="font-medium text-accent">{isLoading ? '...' : formatApy(quote.effectiveApy)}</span>
+              {market.feeBps > 0 && (
+                <div className="text-xs text-white/40">after {(market.feeBps / 100).toFixed(2)}% fee</div>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-white/50 text-sm">Streamed per day</span>
+            <span className="font-medium">{isLoading ? '...' : formatTokenAmount(quote.streamedPerDay, market.ovfl)}</span>
+          </div>
+
+          <div className="border-t border-white/10 pt-3 text-xs text-white/40 space-y-1">
+            <p>
+              Holding the PT earns {formatApy(quote.impliedApy)} but pays nothing for {daysLeft} days. Depositing pays{' '}
+              {formatTokenAmount(toUser, market.ovfl)} now and streams the discount daily
+              {market.feeBps > 0 ? `, costing ${formatApy(quote.feeDragApy)} APY in fees.` : ' at no cost.'}
+            </p>
+            <p>These figures follow the TWAP and update every block.</p>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,100 @@
+import { useState, useRef, useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { SLIPPAGE_PRESETS_BPS, MAX_SLIPPAGE_BPS } from '../hooks/useSlippage'
+
+interface SlippageSettingsProps {
+  slippageBps: number
+  onChange: (bps: number) => void
+}
+
+export default function SlippageSettings({ slippageBps, onChange }: SlippageSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [custom, setCustom] = useState('')
+  const panelRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const isCustom = !SLIPPAGE_PRESETS_BPS.includes(slippageBps)
+
+  const handleCustom = (value: string) => {
+    if (!/^\d*$/.test(value)) return
+    setCustom(value)
+    const bps = Number(value)
+    if (value && bps > 0 && bps <= MAX_SLIPPAGE_BPS) onChange(bps)
+  }
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-xs text-white/50 hover:text-white/70 transition-colors"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
+          />
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+        </svg>
+        {(slippageBps / 100).toFixed(2)}% slippage
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            transition={{ duration: 0.15 }}
+            className="absolute right-0 z-50 mt-2 w-64 p-4 glass-card space-y-3"
+          >
+            <div className="text-sm text-white/70">Slippage tolerance</div>
+            <div className="flex gap-2">
+              {SLIPPAGE_PRESETS_BPS.map((bps) => (
+                <button
+                  key={bps}
+                  onClick={() => {
+                    setCustom('')
+                    onChange(bps)
+                  }}
+                  className={`flex-1 py-1 rounded-md text-xs font-medium transition-colors ${
+                    slippageBps === bps ? 'bg-accent/20 text-white' : 'bg-ovfl-800/50 text-white/50 hover:text-white/70'
+                  }`}
+                >
+                  {(bps / 100).toFixed(bps % 100 === 0 ? 0 : 1)}%
+                </button>
+              ))}
+            </div>
+            <div className="relative">
+              <input
+                type="text"
+                inputMode="numeric"
+                value={custom || (isCustom ? String(slippageBps) : '')}
+                onChange={(e) => handleCustom(e.target.value)}
+                placeholder="Custom"
+                className="glass-input py-2 pr-12 text-sm"
+              />
+              <span className="absolute right-4 top-1/2 -translate-y-1/2 text-xs text-white/40">bps</span>
+            </div>
+            {slippageBps > 300 && (
+              <p className="text-xs text-yellow-400">High tolerance: you may receive much less immediately.</p>
+            )}
+            {slippageBps < 10 && (
+              <p className="text-xs text-yellow-400">Very low tolerance: the deposit may fail if the rate moves.</p>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
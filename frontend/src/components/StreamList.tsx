@@ -1,24 +1,28 @@
 import { motion } from 'framer-motion'
 import { useAccount } from 'wagmi'
 import Card from './Card'
-import { useStreams } from '../hooks/useStreams'
+import { useStreams, Stream } from '../hooks/useStreams'
+import { useWithdrawStream } from '../hooks/useWithdrawStream'
+import { useNow } from '../hooks/useNow'
+import { formatAmount } from '../lib/amount'
+import { withdrawableAt } from '../lib/portfolio'
 
 export default function StreamList() {
   const { isConnected } = useAccount()
   const { streams, isLoading } = useStreams()
+  const { withdraw, withdrawAll, pendingIds, isLoading: isWithdrawing } = useWithdrawStream()
+  // Ticks every second so withdrawable amounts track the stream live
+  const now = useNow()
 
   if (!isConnected) return null
 
-  const activeStreams = streams.filter(
-    (s) => parseFloat(s.withdrawn) < parseFloat(s.amount)
-  )
+  const activeStreams = streams.filter((s) => s.withdrawn < s.deposited)
 
   if (activeStreams.length === 0 && !isLoading) {
     return null
   }
 
   const formatTimeRemaining = (endTime: number) => {
-    const now = Math.floor(Date.now() / 1000)
     const remaining = endTime - now
 
     if (remaining <= 0) return 'Completed'
@@ -30,22 +34,38 @@ export default function StreamList() {
     return `${hours}h remaining`
   }
 
-  const getProgress = (withdrawn: string, total: string) => {
-    return (parseFloat(withdrawn) / parseFloat(total)) * 100
+  const getProgress = (withdrawn: bigint, total: bigint) => {
+    if (total === 0n) return 0
+    return Number((withdrawn * 10_000n) / total) / 100
   }
 
+  const getWithdrawable = (stream: Stream) => withdrawableAt(stream, now)
+
+  const withdrawableStreams = activeStreams.filter((s) => getWithdrawable(s) > 0n)
+
   return (
     <Card>
       <div className="flex items-center justify-between mb-4">
         <h3 className="font-semibold text-white">Your Streams</h3>
-        <a
-          href="https://app.sablier.com"
-          target="_blank"
-          rel="noopener noreferrer"
-          className="text-sm text-accent hover:text-accent-light transition-colors"
-        >
-          View All →
-        </a>
+        <div className="flex items-center gap-4">
+          {withdrawableStreams.length > 1 && (
+            <button
+              onClick={() => withdrawAll(withdrawableStreams.map((s) => s.id))}
+              disabled={isWithdrawing}
+              className="text-sm text-accent hover:text-accent-light transition-colors disabled:opacity-50"
+            >
+              {isWithdrawing && pendingIds.length > 1 ? 'Withdrawing...' : 'Withdraw All'}
+            </button>
+          )}
+          <a
+            href="https://app.sablier.com"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-accent hover:text-accent-light transition-colors"
+          >
+            View All →
+          </a>
+        </div>
       </div>
 
       {isLoading ? (
@@ -56,7 +76,7 @@ export default function StreamList() {
         <div className="space-y-3">
           {activeStreams.map((stream, index) => (
             <motion.div
-              key={stream.id}
+              key={stream.id.toString()}
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: index * 0.1 }}
@@ -80,7 +100,7 @@ export default function StreamList() {
                     </svg>
                   </div>
                   <div>
-                    <div className="font-medium text-sm">Stream #{stream.id}</div>
+                    <div className="font-medium text-sm">Stream #{stream.id.toString()}</div>
                     <div className="text-xs text-white/50">
                       {formatTimeRemaining(stream.endTime)}
                     </div>
@@ -88,9 +108,10 @@ export default function StreamList() {
                 </div>
                 <div className="text-right">
                   <div className="text-sm font-medium text-accent">
-                    {stream.withdrawn}/{stream.amount}
+                    {formatAmount(stream.withdrawn, stream.asset.decimals)}/
+                    {formatAmount(stream.deposited, stream.asset.decimals)}
                   </div>
-                  <div className="text-xs text-white/50">{stream.asset}</div>
+                  <div className="text-xs text-white/50">{stream.asset.symbol}</div>
                 </div>
               </div>
 
@@ -98,16 +119,27 @@ export default function StreamList() {
               <div className="h-2 bg-ovfl-900 rounded-full overflow-hidden">
                 <motion.div
                   initial={{ width: 0 }}
-                  animate={{ width: `${getProgress(stream.withdrawn, stream.amount)}%` }}
+                  animate={{ width: `${getProgress(stream.withdrawn, stream.deposited)}%` }}
                   transition={{ duration: 0.5, ease: 'easeOut' }}
                   className="h-full bg-gradient-to-r from-accent to-accent-dark rounded-full"
                 />
               </div>
 
+              <div className="flex items-center justify-between mt-3 text-sm">
+                <span className="text-white/40">Available</span>
+                <span className="text-white/80 font-medium tabular-nums">
+                  {formatAmount(getWithdrawable(stream), stream.asset.decimals)} {stream.asset.symbol}
+                </span>
+              </div>
+
               {/* Withdraw Button */}
-              {parseFloat(stream.withdrawn) < parseFloat(stream.amount) && (
-                <button className="w-full mt-3 btn-secondary text-sm">
-                  Withdraw Available
+              {stream.withdrawn < stream.deposited && (
+                <button
+                  onClick={() => withdraw(stream.id)}
+                  disabled={isWithdrawing || getWithdrawable(stream) === 0n}
+                  className="w-full mt-3 btn-secondary text-sm disabled:opacity-50"
+                >
+                  {isWithdrawing && pendingIds.includes(stream.id) ? 'Withdrawing...' : 'Withdraw Available'}
                 </button>
               )}
             </motion.div>
@@ -1,15 +1,18 @@
 import { motion } from 'framer-motion'
 
+export type Tab = 'portfolio' | 'deposit' | 'claim'
+
 interface TabToggleProps {
-  activeTab: 'deposit' | 'claim'
-  onTabChange: (tab: 'deposit' | 'claim') => void
+  tabs: readonly Tab[]
+  activeTab: Tab
+  onTabChange: (tab: Tab) => void
 }
 
-export default function TabToggle({ activeTab, onTabChange }: TabToggleProps) {
+export default function TabToggle({ tabs, activeTab, onTabChange }: TabToggleProps) {
   return (
     <div className="flex justify-center mb-6">
       <div className="inline-flex bg-ovfl-800/50 rounded-xl p-1 gap-1">
-        {(['deposit', 'claim'] as const).map((tab) => (
+        {tabs.map((tab) => (
           <button
             key={tab}
             onClick={() => onTabChange(tab)}
@@ -31,4 +34,3 @@ export default function TabToggle({ activeTab, onTabChange }: TabToggleProps) {
     </div>
   )
 }
-
@@ -0,0 +1,78 @@
+import Card from './Card'
+import ErrorMessage from './ErrorMessage'
+import { useMarkets } from '../hooks/useMarkets'
+import { useNow } from '../hooks/useNow'
+import { useTimeTravel } from '../hooks/useTimeTravel'
+
+const STEPS = [
+  { label: '+1 hour', seconds: 3600 },
+  { label: '+1 day', seconds: 86_400 },
+  { label: '+1 week', seconds: 7 * 86_400 },
+  { label: '+30 days', seconds: 30 * 86_400 },
+]
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+// Dev-only controls for the local Anvil node's clock
+export default function TimeTravelPanel() {
+  const now = useNow()
+  const { markets } = useMarkets()
+  const { increaseTime, warpTo, isPending, error } = useTimeTravel()
+
+  const unmatured = markets.filter((market) => market.expiry > now)
+
+  return (
+    <Card>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Time Travel</h2>
+        <span className="px-2 py-1 rounded-md text-xs font-medium bg-yellow-500/20 text-yellow-400">Local node</span>
+      </div>
+
+      <div className="flex justify-between text-sm mb-4">
+        <span className="text-white/50">Chain time</span>
+        <span>{formatTime(now)}</span>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        {STEPS.map((step) => (
+          <button
+            key={step.label}
+            onClick={() => increaseTime(step.seconds)}
+            disabled={isPending}
+            className="btn-secondary py-2 text-sm"
+          >
+            {step.label}
+          </button>
+        ))}
+      </div>
+
+      {unmatured.length > 0 && (
+        <div className="grid gap-2 mt-2">
+          {unmatured.map((market) => (
+            <button
+              key={market.address}
+              onClick={() => warpTo(market.expiry + 1)}
+              disabled={isPending}
+              className="btn-secondary py-2 text-sm"
+            >
+              Past {market.pt.symbol} expiry
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4">
+          <ErrorMessage error={error} />
+        </div>
+      )}
+    </Card>
+  )
+}
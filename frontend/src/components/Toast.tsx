@@ -3,14 +3,20 @@ import { useEffect, useState, createContext, useContext, ReactNode } from 'react
 
 type ToastType = 'success' | 'error' | 'info'
 
+interface ToastLink {
+  href: string
+  label: string
+}
+
 interface Toast {
   id: string
   message: string
   type: ToastType
+  link?: ToastLink
 }
 
 interface ToastContextType {
-  showToast: (message: string, type?: ToastType) => void
+  showToast: (message: string, type?: ToastType, link?: ToastLink) => void
 }
 
 const ToastContext = createContext<ToastContextType | null>(null)
@@ -24,9 +30,9 @@ export function useToast() {
 export function ToastProvider({ children }: { children: ReactNode }) {
   const [toasts, setToasts] = useState<Toast[]>([])
 
-  const showToast = (message: string, type: ToastType = 'info') => {
+  const showToast = (message: string, type: ToastType = 'info', link?: ToastLink) => {
     const id = Math.random().toString(36).slice(2)
-    setToasts((prev) => [...prev, { id, message, type }])
+    setToasts((prev) => [...prev, { id, message, type, link }])
   }
 
   const removeToast = (id: string) => {
@@ -97,7 +103,19 @@ function ToastItem({ toast, onClose }: { toast: Toast; onClose: () => void }) {
       className={`flex items-center gap-3 px-4 py-3 rounded-xl border backdrop-blur-sm ${colors[toast.type]}`}
     >
       {icons[toast.type]}
-      <span className="text-sm font-medium">{toast.message}</span>
+      <div className="flex flex-col">
+        <span className="text-sm font-medium">{toast.message}</span>
+        {toast.link && (
+          <a
+            href={toast.link.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs underline opacity-70 hover:opacity-100 transition-opacity"
+          >
+            {toast.link.label}
+          </a>
+        )}
+      </div>
       <button onClick={onClose} className="ml-2 opacity-60 hover:opacity-100 transition-opacity">
         <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
           <path
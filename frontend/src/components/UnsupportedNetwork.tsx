@@ -0,0 +1,39 @@
+import { useSwitchChain } from 'wagmi'
+import { isDeployed } from '../deployments'
+import { deployments } from '../wagmi'
+import Card from './Card'
+import ErrorMessage from './ErrorMessage'
+
+export default function UnsupportedNetwork() {
+  const { chains, switchChain, isPending, variables, error } = useSwitchChain()
+  // Chains listed ahead of their deployment aren't worth switching to
+  const deployedChains = chains.filter((chain) => isDeployed(deployments[chain.id]))
+
+  return (
+    <Card>
+      <div className="text-center space-y-2 mb-6">
+        <h2 className="text-lg font-semibold">Unsupported network</h2>
+        <p className="text-sm text-white/50">OVFL is not deployed on this network.</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {deployedChains.map((chain) => (
+          <button
+            key={chain.id}
+            onClick={() => switchChain({ chainId: chain.id })}
+            disabled={isPending}
+            className="btn-secondary py-3"
+          >
+            {isPending && variables?.chainId === chain.id ? 'Switching...' : chain.name}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mt-4">
+          <ErrorMessage error={error} />
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,171 @@
+import { useState, useEffect } from 'react'
+import { useAccount } from 'wagmi'
+import AmountInput from './AmountInput'
+import Preview from './Preview'
+import ActionButton from './ActionButton'
+import ErrorMessage from './ErrorMessage'
+import SlippageSettings from './SlippageSettings'
+import { Market } from '../hooks/useMarkets'
+import { Capacity } from '../hooks/useCapacity'
+import { useBalances } from '../hooks/useBalances'
+import { useSlippage } from '../hooks/useSlippage'
+import { useZapQuote, ZapSource } from '../hooks/useZapQuote'
+import { useZap } from '../hooks/useZap'
+import { formatAmount, formatRate, formatTokenAmount, parseAmount } from '../lib/amount'
+import { zapToken } from '../lib/zap'
+
+interface ZapDepositProps {
+  market: Market
+  expiry: string
+  capacity?: Capacity
+  minPtAmount?: bigint
+}
+
+// Deposit starting from the underlying or SY: buys PT through the Pendle router, then deposits it
+export default function ZapDeposit({ market, expiry, capacity, minPtAmount }: ZapDepositProps) {
+  const { address } = useAccount()
+  const [source, setSource] = useState<ZapSource>('underlying')
+  const [amount, setAmount] = useState('')
+  const balances = useBalances(market)
+  const { slippageBps, setSlippageBps, applySlippage } = useSlippage()
+
+  const tokenIn = zapToken(market, source)
+  const balance = source === 'sy' ? balances.sy : balances.underlying
+  const amountIn = parseAmount(amount, tokenIn.decimals)
+
+  const { quote, isLoading: quoteLoading, error: quoteError } = useZapQuote(market, source, amountIn, slippageBps)
+  const minToUser = quote ? applySlippage(quote.toUser) : undefined
+  const zap = useZap(market, quote, minToUser)
+
+  // Reset amount on success
+  useEffect(() => {
+    if (zap.isSuccess) {
+      setAmount('')
+    }
+  }, [zap.isSuccess])
+
+  const hasAmount = !!amountIn && amountIn > 0n
+
+  const getAmountError = () => {
+    if (!hasAmount) return undefined
+    const { pt, underlying } = market
+    if (balance && amountIn > balance.value) return `Insufficient ${tokenIn.symbol} balance`
+    if (!quote) return undefined
+    if (minPtAmount !== undefined && quote.minPtOut < minPtAmount) {
+      return `Buys less than the ${formatTokenAmount(minPtAmount, pt, pt.decimals)} minimum deposit`
+    }
+    if (capacity?.remaining != null && quote.minPtOut > capacity.remaining) {
+      return capacity.isFull
+        ? 'This market is full'
+        : `Only ${formatTokenAmount(capacity.remaining, pt)} left in this market`
+    }
+    // The fee is paid in the underlying on top of whatever the swap spends
+    const underlyingNeeded = quote.feeAmount + (source === 'underlying' ? amountIn : 0n)
+    if (balances.underlying && underlyingNeeded > balances.underlying.value) {
+      return `Insufficient ${underlying.symbol} to pay the fee`
+    }
+  }
+  const amountError = getAmountError()
+
+  const swapRows = quote
+    ? [
+        { label: `${market.pt.symbol} bought`, value: formatTokenAmount(quote.ptOut, market.pt) },
+        {
+          label: 'Deposited',
+          value: formatTokenAmount(quote.minPtOut, market.pt),
+          subtext: 'the minimum bought, any extra stays in your wallet',
+        },
+        { label: 'Price impact', value: `${formatRate(quote.priceImpact)}%` },
+      ]
+    : []
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-white/50">Pay with</span>
+        <div className="inline-flex bg-ovfl-800/50 rounded-lg p-1 gap-1">
+          {(['underlying', 'sy'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setSource(option)}
+              className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                source === option ? 'bg-accent/20 text-white' : 'text-white/50 hover:text-white/70'
+              }`}
+            >
+              {zapToken(market, option).symbol}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <AmountInput
+        value={amount}
+        onChange={setAmount}
+        balance={balance ? formatAmount(balance.value, balance.decimals) : '0'}
+        symbol={tokenIn.symbol}
+        decimals={tokenIn.decimals}
+        onMax={() => balance && setAmount(balance.formatted)}
+        error={amountError}
+        badge={source === 'sy' ? 'SY' : tokenIn.symbol.slice(0, 2)}
+      />
+
+      {hasAmount && (
+        <div className="space-y-2">
+          <div className="flex justify-end">
+            <SlippageSettings slippageBps={slippageBps} onChange={setSlippageBps} />
+          </div>
+
+          <div className="bg-ovfl-800/30 rounded-xl p-4 space-y-3">
+            {swapRows.map((row) => (
+              <div key={row.label} className="flex items-center justify-between">
+                <span className="text-white/50 text-sm">{row.label}</span>
+                <div className="text-right">
+                  <span className="font-medium">{quoteLoading ? '...' : row.value}</span>
+                  {row.subtext && <div className="text-xs text-white/40">{row.subtext}</div>}
+                </div>
+              </div>
+            ))}
+            {!quote && <div className="text-sm text-white/40">{quoteLoading ? 'Quoting...' : 'No quote'}</div>}
+          </div>
+
+          {quote && (
+            <Preview
+              preview={quote}
+              market={market}
+              expiry={expiry}
+              minToUser={minToUser}
+              slippageBps={slippageBps}
+              isLoading={quoteLoading}
+            />
+          )}
+        </div>
+      )}
+
+      <ErrorMessage error={zap.error ?? (hasAmount && quoteError)} />
+
+      <ActionButton
+        label="Buy and deposit"
+        onClick={zap.zap}
+        disabled={!hasAmount || !!amountError || !zap.isReady}
+        isLoading={zap.isLoading}
+        loadingText={zap.canBatch ? 'Depositing...' : `${zap.steps[zap.currentStep] ?? 'Depositing'}...`}
+        steps={hasAmount && zap.steps.length > 0 ? zap.steps : undefined}
+        currentStep={zap.currentStep}
+      />
+
+      {hasAmount && zap.steps.length > 1 && (
+        <p className="text-center text-xs text-white/40">
+          {zap.canBatch
+            ? `Your wallet runs all ${zap.steps.length} steps in a single batch`
+            : `${zap.steps.length} transactions, each sent once the previous one confirms`}
+        </p>
+      )}
+
+      {!address && (
+        <p className="text-center text-sm text-white/40">
+          Connect your wallet to deposit from {market.underlying.symbol}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import { Chain, defineChain } from 'viem'
+import { arbitrum, base, bsc, foundry, mainnet, optimism } from 'viem/chains'
+
+export interface Deployment {
+  ovfl: `0x${string}`
+  admin: `0x${string}`
+  sablierLockupLinear: `0x${string}`
+  pendleOracle: `0x${string}`
+  // Pendle router used to buy PT for deposits from the underlying, and its quoting counterpart
+  pendleRouter: `0x${string}`
+  pendleRouterStatic: `0x${string}`
+  // Block the Admin contract was deployed at, used as the start of event scans
+  startBlock: bigint
+}
+
+// Shape of src/deployments.local.json, written by scripts/dev-deploy.ts
+export interface LocalDeploymentFile extends Omit<Deployment, 'startBlock'> {
+  startBlock: number
+}
+
+// Canonical Multicall3, present on every supported chain and placed on Anvil by the dev deploy
+export const MULTICALL3 = '0xcA11bde05977b3631167028862bE2a173976CA11'
+
+// Pendle deploys its PT oracle at the same address on every chain
+const PENDLE_ORACLE = '0x9a9Fa8338dd5E5B2188006f1Cd2Ef26d921650C2'
+
+// Likewise for the V4 router. RouterStatic is deployed separately on each chain, so it is listed
+// per entry below.
+const PENDLE_ROUTER = '0x888888888889758F76e7103c6CbF23ABbF58F946'
+
+const ZERO = '0x0000000000000000000000000000000000000000'
+
+// OVFL is constructed with the chain's oracle and Sablier LockupLinear (Lockup v1.2), so each entry
+// must match the addresses passed to its deployment. Chains left at the zero `ovfl` have no
+// deployment yet; see isDeployed.
+export const DEPLOYMENTS: Record<number, Deployment> = {
+  [mainnet.id]: {
+    ovfl: ZERO, // TODO: Update after deployment
+    admin: ZERO, // TODO: Update after deployment
+    sablierLockupLinear: '0x3962f6585946823440d274aD7C719B02b49DE51E',
+    pendleOracle: PENDLE_ORACLE,
+    pendleRouter: PENDLE_ROUTER,
+    pendleRouterStatic: '0x263833d47eA3fA4a30f269323aba6a107f9eB14C',
+    startBlock: 0n, // TODO: Update after deployment
+  },
+  [arbitrum.id]: {
+    ovfl: ZERO, // TODO: Update after deployment
+    admin: ZERO, // TODO: Update after deployment
+    sablierLockupLinear: '0x53F5eEB133B99C6e59108F35bCC7a116da50c5ce',
+    pendleOracle: PENDLE_ORACLE,
+    pendleRouter: PENDLE_ROUTER,
+    pendleRouterStatic: '0xAdB09F65bd90d19e3148D9ccb693F3161C6DB3E8',
+    startBlock: 0n, // TODO: Update after deployment
+  },
+  [base.id]: {
+    ovfl: ZERO, // TODO: Update after deployment
+    admin: ZERO, // TODO: Update after deployment
+    sablierLockupLinear: '0x4CB16D4153123A74Bc724d161050959754f378D8',
+    pendleOracle: PENDLE_ORACLE,
+    pendleRouter: PENDLE_ROUTER,
+    pendleRouterStatic: '0xB4205a645c7e920BD8504181B1D7f2c5C955C3e7',
+    startBlock: 0n, // TODO: Update after deployment
+  },
+  [optimism.id]: {
+    ovfl: ZERO, // TODO: Update after deployment
+    admin: ZERO, // TODO: Update after deployment
+    sablierLockupLinear: '0x4994325F8D4B4A36Bd643128BEb3EC3e582192C0',
+    pendleOracle: PENDLE_ORACLE,
+    pendleRouter: PENDLE_ROUTER,
+    pendleRouterStatic: '0x704478Dd72FD7F9B83d1F1e0fc18C14B54F034d0',
+    startBlock: 0n, // TODO: Update after deployment
+  },
+  [bsc.id]: {
+    ovfl: ZERO, // TODO: Update after deployment
+    admin: ZERO, // TODO: Update after deployment
+    sablierLockupLinear: '0x14c35E126d75234a90c9fb185BF8ad3eDB6A90D2',
+    pendleOracle: PENDLE_ORACLE,
+    pendleRouter: PENDLE_ROUTER,
+    pendleRouterStatic: '0x2700ADB035F82a11899ce1D3f1BF8451c296eABb',
+    startBlock: 0n, // TODO: Update after deployment
+  },
+}
+
+// Chains offered in the wallet's network switcher, in display order
+export const SUPPORTED_CHAINS: readonly [Chain, ...Chain[]] = [mainnet, arbitrum, base, optimism, bsc]
+
+// Local Anvil node used in dev mode; its deployment is written by scripts/dev-deploy.ts
+export const LOCAL_CHAIN = defineChain({
+  ...foundry,
+  contracts: { multicall3: { address: MULTICALL3 } },
+})
+
+// Whether OVFL has been deployed on the entry's chain, rather than it being listed ahead of time
+export function isDeployed(deployment: Deployment | undefined): deployment is Deployment {
+  return deployment !== undefined && deployment.ovfl !== ZERO
+}
+
+export function getDeployment(chainId: number | undefined): Deployment | undefined {
+  return chainId === undefined ? undefined : DEPLOYMENTS[chainId]
+}
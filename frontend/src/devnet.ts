@@ -0,0 +1,8 @@
+import { Deployment, LocalDeploymentFile } from './deployments'
+
+// Written by `npm run dev:deploy`. The glob matches nothing until then, and is ignored outside the
+// dev server so a production build never offers the local node.
+const files = import.meta.glob<LocalDeploymentFile>('./deployments.local.json', { eager: true, import: 'default' })
+const file = import.meta.env.DEV ? files['./deployments.local.json'] : undefined
+
+export const LOCAL_DEPLOYMENT: Deployment | undefined = file && { ...file, startBlock: BigInt(file.startBlock) }
@@ -0,0 +1,123 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  useAccount,
+  usePublicClient,
+  useReadContract,
+  useReadContracts,
+  useWatchContractEvent,
+  useWriteContract,
+} from 'wagmi'
+import { ADMIN_ABI } from '../abi/admin'
+import { AdminCall, listPendingMarkets, prepareAdminCall } from '../sdk'
+import { useTransaction } from './useTransaction'
+import { useDeployment } from './useDeployment'
+
+export type { PendingMarket } from '../sdk'
+
+export interface AdminLimits {
+  feeMaxBps: number
+  timelockDelay: number
+  minTwapDuration: number
+  maxTwapDuration: number
+}
+
+// Whether the connected wallet holds ADMIN_ROLE on the Admin contract
+export function useIsAdmin() {
+  const { deployment } = useDeployment()
+  const { address } = useAccount()
+
+  const { data: adminRole } = useReadContract({
+    address: deployment.admin,
+    abi: ADMIN_ABI,
+    functionName: 'ADMIN_ROLE',
+  })
+
+  const { data: isAdmin, isLoading } = useReadContract({
+    address: deployment.admin,
+    abi: ADMIN_ABI,
+    functionName: 'hasRole',
+    args: adminRole && address ? [adminRole, address] : undefined,
+    query: { enabled: !!adminRole && !!address },
+  })
+
+  return {
+    isAdmin: !!isAdmin,
+    isLoading,
+  }
+}
+
+export function useAdminLimits() {
+  const { deployment } = useDeployment()
+  const { data } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: deployment.admin, abi: ADMIN_ABI, functionName: 'FEE_MAX_BPS' },
+      { address: deployment.admin, abi: ADMIN_ABI, functionName: 'TIMELOCK_DELAY' },
+      { address: deployment.admin, abi: ADMIN_ABI, functionName: 'MIN_TWAP_DURATION' },
+      { address: deployment.admin, abi: ADMIN_ABI, functionName: 'MAX_TWAP_DURATION' },
+    ],
+  })
+
+  const limits: AdminLimits | undefined = data && {
+    feeMaxBps: Number(data[0]),
+    timelockDelay: Number(data[1]),
+    minTwapDuration: Number(data[2]),
+    maxTwapDuration: Number(data[3]),
+  }
+
+  return { limits }
+}
+
+export function usePendingMarkets() {
+  const { chainId, deployment } = useDeployment()
+  const publicClient = usePublicClient()
+  const queryClient = useQueryClient()
+  const queryKey = ['pendingMarkets', chainId]
+
+  const { data, isLoading, error } = useQuery({
+    queryKey,
+    enabled: !!publicClient,
+    queryFn: () => listPendingMarkets(publicClient!, deployment),
+  })
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey })
+  useWatchContractEvent({ address: deployment.admin, abi: ADMIN_ABI, eventName: 'MarketQueued', onLogs: refresh })
+  useWatchContractEvent({ address: deployment.admin, abi: ADMIN_ABI, eventName: 'MarketCancelled', onLogs: refresh })
+  useWatchContractEvent({ address: deployment.admin, abi: ADMIN_ABI, eventName: 'MarketApproved', onLogs: refresh })
+
+  return {
+    pendingMarkets: data ?? [],
+    isLoading,
+    error,
+  }
+}
+
+export function useAdminAction(label: string) {
+  const { deployment } = useDeployment()
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const queryClient = useQueryClient()
+  const { writeContractAsync } = useWriteContract()
+  const tx = useTransaction(label)
+
+  const execute = async (call: AdminCall) => {
+    try {
+      await tx.send(
+        async () => writeContractAsync(await prepareAdminCall(publicClient!, deployment, address!, call)),
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['pendingMarkets'] })
+          queryClient.invalidateQueries({ queryKey: ['markets'] })
+        }
+      )
+    } catch (err) {
+      console.error(`${label} failed:`, err)
+    }
+  }
+
+  return {
+    execute,
+    isLoading: tx.isLoading,
+    isSuccess: tx.isSuccess,
+    error: tx.error,
+  }
+}
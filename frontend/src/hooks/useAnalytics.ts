@@ -0,0 +1,67 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { usePublicClient, useReadContracts, useWatchContractEvent } from 'wagmi'
+import { OVFL_ABI } from '../abi/ovfl'
+import { feesByToken, summarizeMarkets } from '../lib/analytics'
+import { syncProtocolEvents } from '../lib/indexer'
+import { useMarkets } from './useMarkets'
+import { useDeployment } from './useDeployment'
+
+export function useProtocolEvents() {
+  const { chainId, deployment } = useDeployment()
+  const publicClient = usePublicClient()
+  const queryClient = useQueryClient()
+  const queryKey = ['protocolEvents', chainId]
+
+  const { data, isLoading, error } = useQuery({
+    queryKey,
+    enabled: !!publicClient,
+    refetchInterval: 60_000,
+    queryFn: () => syncProtocolEvents(publicClient!, chainId, deployment.ovfl, deployment.startBlock),
+  })
+
+  // The cache makes a resync cheap, so any new protocol event triggers one
+  const refresh = () => queryClient.invalidateQueries({ queryKey })
+  useWatchContractEvent({ address: deployment.ovfl, abi: OVFL_ABI, eventName: 'Deposited', onLogs: refresh })
+  useWatchContractEvent({ address: deployment.ovfl, abi: OVFL_ABI, eventName: 'Claimed', onLogs: refresh })
+  useWatchContractEvent({ address: deployment.ovfl, abi: OVFL_ABI, eventName: 'FeeTaken', onLogs: refresh })
+  useWatchContractEvent({ address: deployment.ovfl, abi: OVFL_ABI, eventName: 'ExcessSwept', onLogs: refresh })
+
+  return {
+    events: data ?? [],
+    isLoading,
+    error,
+  }
+}
+
+export function useAnalytics() {
+  const { deployment } = useDeployment()
+  const { markets, isLoading: marketsLoading } = useMarkets()
+  const { events, isLoading: eventsLoading, error } = useProtocolEvents()
+
+  const { data: deposited } = useReadContracts({
+    allowFailure: false,
+    contracts: markets.map(
+      (market) =>
+        ({ address: deployment.ovfl, abi: OVFL_ABI, functionName: 'marketTotalDeposited', args: [market.address] }) as const
+    ),
+    query: { enabled: markets.length > 0, refetchInterval: 60_000 },
+  })
+
+  // TVL in PT per market; PT reserves and ovflToken supply are covered by useBacking
+  const tvl: Record<string, bigint> = {}
+  markets.forEach((market, i) => {
+    if (deposited) tvl[market.address] = deposited[i]
+  })
+
+  const now = Math.floor(Date.now() / 1000)
+
+  return {
+    markets,
+    events,
+    activity: summarizeMarkets(events, markets, now),
+    fees: feesByToken(events),
+    tvl,
+    isLoading: marketsLoading || eventsLoading,
+    error,
+  }
+}
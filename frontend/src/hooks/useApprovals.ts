@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react'
+import {
+  useAccount,
+  useBlockNumber,
+  usePublicClient,
+  useReadContracts,
+  useSignTypedData,
+  useWriteContract,
+} from 'wagmi'
+import { domainSeparator, maxUint256, parseSignature } from 'viem'
+import { ERC20_ABI } from '../abi/ovfl'
+import { feeApprovalAmount, PermitSignature, prepareApprove } from '../sdk'
+import { Market, Token } from './useMarkets'
+import { useTransaction } from './useTransaction'
+import { useDeployment } from './useDeployment'
+
+export type ApprovalMode = 'exact' | 'unlimited'
+
+export type DepositStep = 'approve-pt' | 'approve-fee' | 'deposit'
+
+// Permits can be submitted for an hour after signing
+const PERMIT_TTL = 3600
+
+// A signed permit waiting to go out with the deposit, with what it was signed against
+interface SignedPermit extends PermitSignature {
+  token: `0x${string}`
+  owner: `0x${string}`
+  nonce: bigint
+}
+
+export function useApprovals(market: Market | null, ptAmount: bigint, feeAmount: bigint) {
+  const { chainId, deployment } = useDeployment()
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+
+  const { writeContractAsync } = useWriteContract()
+  const { signTypedDataAsync, isPending: isSignPending } = useSignTypedData()
+  const tx = useTransaction('Approval')
+  const [signed, setSigned] = useState<SignedPermit[]>([])
+  const [permitError, setPermitError] = useState<Error | null>(null)
+
+  const tokenReads = (token: Token) =>
+    [
+      { address: token.address, abi: ERC20_ABI, functionName: 'allowance', args: [address!, deployment.ovfl] },
+      { address: token.address, abi: ERC20_ABI, functionName: 'nonces', args: [address!] },
+      { address: token.address, abi: ERC20_ABI, functionName: 'DOMAIN_SEPARATOR' },
+      { address: token.address, abi: ERC20_ABI, functionName: 'name' },
+      { address: token.address, abi: ERC20_ABI, functionName: 'version' },
+    ] as const
+
+  const { data, refetch } = useReadContracts({
+    contracts: market && address ? [...tokenReads(market.pt), ...tokenReads(market.underlying)] : [],
+    query: { enabled: !!market && !!address },
+  })
+
+  // Allowances move with every deposit, so re-read them each block and after our own approvals
+  const { data: blockNumber } = useBlockNumber({ watch: true })
+  useEffect(() => {
+    refetch()
+  }, [blockNumber, tx.isSuccess, refetch])
+
+  const readToken = (offset: number) => {
+    const [allowance, nonce, separator, name, version] = data?.slice(offset, offset + 5) ?? []
+    return {
+      allowance: allowance?.status === 'success' ? (allowance.result as bigint) : 0n,
+      nonce: nonce?.status === 'success' ? (nonce.result as bigint) : undefined,
+      separator: separator?.status === 'success' ? (separator.result as `0x${string}`) : undefined,
+      name: name?.status === 'success' ? (name.result as string) : undefined,
+      // Most EIP-2612 tokens without a version() getter sign with version "1"
+      version: version?.status === 'success' ? (version.result as string) : '1',
+    }
+  }
+  const pt = readToken(0)
+  const fee = readToken(5)
+
+  // A token supports permit when the domain we would sign matches its on-chain DOMAIN_SEPARATOR
+  const supportsPermit = (token: Token, info: ReturnType<typeof readToken>) =>
+    info.nonce !== undefined &&
+    info.separator !== undefined &&
+    info.name !== undefined &&
+    domainSeparator({
+      domain: { name: info.name, version: info.version, chainId, verifyingContract: token.address },
+    }) === info.separator
+
+  // A signed permit stands in for allowance until it is used, expires or no longer covers the amount
+  const now = BigInt(Math.floor(Date.now() / 1000))
+  const permitFor = (token: Token, info: ReturnType<typeof readToken>, amount: bigint) =>
+    signed.find(
+      (p) =>
+        p.token === token.address &&
+        p.owner === address &&
+        p.nonce === info.nonce &&
+        p.deadline > now &&
+        p.value >= amount
+    )
+
+  const ptPermit = market ? permitFor(market.pt, pt, ptAmount) : undefined
+  const feePermit = market ? permitFor(market.underlying, fee, feeAmount) : undefined
+
+  const needsPt = !!market && pt.allowance < ptAmount && !ptPermit
+  const needsFee = !!market && feeAmount > 0n && fee.allowance < feeAmount && !feePermit
+  const step: DepositStep = needsPt ? 'approve-pt' : needsFee ? 'approve-fee' : 'deposit'
+
+  const current =
+    step === 'approve-pt' && market
+      ? { token: market.pt, info: pt, amount: ptAmount }
+      : step === 'approve-fee' && market
+        ? { token: market.underlying, info: fee, amount: feeApprovalAmount(market, ptAmount, feeAmount) }
+        : null
+
+  const approve = async (mode: ApprovalMode) => {
+    if (!current) return
+    try {
+      await tx.send(async () =>
+        writeContractAsync(
+          await prepareApprove(publicClient!, address!, {
+            token: current.token,
+            spender: deployment.ovfl,
+            amount: mode === 'unlimited' ? maxUint256 : current.amount,
+          })
+        )
+      )
+    } catch (err) {
+      console.error('Approval failed:', err)
+    }
+  }
+
+  // Signs a permit for the current step instead of sending an approval. Nothing goes on chain
+  // until the deposit, which submits it through OVFL.depositWithPermit. Once that lands, the
+  // allowance is `value` (unlimited, or the exact amount) less what the deposit pulled.
+  const permit = async (mode: ApprovalMode) => {
+    if (!current || !address || current.info.nonce === undefined || !current.info.name) return
+    setPermitError(null)
+    try {
+      const value = mode === 'unlimited' ? maxUint256 : current.amount
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_TTL)
+      const nonce = current.info.nonce
+      const signature = await signTypedDataAsync({
+        domain: {
+          name: current.info.name,
+          version: current.info.version,
+          chainId,
+          verifyingContract: current.token.address,
+        },
+        types: {
+          Permit: [
+            { name: 'owner', type: 'address' },
+            { name: 'spender', type: 'address' },
+            { name: 'value', type: 'uint256' },
+            { name: 'nonce', type: 'uint256' },
+            { name: 'deadline', type: 'uint256' },
+          ],
+        },
+        primaryType: 'Permit',
+        message: { owner: address, spender: deployment.ovfl, value, nonce, deadline },
+      })
+      const { r, s, v, yParity } = parseSignature(signature)
+      const permit: SignedPermit = {
+        token: current.token.address,
+        owner: address,
+        nonce,
+        value,
+        deadline,
+        v: Number(v ?? BigInt(yParity + 27)),
+        r,
+        s,
+      }
+      setSigned((others) => [...others.filter((p) => p.token !== permit.token), permit])
+    } catch (err) {
+      setPermitError(err as Error)
+    }
+  }
+
+  const toSignature = (p: SignedPermit | undefined): PermitSignature | undefined =>
+    p && { value: p.value, deadline: p.deadline, v: p.v, r: p.r, s: p.s }
+
+  return {
+    step,
+    needsFee: !!market && feeAmount > 0n,
+    approve,
+    permit,
+    canPermit: !!current && supportsPermit(current.token, current.info),
+    // Signed permits for OVFL.depositWithPermit; empty when allowances already cover the deposit
+    permits: {
+      pt: pt.allowance < ptAmount ? toSignature(ptPermit) : undefined,
+      fee: fee.allowance < feeAmount ? toSignature(feePermit) : undefined,
+    },
+    isLoading: isSignPending || tx.isLoading,
+    error: tx.error ?? permitError,
+  }
+}
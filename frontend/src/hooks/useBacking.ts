@@ -0,0 +1,30 @@
+import { useEffect } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useBlockNumber, usePublicClient } from 'wagmi'
+import { checkBacking } from '../lib/backing'
+import { useMarkets } from './useMarkets'
+import { useDeployment } from './useDeployment'
+
+export function useBacking() {
+  const { chainId, deployment } = useDeployment()
+  const publicClient = usePublicClient()
+  const { markets } = useMarkets()
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['backing', chainId, markets.map((market) => market.address)],
+    enabled: !!publicClient && markets.length > 0,
+    queryFn: () => checkBacking(publicClient!, deployment.ovfl, markets),
+  })
+
+  // Deposits, claims and sweeps all move backing
+  const { data: blockNumber } = useBlockNumber({ watch: true })
+  useEffect(() => {
+    refetch()
+  }, [blockNumber, refetch])
+
+  return {
+    backing: data ?? [],
+    isLoading,
+    error,
+  }
+}
@@ -0,0 +1,54 @@
+import { useEffect } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useAccount, useBlockNumber, useChainId, usePublicClient } from 'wagmi'
+import { formatUnits } from 'viem'
+import { ERC20_ABI } from '../abi/ovfl'
+import { Market } from './useMarkets'
+
+export interface Balance {
+  value: bigint
+  decimals: number
+  formatted: string
+}
+
+export function useBalances(market: Market | null) {
+  const { address } = useAccount()
+  const chainId = useChainId()
+  const publicClient = usePublicClient()
+
+  const tokens = market ? [market.pt, market.ovfl, market.underlying, market.sy] : []
+
+  const { data, isLoading, refetch } = useQuery({
+    // Tx hooks invalidate ['balances'] once their transactions confirm
+    queryKey: ['balances', chainId, address, market?.address],
+    enabled: !!publicClient && !!address && !!market,
+    queryFn: async () => {
+      const results = await publicClient!.multicall({
+        allowFailure: false,
+        contracts: tokens.flatMap((token) => [
+          { address: token.address, abi: ERC20_ABI, functionName: 'balanceOf', args: [address!] } as const,
+          { address: token.address, abi: ERC20_ABI, functionName: 'decimals' } as const,
+        ]),
+      })
+      return tokens.map((_, i): Balance => {
+        const value = results[i * 2] as bigint
+        const decimals = Number(results[i * 2 + 1])
+        return { value, decimals, formatted: formatUnits(value, decimals) }
+      })
+    },
+  })
+
+  // Refresh on every new block
+  const { data: blockNumber } = useBlockNumber({ watch: true })
+  useEffect(() => {
+    if (market && address) refetch()
+  }, [blockNumber, market, address, refetch])
+
+  return {
+    pt: data?.[0],
+    ovfl: data?.[1],
+    underlying: data?.[2],
+    sy: data?.[3],
+    isLoading,
+  }
+}
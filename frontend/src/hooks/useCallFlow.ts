@@ -0,0 +1,117 @@
+import { useState } from 'react'
+import { useAccount, useCapabilities, useConfig, usePublicClient, useSendCalls, useSendTransaction } from 'wagmi'
+import { waitForCallsStatus } from 'wagmi/actions'
+import { TransactionReceipt } from 'viem'
+import { useToast } from '../components/Toast'
+import { toUserError } from '../lib/errors'
+import { Call } from '../lib/calls'
+import { TxStatus, useTransaction } from './useTransaction'
+import { useDeployment } from './useDeployment'
+
+// How long to wait for a wallet to land a batch before giving up on tracking it
+const BATCH_TIMEOUT = 5 * 60_000
+
+// Runs several calls as one flow. Wallets that can execute EIP-5792 batches atomically sign
+// everything once; any other wallet gets one transaction per step, each waiting for the previous
+// one to be mined. `label` names the whole flow in toasts, e.g. "Deposit".
+export function useCallFlow(label: string) {
+  const { chainId } = useDeployment()
+  const { address } = useAccount()
+  const config = useConfig()
+  const publicClient = usePublicClient()
+  const { showToast } = useToast()
+  const { sendCallsAsync } = useSendCalls()
+  const { sendTransactionAsync } = useSendTransaction()
+  const tx = useTransaction(label)
+
+  // Wallets without wallet_getCapabilities fail the query, which leaves batching off
+  const { data: capabilities } = useCapabilities({ query: { enabled: !!address, retry: false } })
+  const atomic = capabilities?.[chainId]?.atomic?.status
+  const canBatch = atomic === 'supported' || atomic === 'ready'
+
+  const [status, setStatus] = useState<TxStatus>('idle')
+  const [error, setError] = useState<Error | null>(null)
+  const [running, setRunning] = useState<Call[] | null>(null)
+  const [currentStep, setCurrentStep] = useState(0)
+
+  // `onConfirmed` gets the receipt of the transaction holding the last call
+  const sendBatch = async (calls: Call[], onConfirmed: (receipt: TransactionReceipt) => string | void) => {
+    const { id } = await sendCallsAsync({
+      calls: calls.map(({ to, data }) => ({ to, data })),
+      forceAtomic: true,
+    })
+    setStatus('pending')
+    showToast(`${label} submitted`, 'info')
+
+    const result = await waitForCallsStatus(config, { id, timeout: BATCH_TIMEOUT })
+    const last = result.receipts?.at(-1)
+    if (result.status !== 'success' || !last) {
+      setStatus('reverted')
+      showToast(`${label} reverted`, 'error')
+      return
+    }
+
+    setCurrentStep(calls.length)
+    setStatus('confirmed')
+    const receipt = await publicClient!.getTransactionReceipt({ hash: last.transactionHash })
+    showToast(onConfirmed(receipt) || `${label} confirmed`, 'success')
+  }
+
+  const sendSequential = async (calls: Call[], onConfirmed: (receipt: TransactionReceipt) => string | void) => {
+    for (const [i, call] of calls.entries()) {
+      setCurrentStep(i)
+      const receipt = await tx.send(
+        async () => {
+          // Each step runs against the state the previous one left, so simulate just before sending
+          await publicClient!.call({ account: address, to: call.to, data: call.data })
+          return sendTransactionAsync({ to: call.to, data: call.data })
+        },
+        i === calls.length - 1 ? onConfirmed : undefined,
+        call.label
+      )
+      if (receipt.status !== 'success') {
+        setStatus('reverted')
+        return
+      }
+    }
+    setCurrentStep(calls.length)
+    setStatus('confirmed')
+  }
+
+  const run = async (calls: Call[], onConfirmed: (receipt: TransactionReceipt) => string | void) => {
+    setError(null)
+    setStatus('signing')
+    setRunning(calls)
+    setCurrentStep(0)
+    try {
+      if (canBatch) {
+        await sendBatch(calls, onConfirmed)
+      } else {
+        await sendSequential(calls, onConfirmed)
+      }
+    } catch (err) {
+      setStatus('failed')
+      setError(err as Error)
+      // useTransaction has already reported failures of single transactions
+      if (canBatch) {
+        const { title, message, fix } = toUserError(err)
+        showToast(`${title}: ${fix ?? message}`, 'error')
+      }
+      console.error(`${label} failed:`, err)
+    } finally {
+      setRunning(null)
+    }
+  }
+
+  return {
+    run,
+    canBatch,
+    // The calls of the flow in progress, if any
+    running,
+    currentStep: running ? currentStep : 0,
+    status,
+    isLoading: status === 'signing' || status === 'pending',
+    isSuccess: status === 'confirmed',
+    error,
+  }
+}
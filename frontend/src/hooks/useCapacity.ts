@@ -0,0 +1,68 @@
+import { useEffect } from 'react'
+import { useBlockNumber, useReadContract, useReadContracts } from 'wagmi'
+import { OVFL_ABI } from '../abi/ovfl'
+import { Market } from './useMarkets'
+import { useDeployment } from './useDeployment'
+
+// Markets at or above this share of their limit are flagged as near their cap
+const NEAR_CAP_BPS = 9_000n
+
+export interface Capacity {
+  limit: bigint
+  deposited: bigint
+  // null when the market has no limit
+  remaining: bigint | null
+  usedBps: number
+  isFull: boolean
+  isNearCap: boolean
+}
+
+export function useCapacity(markets: Market[]) {
+  const { deployment } = useDeployment()
+  const { data, refetch } = useReadContracts({
+    contracts: markets.flatMap((market) => [
+      { address: deployment.ovfl, abi: OVFL_ABI, functionName: 'marketDepositLimits', args: [market.address] } as const,
+      { address: deployment.ovfl, abi: OVFL_ABI, functionName: 'marketTotalDeposited', args: [market.address] } as const,
+    ]),
+    query: { enabled: markets.length > 0 },
+  })
+
+  const { data: minPtAmount, refetch: refetchMin } = useReadContract({
+    address: deployment.ovfl,
+    abi: OVFL_ABI,
+    functionName: 'minPtAmount',
+  })
+
+  // Deposits from other users move these every block
+  const { data: blockNumber } = useBlockNumber({ watch: true })
+  useEffect(() => {
+    refetch()
+    refetchMin()
+  }, [blockNumber, refetch, refetchMin])
+
+  const capacities: Record<string, Capacity> = {}
+  markets.forEach((market, i) => {
+    const limit = data?.[i * 2]
+    const deposited = data?.[i * 2 + 1]
+    if (limit?.status !== 'success' || deposited?.status !== 'success') return
+
+    const l = limit.result as bigint
+    const d = deposited.result as bigint
+    const remaining = l === 0n ? null : d >= l ? 0n : l - d
+    const usedBps = l === 0n ? 0 : Number((d * 10_000n) / l)
+    capacities[market.address] = {
+      limit: l,
+      deposited: d,
+      remaining,
+      usedBps,
+      // Full once what's left is below the minimum deposit
+      isFull: remaining !== null && (remaining === 0n || (minPtAmount !== undefined && remaining < minPtAmount)),
+      isNearCap: l > 0n && BigInt(usedBps) >= NEAR_CAP_BPS,
+    }
+  })
+
+  return {
+    capacities,
+    minPtAmount,
+  }
+}
@@ -1,31 +1,34 @@
-import { useState } from 'react'
-import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
-import { parseEther } from 'viem'
-import { OVFL_ABI } from '../abi/ovfl'
-import { OVFL_ADDRESS } from '../wagmi'
-
-interface ClaimParams {
-  ptToken: `0x${string}`
-  amount: string
-}
+import { useQueryClient } from '@tanstack/react-query'
+import { useAccount, usePublicClient, useWriteContract } from 'wagmi'
+import { ClaimParams, decodeClaimed, prepareClaim } from '../sdk'
+import { formatTokenAmount } from '../lib/amount'
+import { useTransaction } from './useTransaction'
+import { useDeployment } from './useDeployment'
 
 export function useClaim() {
-  const [txHash, setTxHash] = useState<`0x${string}` | undefined>()
-
-  const { writeContract, isPending: isWritePending, error: writeError } = useWriteContract()
+  const { deployment } = useDeployment()
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const queryClient = useQueryClient()
+  const { writeContractAsync } = useWriteContract()
+  const tx = useTransaction('Claim')
 
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
-    hash: txHash,
-  })
-
-  const claim = async ({ ptToken, amount }: ClaimParams) => {
+  const claim = async (params: ClaimParams) => {
+    const { market } = params
     try {
-      await writeContract({
-        address: OVFL_ADDRESS,
-        abi: OVFL_ABI,
-        functionName: 'claim',
-        args: [ptToken, parseEther(amount)],
-      })
+      await tx.send(
+        async () => writeContractAsync(await prepareClaim(publicClient!, deployment, address!, params)),
+        (receipt) => {
+          queryClient.invalidateQueries({ queryKey: ['balances'] })
+
+          const claimed = decodeClaimed(receipt)
+          if (!claimed) return
+          return `Burned ${formatTokenAmount(claimed.burnedAmount!, market.ovfl)} for ${formatTokenAmount(
+            claimed.ptOut!,
+            market.pt
+          )}`
+        }
+      )
     } catch (err) {
       console.error('Claim failed:', err)
     }
@@ -33,10 +36,11 @@ export function useClaim() {
 
   return {
     claim,
-    isLoading: isWritePending || isConfirming,
-    isSuccess,
-    error: writeError,
-    txHash,
+    result: tx.receipt ? decodeClaimed(tx.receipt) : undefined,
+    status: tx.status,
+    isLoading: tx.isLoading,
+    isSuccess: tx.isSuccess,
+    error: tx.error,
+    txHash: tx.hash,
   }
 }
-
@@ -0,0 +1,54 @@
+import { useEffect } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAccount, useBlockNumber, usePublicClient } from 'wagmi'
+import { buildClaimRedeemCalls } from '../lib/redeem'
+import { formatTokenAmount } from '../lib/amount'
+import { Market } from './useMarkets'
+import { useCallFlow } from './useCallFlow'
+import { useDeployment } from './useDeployment'
+
+// Claims ovflTokens for PT and redeems the PT for the underlying through Pendle, batched where
+// the wallet allows
+export function useClaimRedeem(market: Market | null, amount: bigint | null, minTokenOut: bigint | undefined) {
+  const { chainId, deployment } = useDeployment()
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const queryClient = useQueryClient()
+  const flow = useCallFlow('Claim')
+
+  const contracts = { ovfl: deployment.ovfl, router: deployment.pendleRouter, routerStatic: deployment.pendleRouterStatic }
+  const enabled = !!publicClient && !!address && !!market && !!amount && amount > 0n && minTokenOut !== undefined
+
+  const { data: planned, refetch } = useQuery({
+    queryKey: ['claimRedeemCalls', chainId, address, market?.address, amount?.toString(), minTokenOut?.toString()],
+    enabled,
+    retry: false,
+    queryFn: () => buildClaimRedeemCalls(publicClient!, contracts, address!, market!, amount!, minTokenOut!),
+  })
+
+  // Picks up a router approval granted elsewhere
+  const { data: blockNumber } = useBlockNumber({ watch: true })
+  useEffect(() => {
+    if (enabled && !flow.running) refetch()
+  }, [blockNumber, enabled, flow.running, refetch])
+
+  const claimAndRedeem = async () => {
+    if (!planned || !market || !amount) return
+    await flow.run(planned, () => {
+      queryClient.invalidateQueries({ queryKey: ['balances'] })
+      return `Redeemed ${formatTokenAmount(amount, market.ovfl)} for ${market.underlying.symbol}`
+    })
+  }
+
+  return {
+    claimAndRedeem,
+    canBatch: flow.canBatch,
+    steps: (flow.running ?? planned ?? []).map((call) => call.label),
+    currentStep: flow.currentStep,
+    status: flow.status,
+    isLoading: flow.isLoading,
+    isSuccess: flow.isSuccess,
+    isReady: !!planned,
+    error: flow.error,
+  }
+}
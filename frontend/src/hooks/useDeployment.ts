@@ -0,0 +1,19 @@
+import { useAccount, useChainId } from 'wagmi'
+import { deployments } from '../wagmi'
+import { isDeployed, LOCAL_CHAIN } from '../deployments'
+
+// Contract addresses for the active chain. wagmi only ever activates chains from the registry,
+// so `deployment` is always set. `isSupported` is false while the wallet, or the default chain
+// before one connects, sits on a chain OVFL is not deployed on yet.
+export function useDeployment() {
+  const chainId = useChainId()
+  const { chainId: walletChainId, isConnected } = useAccount()
+  const activeChainId = isConnected ? walletChainId : chainId
+
+  return {
+    chainId,
+    deployment: deployments[chainId],
+    isSupported: activeChainId !== undefined && isDeployed(deployments[activeChainId]),
+    isLocal: chainId === LOCAL_CHAIN.id,
+  }
+}
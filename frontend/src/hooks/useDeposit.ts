@@ -1,34 +1,40 @@
-import { useState } from 'react'
-import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
-import { parseEther } from 'viem'
-import { OVFL_ABI } from '../abi/ovfl'
-import { OVFL_ADDRESS } from '../wagmi'
+import { useQueryClient } from '@tanstack/react-query'
+import { useAccount, usePublicClient, useWriteContract } from 'wagmi'
+import { TransactionReceipt } from 'viem'
+import { decodeDeposited, DepositParams, prepareDeposit } from '../sdk'
+import { formatTokenAmount } from '../lib/amount'
+import { Market } from './useMarkets'
+import { useTransaction } from './useTransaction'
+import { useDeployment } from './useDeployment'
 
-interface DepositParams {
-  market: `0x${string}`
-  ptAmount: string
-  minToUser: string
+// Success toast for any flow ending in OVFL.deposit
+export function describeDeposit(receipt: TransactionReceipt, market: Market) {
+  const deposited = decodeDeposited(receipt)
+  if (!deposited) return
+  return `Received ${formatTokenAmount(deposited.toUser!, market.ovfl)}, ${formatTokenAmount(
+    deposited.toStream!,
+    market.ovfl
+  )} streaming in #${deposited.streamId}`
 }
 
 export function useDeposit() {
-  const [txHash, setTxHash] = useState<`0x${string}` | undefined>()
+  const { deployment } = useDeployment()
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const queryClient = useQueryClient()
+  const { writeContractAsync } = useWriteContract()
+  const tx = useTransaction('Deposit')
 
-  const { writeContract, isPending: isWritePending, error: writeError } = useWriteContract()
-
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
-    hash: txHash,
-  })
-
-  const deposit = async ({ market, ptAmount, minToUser }: DepositParams) => {
+  const deposit = async (params: DepositParams) => {
     try {
-      const hash = await writeContract({
-        address: OVFL_ADDRESS,
-        abi: OVFL_ABI,
-        functionName: 'deposit',
-        args: [market, parseEther(ptAmount), parseEther(minToUser)],
-      })
-      // Note: writeContract doesn't return hash directly in wagmi v2
-      // You'd typically use the onSuccess callback or watch the data
+      await tx.send(
+        async () => writeContractAsync(await prepareDeposit(publicClient!, deployment, address!, params)),
+        (receipt) => {
+          queryClient.invalidateQueries({ queryKey: ['balances'] })
+          queryClient.invalidateQueries({ queryKey: ['streams'] })
+          return describeDeposit(receipt, params.market)
+        }
+      )
     } catch (err) {
       console.error('Deposit failed:', err)
     }
@@ -36,10 +42,11 @@ export function useDeposit() {
 
   return {
     deposit,
-    isLoading: isWritePending || isConfirming,
-    isSuccess,
-    error: writeError,
-    txHash,
+    result: tx.receipt ? decodeDeposited(tx.receipt) : undefined,
+    status: tx.status,
+    isLoading: tx.isLoading,
+    isSuccess: tx.isSuccess,
+    error: tx.error,
+    txHash: tx.hash,
   }
 }
-
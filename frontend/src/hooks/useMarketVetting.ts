@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query'
+import { usePublicClient } from 'wagmi'
+import { vetMarket } from '../lib/vetting'
+import { useDeployment } from './useDeployment'
+
+// Oracle readiness and market details for a candidate market, from the chain's Pendle oracle
+export function useMarketVetting(market: `0x${string}` | null, twapDuration: number | null) {
+  const { chainId, deployment } = useDeployment()
+  const publicClient = usePublicClient()
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['marketVetting', chainId, market, twapDuration],
+    enabled: !!publicClient && !!market && !!twapDuration,
+    // Observations accrue with every swap on the market
+    refetchInterval: 60_000,
+    retry: false,
+    queryFn: () => vetMarket(publicClient!, deployment.pendleOracle, market!, twapDuration!),
+  })
+
+  return {
+    vetting: data,
+    isLoading: isLoading && !!market && !!twapDuration,
+    error,
+  }
+}
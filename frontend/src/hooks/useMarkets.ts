@@ -0,0 +1,35 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { usePublicClient, useWatchContractEvent } from 'wagmi'
+import { ADMIN_ABI } from '../abi/admin'
+import { listMarkets } from '../sdk'
+import { useDeployment } from './useDeployment'
+
+export type { Market, Token } from '../lib/markets'
+
+export function useMarkets() {
+  const { chainId, deployment } = useDeployment()
+  const publicClient = usePublicClient()
+  const queryClient = useQueryClient()
+  const queryKey = ['markets', chainId]
+
+  const { data, isLoading, error } = useQuery({
+    queryKey,
+    enabled: !!publicClient,
+    staleTime: 60_000,
+    queryFn: () => listMarkets(publicClient!, deployment),
+  })
+
+  // Pick up markets approved while the app is open
+  useWatchContractEvent({
+    address: deployment.admin,
+    abi: ADMIN_ABI,
+    eventName: 'MarketApproved',
+    onLogs: () => queryClient.invalidateQueries({ queryKey }),
+  })
+
+  return {
+    markets: data ?? [],
+    isLoading,
+    error,
+  }
+}
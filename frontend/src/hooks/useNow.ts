@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react'
+import { useBlock } from 'wagmi'
+
+const wallClock = () => Math.floor(Date.now() / 1000)
+
+// Current time in seconds by the chain's clock, ticking every second. It follows the wall clock,
+// shifted forward while the latest block is ahead of it (an Anvil node after time travel), so
+// maturity and vesting checks agree with what the contracts will see.
+export function useNow() {
+  const { data: block } = useBlock({ watch: true })
+  const [now, setNow] = useState(wallClock)
+  const [skew, setSkew] = useState(0)
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(wallClock()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  useEffect(() => {
+    if (block) setSkew(Math.max(0, Number(block.timestamp) - wallClock()))
+  }, [block])
+
+  return now + skew
+}
@@ -0,0 +1,42 @@
+import { useEffect } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useAccount, useBlockNumber, usePublicClient } from 'wagmi'
+import { buildPortfolio, fetchHoldings } from '../lib/portfolio'
+import { useMarkets } from './useMarkets'
+import { useStreams } from './useStreams'
+import { useNow } from './useNow'
+import { useDeployment } from './useDeployment'
+
+// Every OVFL position of the connected wallet, per series and totalled per underlying
+export function usePortfolio() {
+  const { chainId, deployment } = useDeployment()
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const { markets, isLoading: marketsLoading } = useMarkets()
+  const { streams, isLoading: streamsLoading, error: streamsError } = useStreams()
+  // Withdrawable amounts and maturity follow the chain clock between refetches
+  const now = useNow()
+
+  const { data: holdings, isLoading, error, refetch } = useQuery({
+    queryKey: ['portfolio', chainId, address, markets.map((market) => market.address)],
+    enabled: !!publicClient && !!address && markets.length > 0,
+    queryFn: () => fetchHoldings(publicClient!, deployment.ovfl, address!, markets),
+  })
+
+  // Deposits, claims and transfers all move balances
+  const { data: blockNumber } = useBlockNumber({ watch: true })
+  useEffect(() => {
+    if (address) refetch()
+  }, [blockNumber, address, refetch])
+
+  const { positions, totals } = holdings
+    ? buildPortfolio(markets, holdings, streams, now)
+    : { positions: [], totals: [] }
+
+  return {
+    positions,
+    totals,
+    isLoading: marketsLoading || streamsLoading || (markets.length > 0 && isLoading),
+    error: error ?? streamsError,
+  }
+}
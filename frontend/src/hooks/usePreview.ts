@@ -1,41 +1,33 @@
-import { useReadContract } from 'wagmi'
-import { parseEther, formatEther } from 'viem'
-import { OVFL_ABI } from '../abi/ovfl'
-import { OVFL_ADDRESS } from '../wagmi'
+import { useEffect } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useBlockNumber, usePublicClient } from 'wagmi'
+import { previewDeposit } from '../sdk'
+import { Market } from './useMarkets'
+import { useDeployment } from './useDeployment'
 
-interface Preview {
-  toUser: string
-  toStream: string
-  fee: string
-  rate: string
-}
+export type { DepositPreview as Preview } from '../sdk'
 
-export function usePreview(marketAddress: string | undefined, amount: string) {
-  const ptAmount = amount ? parseEther(amount) : BigInt(0)
+export function usePreview(market: Market | null, ptAmount: bigint | null) {
+  const { chainId, deployment } = useDeployment()
+  const publicClient = usePublicClient()
+  const enabled = !!publicClient && !!market && !!ptAmount && ptAmount > 0n
 
-  const { data, isLoading, error } = useReadContract({
-    address: OVFL_ADDRESS,
-    abi: OVFL_ABI,
-    functionName: 'previewDeposit',
-    args: marketAddress ? [marketAddress as `0x${string}`, ptAmount] : undefined,
-    query: {
-      enabled: !!marketAddress && ptAmount > BigInt(0),
-    },
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['preview', chainId, market?.address, ptAmount?.toString()],
+    enabled,
+    retry: false,
+    queryFn: () => previewDeposit(publicClient!, deployment, market!, ptAmount!),
   })
 
-  const preview: Preview | null = data
-    ? {
-        toUser: formatEther(data[0]),
-        toStream: formatEther(data[1]),
-        fee: formatEther(data[2]),
-        rate: ((Number(data[3]) / 1e18) * 100).toFixed(2),
-      }
-    : null
+  // The TWAP rate moves with every block, and with it the split, fee and implied APY
+  const { data: blockNumber } = useBlockNumber({ watch: true })
+  useEffect(() => {
+    if (enabled) refetch()
+  }, [blockNumber, enabled, refetch])
 
   return {
-    preview,
+    preview: data ?? null,
     isLoading,
     error,
   }
 }
-
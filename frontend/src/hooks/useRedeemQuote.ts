@@ -0,0 +1,32 @@
+import { useEffect } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useBlockNumber, usePublicClient } from 'wagmi'
+import { quoteRedeem } from '../lib/redeem'
+import { Market } from './useMarkets'
+import { useDeployment } from './useDeployment'
+
+// Underlying received for redeeming matured PT through Pendle, per block
+export function useRedeemQuote(market: Market | null, ptAmount: bigint | null) {
+  const { chainId, deployment } = useDeployment()
+  const publicClient = usePublicClient()
+  const enabled = !!publicClient && !!market && !!ptAmount && ptAmount > 0n
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['redeemQuote', chainId, market?.address, ptAmount?.toString()],
+    enabled,
+    retry: false,
+    queryFn: () => quoteRedeem(publicClient!, deployment.pendleRouterStatic, market!, ptAmount!),
+  })
+
+  // The SY's exchange rate, and with it the payout, moves as the underlying accrues
+  const { data: blockNumber } = useBlockNumber({ watch: true })
+  useEffect(() => {
+    if (enabled) refetch()
+  }, [blockNumber, enabled, refetch])
+
+  return {
+    amountOut: data,
+    isLoading: isLoading && enabled,
+    error,
+  }
+}
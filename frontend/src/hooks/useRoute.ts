@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react'
+
+export type Route = '/' | '/analytics' | '/admin'
+
+const ROUTES: Route[] = ['/', '/analytics', '/admin']
+
+const currentRoute = (): Route => {
+  const path = window.location.pathname.replace(/\/+$/, '') || '/'
+  return ROUTES.includes(path as Route) ? (path as Route) : '/'
+}
+
+// Minimal history-based routing; every caller re-renders on navigation and back/forward
+export function useRoute() {
+  const [route, setRoute] = useState<Route>(currentRoute)
+
+  useEffect(() => {
+    const onChange = () => setRoute(currentRoute())
+    window.addEventListener('popstate', onChange)
+    return () => window.removeEventListener('popstate', onChange)
+  }, [])
+
+  const navigate = (to: Route) => {
+    if (to === currentRoute()) return
+    window.history.pushState(null, '', to)
+    window.dispatchEvent(new PopStateEvent('popstate'))
+  }
+
+  return { route, navigate }
+}
@@ -0,0 +1,31 @@
+import { useState } from 'react'
+import { applyBps, DEFAULT_SLIPPAGE_BPS } from '../sdk'
+
+const STORAGE_KEY = 'ovfl:slippageBps'
+
+export const SLIPPAGE_PRESETS_BPS = [10, 50, 100]
+export const MAX_SLIPPAGE_BPS = 5_000
+
+function readStored() {
+  const stored = Number(localStorage.getItem(STORAGE_KEY))
+  return Number.isInteger(stored) && stored > 0 && stored <= MAX_SLIPPAGE_BPS ? stored : DEFAULT_SLIPPAGE_BPS
+}
+
+export function useSlippage() {
+  const [slippageBps, setSlippageBpsState] = useState(readStored)
+
+  const setSlippageBps = (bps: number) => {
+    if (!Number.isInteger(bps) || bps <= 0 || bps > MAX_SLIPPAGE_BPS) return
+    setSlippageBpsState(bps)
+    localStorage.setItem(STORAGE_KEY, String(bps))
+  }
+
+  // Lowest immediate amount the deposit will accept before reverting with "OVFL: slippage"
+  const applySlippage = (toUser: bigint) => applyBps(toUser, slippageBps)
+
+  return {
+    slippageBps,
+    setSlippageBps,
+    applySlippage,
+  }
+}
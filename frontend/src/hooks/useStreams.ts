@@ -1,43 +1,58 @@
-import { useAccount } from 'wagmi'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAccount, usePublicClient, useWatchContractEvent } from 'wagmi'
+import { OVFL_ABI, SABLIER_ABI } from '../abi/ovfl'
+import { listStreams } from '../sdk'
+import { useMarkets } from './useMarkets'
+import { useDeployment } from './useDeployment'
 
-// Mock stream data - in production, query Sablier subgraph or events
-interface Stream {
-  id: string
-  amount: string
-  withdrawn: string
-  asset: string
-  endTime: number
-}
+export type { Stream } from '../sdk'
 
 export function useStreams() {
+  const { chainId, deployment } = useDeployment()
   const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const queryClient = useQueryClient()
+  const { markets } = useMarkets()
+  const queryKey = ['streams', chainId, address]
+
+  const { data, isLoading, error } = useQuery({
+    // Stream assets resolve against the markets, so streams are re-read once those load
+    queryKey: [...queryKey, markets.map((market) => market.address)],
+    enabled: !!publicClient && !!address,
+    refetchInterval: 60_000,
+    queryFn: () => listStreams(publicClient!, deployment, address!, markets),
+  })
 
-  // Mock data for UI development
-  // In production, you'd query the Sablier subgraph:
-  // https://thegraph.com/hosted-service/subgraph/sablier-labs/sablier-v2
-  const mockStreams: Stream[] = address
-    ? [
-        {
-          id: '1234',
-          amount: '0.48',
-          withdrawn: '0.24',
-          asset: 'ovflETH',
-          endTime: Math.floor(Date.now() / 1000) + 86400 * 30, // 30 days from now
-        },
-        {
-          id: '1235',
-          amount: '0.32',
-          withdrawn: '0.32',
-          asset: 'ovflETH',
-          endTime: Math.floor(Date.now() / 1000) - 86400, // Already ended
-        },
-      ]
-    : []
+  // Refresh when the user deposits or a stream NFT moves in or out of their wallet
+  const refresh = () => queryClient.invalidateQueries({ queryKey })
+  useWatchContractEvent({
+    address: deployment.ovfl,
+    abi: OVFL_ABI,
+    eventName: 'Deposited',
+    args: { user: address },
+    enabled: !!address,
+    onLogs: refresh,
+  })
+  useWatchContractEvent({
+    address: deployment.sablierLockupLinear,
+    abi: SABLIER_ABI,
+    eventName: 'Transfer',
+    args: { to: address },
+    enabled: !!address,
+    onLogs: refresh,
+  })
+  useWatchContractEvent({
+    address: deployment.sablierLockupLinear,
+    abi: SABLIER_ABI,
+    eventName: 'Transfer',
+    args: { from: address },
+    enabled: !!address,
+    onLogs: refresh,
+  })
 
   return {
-    streams: mockStreams,
-    isLoading: false,
-    error: null,
+    streams: address ? data ?? [] : [],
+    isLoading,
+    error,
   }
 }
-
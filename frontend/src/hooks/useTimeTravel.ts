@@ -0,0 +1,38 @@
+import { useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { createTestClient, http } from 'viem'
+import { LOCAL_CHAIN } from '../deployments'
+
+// Anvil cheat RPCs. Only ever pointed at the local node: the panel using this is dev-only.
+const testClient = createTestClient({ chain: LOCAL_CHAIN, mode: 'anvil', transport: http() })
+
+export function useTimeTravel() {
+  const queryClient = useQueryClient()
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  const travel = async (move: () => Promise<unknown>) => {
+    setIsPending(true)
+    setError(null)
+    try {
+      await move()
+      // A new block makes the new timestamp visible to reads; every query then refetches against it
+      await testClient.mine({ blocks: 1 })
+      await queryClient.invalidateQueries()
+    } catch (err) {
+      setError(err as Error)
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  return {
+    // evm_increaseTime
+    increaseTime: (seconds: number) => travel(() => testClient.increaseTime({ seconds })),
+    // Next block lands exactly at `timestamp`, which must be in the chain's future
+    warpTo: (timestamp: number) =>
+      travel(() => testClient.setNextBlockTimestamp({ timestamp: BigInt(timestamp) })),
+    isPending,
+    error,
+  }
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react'
+import { useAccount, usePublicClient } from 'wagmi'
+import { TransactionReceipt } from 'viem'
+import { useToast } from '../components/Toast'
+import { toUserError } from '../lib/errors'
+
+export type TxStatus = 'idle' | 'signing' | 'pending' | 'confirmed' | 'reverted' | 'replaced' | 'failed'
+
+// Runs any follow-up (cache invalidation etc.) and may return the success toast message
+type OnConfirmed = (receipt: TransactionReceipt) => string | void
+
+// Tracks one transaction at a time from signature to receipt, reporting each state as a toast.
+// `label` names the action in toasts, e.g. "Deposit"; multi-step flows can override it per send.
+export function useTransaction(label: string) {
+  const { chain } = useAccount()
+  const publicClient = usePublicClient()
+  const { showToast } = useToast()
+  const [status, setStatus] = useState<TxStatus>('idle')
+  const [hash, setHash] = useState<`0x${string}` | undefined>()
+  const [receipt, setReceipt] = useState<TransactionReceipt | undefined>()
+  const [error, setError] = useState<Error | null>(null)
+
+  const explorerLink = (txHash: `0x${string}`) => {
+    const explorer = chain?.blockExplorers?.default
+    return explorer ? { href: `${explorer.url}/tx/${txHash}`, label: `View on ${explorer.name}` } : undefined
+  }
+
+  // Also for failures before `send`, such as the reads that decide what to send
+  const fail = (err: unknown) => {
+    setStatus('failed')
+    setError(err as Error)
+    const { title, message, fix } = toUserError(err)
+    showToast(`${title}: ${fix ?? message}`, 'error')
+  }
+
+  // `write` simulates and sends the transaction and resolves with its hash, so reverts
+  // surface here with their reason before anything is signed
+  const send = async (write: () => Promise<`0x${string}`>, onConfirmed?: OnConfirmed, stepLabel = label) => {
+    setStatus('signing')
+    setError(null)
+    setReceipt(undefined)
+
+    let txHash: `0x${string}`
+    try {
+      txHash = await write()
+    } catch (err) {
+      fail(err)
+      throw err
+    }
+
+    setHash(txHash)
+    setStatus('pending')
+    showToast(`${stepLabel} submitted`, 'info', explorerLink(txHash))
+
+    let cancelled = false
+    let result: TransactionReceipt
+    try {
+      result = await publicClient!.waitForTransactionReceipt({
+        hash: txHash,
+        onReplaced: (replacement) => {
+          setHash(replacement.transaction.hash)
+          if (replacement.reason === 'repriced') {
+            showToast(`${stepLabel} sped up`, 'info', explorerLink(replacement.transaction.hash))
+          } else {
+            cancelled = true
+            showToast(
+              `${stepLabel} was ${replacement.reason} in your wallet`,
+              'error',
+              explorerLink(replacement.transaction.hash)
+            )
+          }
+        },
+      })
+    } catch (err) {
+      fail(err)
+      throw err
+    }
+    setReceipt(result)
+
+    if (cancelled) {
+      setStatus('replaced')
+    } else if (result.status === 'reverted') {
+      setStatus('reverted')
+      showToast(`${stepLabel} reverted`, 'error', explorerLink(result.transactionHash))
+    } else {
+      setStatus('confirmed')
+      const message = onConfirmed?.(result)
+      showToast(message || `${stepLabel} confirmed`, 'success', explorerLink(result.transactionHash))
+    }
+    return result
+  }
+
+  const reset = () => {
+    setStatus('idle')
+    setHash(undefined)
+    setReceipt(undefined)
+    setError(null)
+  }
+
+  return {
+    send,
+    fail,
+    reset,
+    status,
+    hash,
+    receipt,
+    error,
+    isLoading: status === 'signing' || status === 'pending',
+    isSuccess: status === 'confirmed',
+  }
+}
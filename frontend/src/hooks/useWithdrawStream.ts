@@ -0,0 +1,91 @@
+import { useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { useAccount, usePublicClient, useWriteContract } from 'wagmi'
+import { prepareWithdraw, prepareWithdrawMultiple, readWithdrawable } from '../sdk'
+import { useTransaction } from './useTransaction'
+import { useDeployment } from './useDeployment'
+
+export function useWithdrawStream() {
+  const { deployment } = useDeployment()
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const queryClient = useQueryClient()
+  const [pendingIds, setPendingIds] = useState<bigint[]>([])
+
+  const { writeContractAsync } = useWriteContract()
+  const tx = useTransaction('Withdraw')
+
+  // Refresh stream amounts and balances once the withdrawal lands
+  const onConfirmed = () => {
+    queryClient.invalidateQueries({ queryKey: ['streams'] })
+    queryClient.invalidateQueries({ queryKey: ['balances'] })
+  }
+
+  // Failed reads are reported like failed sends, in `error` and a toast
+  const beforeSend = async <T>(read: () => Promise<T>) => {
+    try {
+      return await read()
+    } catch (err) {
+      tx.fail(err)
+      throw err
+    }
+  }
+
+  const withdraw = async (streamId: bigint) => {
+    if (!address || !publicClient) return
+    try {
+      const [stream] = await beforeSend(() => readWithdrawable(publicClient, deployment, [streamId]))
+      if (!stream) return
+      setPendingIds([streamId])
+      await tx.send(
+        async () => writeContractAsync(await prepareWithdraw(publicClient, deployment, address, stream)),
+        onConfirmed
+      )
+    } catch {
+      // Already reported through beforeSend or tx.send
+    } finally {
+      setPendingIds([])
+    }
+  }
+
+  const withdrawAll = async (streamIds: bigint[]) => {
+    if (!address || !publicClient) return
+    try {
+      const streams = await beforeSend(() => readWithdrawable(publicClient, deployment, streamIds))
+      if (streams.length === 0) return
+      setPendingIds(streams.map((s) => s.id))
+
+      if (streams.length > 1) {
+        // Batch through withdrawMultiple when this Sablier deployment supports it
+        const batch = await beforeSend(() => prepareWithdrawMultiple(publicClient, deployment, address, streams))
+        if (batch) {
+          await tx.send(() => writeContractAsync(batch), onConfirmed)
+          return
+        }
+      }
+
+      // Otherwise one transaction per stream
+      for (const stream of streams) {
+        await tx.send(
+          async () => writeContractAsync(await prepareWithdraw(publicClient, deployment, address, stream)),
+          onConfirmed
+        )
+      }
+    } catch {
+      // Already reported through beforeSend or tx.send
+    } finally {
+      setPendingIds([])
+    }
+  }
+
+  return {
+    withdraw,
+    withdrawAll,
+    pendingIds,
+    status: tx.status,
+    isLoading: tx.isLoading,
+    isSuccess: tx.isSuccess,
+    error: tx.error,
+    txHash: tx.hash,
+  }
+}
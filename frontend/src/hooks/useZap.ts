@@ -0,0 +1,66 @@
+import { useEffect } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAccount, useBlockNumber, usePublicClient } from 'wagmi'
+import { TransactionReceipt } from 'viem'
+import { buildZapCalls, ZapQuote } from '../lib/zap'
+import { describeDeposit } from './useDeposit'
+import { Market } from './useMarkets'
+import { useCallFlow } from './useCallFlow'
+import { useDeployment } from './useDeployment'
+
+// Buys PT through the Pendle router and deposits it, batched where the wallet allows
+export function useZap(market: Market | null, quote: ZapQuote | null, minToUser: bigint | undefined) {
+  const { chainId, deployment } = useDeployment()
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const queryClient = useQueryClient()
+  const flow = useCallFlow('Deposit')
+
+  const contracts = { ovfl: deployment.ovfl, router: deployment.pendleRouter, routerStatic: deployment.pendleRouterStatic }
+  const enabled = !!publicClient && !!address && !!market && !!quote && minToUser !== undefined
+
+  // The steps still needed, which shrink as approvals land
+  const { data: planned, refetch } = useQuery({
+    queryKey: [
+      'zapCalls',
+      chainId,
+      address,
+      market?.address,
+      quote?.source,
+      quote?.amountIn.toString(),
+      quote?.minPtOut.toString(),
+      minToUser?.toString(),
+    ],
+    enabled,
+    retry: false,
+    queryFn: () => buildZapCalls(publicClient!, contracts, address!, market!, quote!, minToUser!),
+  })
+
+  const { data: blockNumber } = useBlockNumber({ watch: true })
+  useEffect(() => {
+    if (enabled && !flow.running) refetch()
+  }, [blockNumber, enabled, flow.running, refetch])
+
+  const onDeposited = (receipt: TransactionReceipt) => {
+    queryClient.invalidateQueries({ queryKey: ['balances'] })
+    queryClient.invalidateQueries({ queryKey: ['streams'] })
+    return describeDeposit(receipt, market!)
+  }
+
+  const zap = async () => {
+    if (!planned || !market) return
+    await flow.run(planned, onDeposited)
+  }
+
+  return {
+    zap,
+    canBatch: flow.canBatch,
+    steps: (flow.running ?? planned ?? []).map((call) => call.label),
+    currentStep: flow.currentStep,
+    status: flow.status,
+    isLoading: flow.isLoading,
+    isSuccess: flow.isSuccess,
+    isReady: !!planned,
+    error: flow.error,
+  }
+}
@@ -0,0 +1,42 @@
+import { useEffect } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useBlockNumber, usePublicClient } from 'wagmi'
+import { quoteZap, ZapSource } from '../lib/zap'
+import { Market } from './useMarkets'
+import { useDeployment } from './useDeployment'
+
+export type { ZapQuote, ZapSource } from '../lib/zap'
+
+// Quotes buying PT with the underlying or SY and depositing it, per block
+export function useZapQuote(market: Market | null, source: ZapSource, amountIn: bigint | null, slippageBps: number) {
+  const { chainId, deployment } = useDeployment()
+  const publicClient = usePublicClient()
+  const enabled = !!publicClient && !!market && !!amountIn && amountIn > 0n
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['zapQuote', chainId, market?.address, source, amountIn?.toString(), slippageBps],
+    enabled,
+    retry: false,
+    queryFn: () =>
+      quoteZap(
+        publicClient!,
+        { ovfl: deployment.ovfl, router: deployment.pendleRouter, routerStatic: deployment.pendleRouterStatic },
+        market!,
+        source,
+        amountIn!,
+        slippageBps
+      ),
+  })
+
+  // Both the pool price and the TWAP behind the deposit split move every block
+  const { data: blockNumber } = useBlockNumber({ watch: true })
+  useEffect(() => {
+    if (enabled) refetch()
+  }, [blockNumber, enabled, refetch])
+
+  return {
+    quote: data ?? null,
+    isLoading: isLoading && enabled,
+    error,
+  }
+}
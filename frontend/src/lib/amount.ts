@@ -0,0 +1,42 @@
+import { formatUnits, parseUnits } from 'viem'
+import { Token } from './markets'
+
+const DECIMAL_INPUT = /^(\d+\.?\d*|\.\d+)$/
+
+// Strictly parses user input into base units. Returns null for anything that is not a plain
+// non-negative decimal with at most `decimals` fraction digits (no exponents, signs or spaces).
+export function parseAmount(input: string, decimals: number): bigint | null {
+  if (!DECIMAL_INPUT.test(input)) return null
+  const fraction = input.split('.')[1] ?? ''
+  if (fraction.length > decimals) return null
+  return parseUnits(input, decimals)
+}
+
+// Whether a partially typed value can still become valid input, e.g. "1." or ".".
+export function isAmountInput(input: string, decimals: number): boolean {
+  if (input === '' || input === '.') return true
+  if (!/^\d*\.?\d*$/.test(input)) return false
+  return (input.split('.')[1] ?? '').length <= decimals
+}
+
+// Formats base units for display, truncating (never rounding up) to `maxDecimals`
+// fraction digits so displayed balances are always spendable.
+export function formatAmount(value: bigint, decimals: number, maxDecimals = 4): string {
+  const [whole, fraction = ''] = formatUnits(value, decimals).split('.')
+  const trimmed = fraction.slice(0, maxDecimals).replace(/0+$/, '')
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',')
+  if (trimmed) return `${grouped}.${trimmed}`
+  return value > 0n && whole === '0' && fraction ? `<0.${'0'.repeat(maxDecimals - 1)}1` : grouped
+}
+
+export function formatTokenAmount(value: bigint, token: Token, maxDecimals = 4): string {
+  return `${formatAmount(value, token.decimals, maxDecimals)} ${token.symbol}`
+}
+
+// Formats a 1e18-scaled ratio as a percentage, e.g. 0.95e18 -> "95.00"
+export function formatRate(rateE18: bigint, fractionDigits = 2): string {
+  const scaled = (rateE18 * 100n * 10n ** BigInt(fractionDigits)) / 10n ** 18n
+  const whole = scaled / 10n ** BigInt(fractionDigits)
+  const fraction = (scaled % 10n ** BigInt(fractionDigits)).toString().padStart(fractionDigits, '0')
+  return fractionDigits > 0 ? `${whole}.${fraction}` : whole.toString()
+}
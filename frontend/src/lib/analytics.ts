@@ -0,0 +1,135 @@
+import { ProtocolEvent } from './indexer'
+import { Market } from './markets'
+
+const WAD = 10n ** 18n
+const DAY = 86_400
+
+export interface MarketActivity {
+  depositCount: number
+  claimCount: number
+  deposited: bigint
+  claimed: bigint
+  swept: bigint
+  streamed: bigint
+  // Streamed ovflTokens not yet vested, assuming every stream runs linearly to expiry
+  outstandingStream: bigint
+  // PT-weighted average of the rate deposits were made at, null before the first deposit
+  avgRateE18: bigint | null
+}
+
+export interface DailyActivity {
+  // Start of the UTC day, in seconds
+  day: number
+  deposits: number
+  deposited: bigint
+  claimed: bigint
+}
+
+const dayOf = (timestamp: number) => Math.floor(timestamp / DAY) * DAY
+
+const emptyActivity = (): MarketActivity => ({
+  depositCount: 0,
+  claimCount: 0,
+  deposited: 0n,
+  claimed: 0n,
+  swept: 0n,
+  streamed: 0n,
+  outstandingStream: 0n,
+  avgRateE18: null,
+})
+
+// Rolls the event log up per market. `now` is in seconds.
+export function summarizeMarkets(events: ProtocolEvent[], markets: Market[], now: number) {
+  const byAddress = new Map(markets.map((market) => [market.address, market]))
+  const byPt = new Map(markets.map((market) => [market.pt.address, market]))
+  const activity: Record<string, MarketActivity> = Object.fromEntries(
+    markets.map((market) => [market.address, emptyActivity()])
+  )
+  const toUserTotals: Record<string, bigint> = {}
+
+  for (const event of events) {
+    if (event.kind === 'deposit') {
+      const market = byAddress.get(event.market)
+      if (!market) continue
+      const stats = activity[market.address]
+      stats.depositCount++
+      stats.deposited += event.ptAmount
+      stats.streamed += event.toStream
+      toUserTotals[market.address] = (toUserTotals[market.address] ?? 0n) + event.toUser
+      if (now < market.expiry && event.timestamp < market.expiry) {
+        stats.outstandingStream +=
+          (event.toStream * BigInt(market.expiry - now)) / BigInt(market.expiry - event.timestamp)
+      }
+    } else if (event.kind === 'claim') {
+      const stats = activity[event.market]
+      if (!stats) continue
+      stats.claimCount++
+      stats.claimed += event.amount
+    } else if (event.kind === 'sweep') {
+      const market = byPt.get(event.ptToken)
+      if (market) activity[market.address].swept += event.amount
+    }
+  }
+
+  for (const market of markets) {
+    const stats = activity[market.address]
+    if (stats.deposited > 0n) stats.avgRateE18 = (toUserTotals[market.address] * WAD) / stats.deposited
+  }
+
+  return activity
+}
+
+// Treasury fees keyed by the underlying they were paid in
+export function feesByToken(events: ProtocolEvent[]) {
+  const fees: Record<string, bigint> = {}
+  for (const event of events) {
+    if (event.kind === 'fee') fees[event.token] = (fees[event.token] ?? 0n) + event.amount
+  }
+  return fees
+}
+
+// One entry per UTC day from the market's first event to today, including quiet days
+export function dailyActivity(events: ProtocolEvent[], market: `0x${string}`, now: number): DailyActivity[] {
+  const days = new Map<number, DailyActivity>()
+  const bucket = (timestamp: number) => {
+    const day = dayOf(timestamp)
+    if (!days.has(day)) days.set(day, { day, deposits: 0, deposited: 0n, claimed: 0n })
+    return days.get(day)!
+  }
+
+  for (const event of events) {
+    if (event.kind === 'deposit' && event.market === market) {
+      const entry = bucket(event.timestamp)
+      entry.deposits++
+      entry.deposited += event.ptAmount
+    } else if (event.kind === 'claim' && event.market === market) {
+      bucket(event.timestamp).claimed += event.amount
+    }
+  }
+
+  if (days.size === 0) return []
+  const first = Math.min(...days.keys())
+  const series: DailyActivity[] = []
+  for (let day = first; day <= dayOf(now); day += DAY) {
+    series.push(days.get(day) ?? { day, deposits: 0, deposited: 0n, claimed: 0n })
+  }
+  return series
+}
+
+// Fees paid in `token` per UTC day, over the same span as dailyActivity
+export function dailyFees(events: ProtocolEvent[], token: `0x${string}`, now: number) {
+  const days = new Map<number, bigint>()
+  for (const event of events) {
+    if (event.kind !== 'fee' || event.token !== token) continue
+    const day = dayOf(event.timestamp)
+    days.set(day, (days.get(day) ?? 0n) + event.amount)
+  }
+
+  if (days.size === 0) return []
+  const first = Math.min(...days.keys())
+  const series: { day: number; fees: bigint }[] = []
+  for (let day = first; day <= dayOf(now); day += DAY) {
+    series.push({ day, fees: days.get(day) ?? 0n })
+  }
+  return series
+}
@@ -0,0 +1,80 @@
+import { PublicClient } from 'viem'
+import { ERC20_ABI, OVFL_ABI } from '../abi/ovfl'
+import { Market, Token } from './markets'
+
+export interface SeriesBacking {
+  market: Market
+  // PT held by OVFL (claimablePt)
+  ptBalance: bigint
+  // PT OVFL owes for this series (marketTotalDeposited)
+  accounted: bigint
+  // PT above what is owed, removable with sweepExcessPt
+  excess: bigint
+  deficit: bigint
+}
+
+export interface TokenBacking {
+  ovfl: Token
+  supply: bigint
+  // PT held across every series minting this ovflToken
+  ptBalance: bigint
+  // ptBalance / supply in basis points, null while nothing is minted
+  ratioBps: number | null
+  deficit: bigint
+  series: SeriesBacking[]
+}
+
+// Compares each ovflToken's supply with the PT backing it. ovflTokens are shared by every market
+// with the same underlying, so supply is checked against the PT of all those series combined,
+// and each series is also checked against its own marketTotalDeposited. Reads the latest block
+// unless `blockNumber` is given.
+export async function checkBacking(
+  client: PublicClient,
+  ovfl: `0x${string}`,
+  markets: Market[],
+  blockNumber?: bigint
+): Promise<TokenBacking[]> {
+  if (markets.length === 0) return []
+  const ovflTokens = [...new Map(markets.map((market) => [market.ovfl.address, market.ovfl])).values()]
+
+  const results = await client.multicall({
+    allowFailure: false,
+    blockNumber,
+    contracts: [
+      ...markets.flatMap((market) => [
+        { address: ovfl, abi: OVFL_ABI, functionName: 'claimablePt', args: [market.pt.address] } as const,
+        { address: ovfl, abi: OVFL_ABI, functionName: 'marketTotalDeposited', args: [market.address] } as const,
+      ]),
+      ...ovflTokens.map((token) => ({ address: token.address, abi: ERC20_ABI, functionName: 'totalSupply' }) as const),
+    ],
+  })
+
+  const series: SeriesBacking[] = markets.map((market, i) => {
+    const ptBalance = results[i * 2]
+    const accounted = results[i * 2 + 1]
+    return {
+      market,
+      ptBalance,
+      accounted,
+      excess: ptBalance > accounted ? ptBalance - accounted : 0n,
+      deficit: accounted > ptBalance ? accounted - ptBalance : 0n,
+    }
+  })
+
+  return ovflTokens.map((token, i) => {
+    const supply = results[markets.length * 2 + i]
+    const tokenSeries = series.filter((s) => s.market.ovfl.address === token.address)
+    const ptBalance = tokenSeries.reduce((sum, s) => sum + s.ptBalance, 0n)
+    return {
+      ovfl: token,
+      supply,
+      ptBalance,
+      ratioBps: supply > 0n ? Number((ptBalance * 10_000n) / supply) : null,
+      deficit: supply > ptBalance ? supply - ptBalance : 0n,
+      series: tokenSeries,
+    }
+  })
+}
+
+export const isFullyBacked = (backing: TokenBacking) =>
+  backing.deficit === 0n && backing.series.every((s) => s.deficit === 0n)
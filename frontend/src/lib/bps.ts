@@ -0,0 +1,3 @@
+// `amount` less `bps` basis points, rounded down: the lowest amount a quote may come in at under
+// `bps` of slippage
+export const applyBps = (amount: bigint, bps: number) => (amount * BigInt(10_000 - bps)) / 10_000n
@@ -0,0 +1,19 @@
+import { encodeFunctionData } from 'viem'
+import { ERC20_ABI } from '../abi/ovfl'
+import { Token } from './markets'
+
+// One step of a multi-transaction flow, pre-encoded so it can go to wallet_sendCalls or
+// eth_sendTransaction as is
+export interface Call {
+  label: string
+  to: `0x${string}`
+  data: `0x${string}`
+}
+
+export function approveCall(token: Token, spender: `0x${string}`, amount: bigint, label = `Approve ${token.symbol}`): Call {
+  return {
+    label,
+    to: token.address,
+    data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'approve', args: [spender, amount] }),
+  }
+}
@@ -0,0 +1,149 @@
+import { OvflErrorCode, toOvflError } from '../sdk/errors'
+
+export interface UserError {
+  title: string
+  message: string
+  fix?: string
+}
+
+// How each revert the SDK recognizes (REVERT_CODES) reads in the UI
+const REVERT_MESSAGES: Partial<Record<OvflErrorCode, UserError>> = {
+  SLIPPAGE: {
+    title: 'Price moved',
+    message: 'The PT rate dropped below your minimum before the deposit was mined.',
+    fix: 'Refresh the preview and try again, or increase your slippage tolerance.',
+  },
+  DEPOSIT_LIMIT: {
+    title: 'Market is full',
+    message: 'This deposit would take the market past its deposit limit.',
+    fix: 'Deposit a smaller amount or choose another market.',
+  },
+  BELOW_MIN_PT: {
+    title: 'Amount too small',
+    message: 'The deposit is below the minimum PT amount.',
+    fix: 'Increase the amount to at least the minimum deposit.',
+  },
+  MATURED: {
+    title: 'Market has matured',
+    message: 'Deposits close once the PT reaches maturity.',
+    fix: 'Claim your PT from the Claim tab instead.',
+  },
+  NOT_MATURED: {
+    title: 'Not yet matured',
+    message: 'ovflTokens can only be claimed for PT after the market matures.',
+    fix: 'Wait until the maturity date shown for this market.',
+  },
+  INSUFFICIENT_RESERVES: {
+    title: 'Not enough PT in the vault',
+    message: 'The vault holds less PT than you are trying to claim.',
+    fix: 'Claim a smaller amount.',
+  },
+  NOTHING_TO_STREAM: {
+    title: 'Nothing to stream',
+    message: 'At the current rate this deposit has no discount left to stream.',
+    fix: 'Try again later or deposit a larger amount.',
+  },
+  MARKET_NOT_APPROVED: {
+    title: 'Market not available',
+    message: 'This market is not approved, so it takes no deposits or settings.',
+    fix: 'Choose another market.',
+  },
+  UNKNOWN_PT: {
+    title: 'Unknown PT',
+    message: 'This PT token does not belong to any OVFL market.',
+  },
+  ZERO_AMOUNT: {
+    title: 'Amount is zero',
+    message: 'Enter an amount greater than zero.',
+  },
+  UNDERLYING_NOT_APPROVED: {
+    title: 'Underlying not approved',
+    message: 'Markets can only be queued for an approved underlying.',
+    fix: 'Approve the underlying first.',
+  },
+  ALREADY_APPROVED: {
+    title: 'Already approved',
+    message: 'This underlying or market is already approved.',
+  },
+  ALREADY_QUEUED: {
+    title: 'Already queued',
+    message: 'This market is already waiting in the timelock.',
+  },
+  NOT_QUEUED: {
+    title: 'Not queued',
+    message: 'This market is not pending; it may have been executed or cancelled.',
+  },
+  TIMELOCK_NOT_PASSED: {
+    title: 'Timelock not passed',
+    message: 'The market cannot be executed before its eta.',
+    fix: 'Wait for the countdown to finish.',
+  },
+  ORACLE_CARDINALITY: {
+    title: 'Oracle not initialized',
+    message: 'The Pendle oracle needs more observation cardinality for this TWAP.',
+    fix: 'Increase the market observation cardinality, then wait for the TWAP window.',
+  },
+  ORACLE_NOT_READY: {
+    title: 'Oracle not ready',
+    message: 'The Pendle oracle does not yet have observations covering the TWAP window.',
+    fix: 'Wait for the TWAP window to fill, then execute again.',
+  },
+  INSUFFICIENT_ALLOWANCE: {
+    title: 'Approval missing',
+    message: 'OVFL is not approved to spend enough of your tokens.',
+    fix: 'Approve the PT and fee token, then try again.',
+  },
+  // Both a short PT or fee transfer on deposit and a short ovflToken burn on claim
+  INSUFFICIENT_BALANCE: {
+    title: 'Insufficient balance',
+    message: 'Your wallet does not hold enough tokens for this transaction.',
+    fix: 'Lower the amount. Deposits also need enough of the underlying to cover the fee.',
+  },
+}
+
+// Errors the SDK classifies outside of reverts, worded for the UI
+const ERROR_MESSAGES: Partial<Record<OvflErrorCode, UserError>> = {
+  USER_REJECTED: { title: 'Request rejected', message: 'You declined the request in your wallet.' },
+  INSUFFICIENT_FUNDS: {
+    title: 'Not enough ETH for gas',
+    message: 'Your wallet cannot pay the network fee for this transaction.',
+    fix: 'Add ETH to your wallet and try again.',
+  },
+  WRONG_NETWORK: {
+    title: 'Wrong network',
+    message: 'Your wallet is connected to a different network.',
+    fix: 'Switch networks in your wallet and try again.',
+  },
+  NETWORK: {
+    title: 'Network error',
+    message: 'The RPC node did not respond correctly.',
+    fix: 'Check your connection and try again in a moment.',
+  },
+  TX_REVERTED: {
+    title: 'Transaction reverted',
+    message: 'The transaction was mined but reverted.',
+    fix: 'Check the transaction in a block explorer, then try again.',
+  },
+  NOTHING_TO_WITHDRAW: {
+    title: 'Nothing to withdraw',
+    message: 'Nothing has vested in this stream since the last withdrawal.',
+    fix: 'Try again once more of the stream has vested.',
+  },
+  NO_ACCOUNT: {
+    title: 'No wallet connected',
+    message: 'Connect a wallet to send this transaction.',
+  },
+}
+
+// Maps wallet, RPC and contract errors to a message that can be shown to the user. The SDK's
+// toOvflError does the classifying; this only words each OvflError code.
+export function toUserError(err: unknown): UserError {
+  const error = toOvflError(err)
+  const known = REVERT_MESSAGES[error.code] ?? ERROR_MESSAGES[error.code]
+  if (known) return known
+
+  if (error.code === 'REVERTED') {
+    return { title: 'Transaction would fail', message: error.reason ?? 'The contract rejected this transaction.' }
+  }
+  return { title: 'Something went wrong', message: error.message }
+}
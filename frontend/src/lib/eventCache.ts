@@ -0,0 +1,73 @@
+// IndexedDB store for indexed event logs, so reloads only scan blocks added since the last visit.
+// Values go through structured clone, which keeps bigints intact.
+
+const DB_NAME = 'ovfl'
+const DB_VERSION = 1
+const STORE = 'events'
+
+export interface EventCacheEntry<T> {
+  key: string
+  // Last block the cached events were scanned up to
+  toBlock: bigint
+  events: T[]
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'key' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let a later call retry if the database could not be opened
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+function run<R>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+  return openDb().then(
+    (db) =>
+      new Promise<R>((resolve, reject) => {
+        const request = action(db.transaction(STORE, mode).objectStore(STORE))
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+  )
+}
+
+// A missing or unusable cache (private browsing, quota) just means a full re-scan
+export async function readEventCache<T>(key: string): Promise<EventCacheEntry<T> | undefined> {
+  if (typeof indexedDB === 'undefined') return undefined
+  try {
+    return await run<EventCacheEntry<T> | undefined>('readonly', (store) => store.get(key))
+  } catch (err) {
+    console.warn('Event cache read failed:', err)
+    return undefined
+  }
+}
+
+export async function writeEventCache<T>(entry: EventCacheEntry<T>): Promise<void> {
+  if (typeof indexedDB === 'undefined') return
+  try {
+    await run('readwrite', (store) => store.put(entry))
+  } catch (err) {
+    console.warn('Event cache write failed:', err)
+  }
+}
+
+export async function clearEventCache(key: string): Promise<void> {
+  if (typeof indexedDB === 'undefined') return
+  try {
+    await run('readwrite', (store) => store.delete(key))
+  } catch (err) {
+    console.warn('Event cache clear failed:', err)
+  }
+}
@@ -0,0 +1,112 @@
+import { PublicClient } from 'viem'
+import { OVFL_ABI } from '../abi/ovfl'
+import { readEventCache, writeEventCache } from './eventCache'
+import { blockWindows, mapLimit } from './rpc'
+
+interface EventBase {
+  // `${transactionHash}:${logIndex}`, unique per log
+  id: string
+  blockNumber: bigint
+  timestamp: number
+  transactionHash: `0x${string}`
+}
+
+export type ProtocolEvent = EventBase &
+  (
+    | {
+        kind: 'deposit'
+        user: `0x${string}`
+        market: `0x${string}`
+        ptAmount: bigint
+        toUser: bigint
+        toStream: bigint
+        streamId: bigint
+      }
+    | {
+        kind: 'claim'
+        user: `0x${string}`
+        market: `0x${string}`
+        ptToken: `0x${string}`
+        amount: bigint
+      }
+    | { kind: 'fee'; payer: `0x${string}`; token: `0x${string}`; amount: bigint }
+    | { kind: 'sweep'; ptToken: `0x${string}`; to: `0x${string}`; amount: bigint }
+  )
+
+// Cached logs this close to the head are re-fetched on every sync in case of a reorg
+const REORG_DEPTH = 12n
+
+// getBlock calls in flight at once while timestamping a scan
+const BLOCK_CONCURRENCY = 8
+
+// Returns every Deposited, Claimed, FeeTaken and ExcessSwept event emitted by OVFL, oldest first.
+// Only blocks after the cached cursor are scanned.
+export async function syncProtocolEvents(
+  client: PublicClient,
+  chainId: number,
+  ovfl: `0x${string}`,
+  deployBlock: bigint
+): Promise<ProtocolEvent[]> {
+  const key = `protocol:${chainId}:${ovfl.toLowerCase()}`
+  const cached = await readEventCache<ProtocolEvent>(key)
+  const latest = await client.getBlockNumber()
+
+  const resumeFrom = cached ? cached.toBlock - REORG_DEPTH + 1n : deployBlock
+  const fromBlock = resumeFrom > deployBlock ? resumeFrom : deployBlock
+  const kept = (cached?.events ?? []).filter((event) => event.blockNumber < fromBlock)
+  if (fromBlock > latest) return kept
+
+  const logs = []
+  for (const window of blockWindows(fromBlock, latest)) {
+    logs.push(...(await client.getContractEvents({ address: ovfl, abi: OVFL_ABI, ...window })))
+  }
+
+  // Events are bucketed by day, so each block's timestamp is needed once
+  const blockNumbers = [...new Set(logs.map((log) => log.blockNumber))]
+  const blocks = await mapLimit(blockNumbers, BLOCK_CONCURRENCY, (blockNumber) => client.getBlock({ blockNumber }))
+  const timestamps = new Map(blocks.map((block) => [block.number, Number(block.timestamp)]))
+
+  const fresh: ProtocolEvent[] = []
+  for (const log of logs) {
+    const base: EventBase = {
+      id: `${log.transactionHash}:${log.logIndex}`,
+      blockNumber: log.blockNumber,
+      timestamp: timestamps.get(log.blockNumber)!,
+      transactionHash: log.transactionHash,
+    }
+    switch (log.eventName) {
+      case 'Deposited':
+        fresh.push({
+          ...base,
+          kind: 'deposit',
+          user: log.args.user!,
+          market: log.args.market!,
+          ptAmount: log.args.ptAmount!,
+          toUser: log.args.toUser!,
+          toStream: log.args.toStream!,
+          streamId: log.args.streamId!,
+        })
+        break
+      case 'Claimed':
+        fresh.push({
+          ...base,
+          kind: 'claim',
+          user: log.args.user!,
+          market: log.args.market!,
+          ptToken: log.args.ptToken!,
+          amount: log.args.burnedAmount!,
+        })
+        break
+      case 'FeeTaken':
+        fresh.push({ ...base, kind: 'fee', payer: log.args.payer!, token: log.args.token!, amount: log.args.amount! })
+        break
+      case 'ExcessSwept':
+        fresh.push({ ...base, kind: 'sweep', ptToken: log.args.ptToken!, to: log.args.to!, amount: log.args.amount! })
+        break
+    }
+  }
+
+  const events = [...kept, ...fresh]
+  await writeEventCache({ key, toBlock: latest, events })
+  return events
+}
@@ -0,0 +1,122 @@
+import { PublicClient } from 'viem'
+import { ADMIN_ABI } from '../abi/admin'
+import { ERC20_ABI, OVFL_ABI } from '../abi/ovfl'
+import { PENDLE_MARKET_ABI } from '../abi/pendle'
+import { blockWindows } from './rpc'
+
+export interface Token {
+  address: `0x${string}`
+  symbol: string
+  decimals: number
+}
+
+export interface Market {
+  address: `0x${string}`
+  name: string
+  expiry: number
+  feeBps: number
+  twapDuration: number
+  pt: Token
+  ovfl: Token
+  underlying: Token
+  // The market's SY, which deposits from the underlying can also start from
+  sy: Token
+  // The market's YT, which Pendle's router redeems matured PT through
+  yt: `0x${string}`
+}
+
+export interface MarketContracts {
+  ovfl: `0x${string}`
+  admin: `0x${string}`
+  // Admin deployment block, where the MarketApproved scan starts
+  fromBlock: bigint
+}
+
+// Loads every market the Admin contract has approved, with token metadata, sorted by expiry
+export async function fetchMarkets(client: PublicClient, contracts: MarketContracts): Promise<Market[]> {
+  // Every market the Admin contract has ever approved
+  const latest = await client.getBlockNumber()
+  const logs = []
+  for (const window of blockWindows(contracts.fromBlock, latest)) {
+    const page = await client.getContractEvents({
+      address: contracts.admin,
+      abi: ADMIN_ABI,
+      eventName: 'MarketApproved',
+      ...window,
+    })
+    logs.push(...page)
+  }
+  const marketAddresses = [...new Set(logs.map((log) => log.args.market!))]
+  if (marketAddresses.length === 0) return []
+
+  const seriesResults = await client.multicall({
+    allowFailure: false,
+    contracts: marketAddresses.map((market) => ({
+      address: contracts.ovfl,
+      abi: OVFL_ABI,
+      functionName: 'series',
+      args: [market],
+    }) as const),
+  })
+
+  const approved = seriesResults
+    .map((s, i) => ({
+      address: marketAddresses[i],
+      approved: s[0],
+      twapDuration: s[1],
+      feeBps: s[2],
+      expiry: Number(s[3]),
+      ptToken: s[4],
+      ovflToken: s[5],
+      underlying: s[6],
+    }))
+    .filter((s) => s.approved)
+
+  // A market whose readTokens fails is left out rather than failing the whole list
+  const pendleTokens = await client.multicall({
+    contracts: approved.map(
+      (s) => ({ address: s.address, abi: PENDLE_MARKET_ABI, functionName: 'readTokens' }) as const
+    ),
+  })
+  const series = approved.flatMap((s, i) => {
+    const result = pendleTokens[i]
+    return result.status === 'success' ? [{ ...s, sy: result.result[0], yt: result.result[2] }] : []
+  })
+
+  // Token metadata, deduplicated since many markets share an ovflToken and underlying
+  const tokenAddresses = [
+    ...new Set(series.flatMap((s) => [s.ptToken, s.ovflToken, s.underlying, s.sy])),
+  ]
+  const tokenResults = await client.multicall({
+    contracts: tokenAddresses.flatMap((token) => [
+      { address: token, abi: ERC20_ABI, functionName: 'symbol' } as const,
+      { address: token, abi: ERC20_ABI, functionName: 'decimals' } as const,
+    ]),
+  })
+
+  const tokens = new Map<string, Token>()
+  tokenAddresses.forEach((token, i) => {
+    const symbol = tokenResults[i * 2]
+    const decimals = tokenResults[i * 2 + 1]
+    tokens.set(token, {
+      address: token,
+      symbol: symbol.status === 'success' ? (symbol.result as string) : `${token.slice(0, 6)}…`,
+      decimals: decimals.status === 'success' ? Number(decimals.result) : 18,
+    })
+  })
+
+  return series
+    .map((s) => ({
+      address: s.address,
+      name: tokens.get(s.ptToken)!.symbol,
+      expiry: s.expiry,
+      feeBps: s.feeBps,
+      twapDuration: s.twapDuration,
+      pt: tokens.get(s.ptToken)!,
+      ovfl: tokens.get(s.ovflToken)!,
+      underlying: tokens.get(s.underlying)!,
+      sy: tokens.get(s.sy)!,
+      yt: s.yt,
+    }))
+    .sort((a, b) => a.expiry - b.expiry)
+}
@@ -0,0 +1,39 @@
+import { maxUint256, zeroAddress } from 'viem'
+
+// Struct arguments for the Pendle router. Tokens always go straight in and out of the SY, so
+// no aggregator swap and no limit orders are involved.
+
+// Default on-chain approximation from Pendle's router docs, seeded with the off-chain quote
+export const approxParams = (guessOffchain: bigint) => ({
+  guessMin: 0n,
+  guessMax: maxUint256,
+  guessOffchain,
+  maxIteration: 256n,
+  eps: 10n ** 14n,
+})
+
+const EMPTY_SWAP = { swapType: 0, extRouter: zeroAddress, extCalldata: '0x', needScale: false } as const
+
+export const EMPTY_LIMIT = {
+  limitRouter: zeroAddress,
+  epsSkipMarket: 0n,
+  normalFills: [],
+  flashFills: [],
+  optData: '0x',
+} as const
+
+export const tokenInput = (token: `0x${string}`, amount: bigint) => ({
+  tokenIn: token,
+  netTokenIn: amount,
+  tokenMintSy: token,
+  pendleSwap: zeroAddress,
+  swapData: EMPTY_SWAP,
+})
+
+export const tokenOutput = (token: `0x${string}`, minTokenOut: bigint) => ({
+  tokenOut: token,
+  minTokenOut,
+  tokenRedeemSy: token,
+  pendleSwap: zeroAddress,
+  swapData: EMPTY_SWAP,
+})
@@ -0,0 +1,165 @@
+import { PublicClient } from 'viem'
+import { ERC20_ABI, OVFL_ABI } from '../abi/ovfl'
+import { Market, Token } from './markets'
+
+const DAY = 86_400
+
+// The parts of a Sablier stream the portfolio reads; useStreams' Stream satisfies it
+export interface VestingStream {
+  asset: Token
+  deposited: bigint
+  withdrawn: bigint
+  startTime: number
+  endTime: number
+}
+
+export interface SeriesHoldings {
+  // The wallet's ovflToken balance, shared by every series minting the same ovflToken
+  ovflBalance: bigint
+  // PT held by OVFL (claimablePt) and PT it owes this series (marketTotalDeposited)
+  ptReserve: bigint
+  outstanding: bigint
+}
+
+export interface SeriesPosition<S extends VestingStream = VestingStream> {
+  market: Market
+  ovflBalance: bigint
+  // Streams opened on this series that still hold tokens
+  streams: S[]
+  withdrawable: bigint
+  // Still locked in those streams
+  vesting: bigint
+  // What claim() would pay out now; zero until expiryCached passes
+  claimablePt: bigint
+  daysLeft: number
+  isMatured: boolean
+}
+
+export interface UnderlyingTotals {
+  underlying: Token
+  ovfl: Token
+  ovflBalance: bigint
+  withdrawable: bigint
+  vesting: bigint
+  claimablePt: bigint
+}
+
+export interface Portfolio<S extends VestingStream = VestingStream> {
+  positions: SeriesPosition<S>[]
+  totals: UnderlyingTotals[]
+}
+
+// Linear vesting with no cliff, which is how OVFL creates every stream
+export function withdrawableAt(stream: VestingStream, now: number): bigint {
+  if (now >= stream.endTime) return stream.deposited - stream.withdrawn
+  if (now <= stream.startTime) return 0n
+  const streamed =
+    (stream.deposited * BigInt(now - stream.startTime)) / BigInt(stream.endTime - stream.startTime)
+  return streamed > stream.withdrawn ? streamed - stream.withdrawn : 0n
+}
+
+// Whole days until `expiry`, rounded up so a series maturing later today still shows 1
+export const daysLeft = (expiry: number, now: number) => Math.max(0, Math.ceil((expiry - now) / DAY))
+
+// Reads the wallet's ovflToken balances and each series' PT reserves, keyed by market address
+export async function fetchHoldings(
+  client: PublicClient,
+  ovfl: `0x${string}`,
+  account: `0x${string}`,
+  markets: Market[]
+): Promise<Map<string, SeriesHoldings>> {
+  if (markets.length === 0) return new Map()
+  const ovflTokens = [...new Set(markets.map((market) => market.ovfl.address))]
+
+  const results = await client.multicall({
+    allowFailure: false,
+    contracts: [
+      ...markets.flatMap((market) => [
+        { address: ovfl, abi: OVFL_ABI, functionName: 'claimablePt', args: [market.pt.address] } as const,
+        { address: ovfl, abi: OVFL_ABI, functionName: 'marketTotalDeposited', args: [market.address] } as const,
+      ]),
+      ...ovflTokens.map((token) => ({ address: token, abi: ERC20_ABI, functionName: 'balanceOf', args: [account] }) as const),
+    ],
+  })
+
+  const balances = new Map(ovflTokens.map((token, i) => [token, results[markets.length * 2 + i]]))
+  return new Map(
+    markets.map((market, i) => [
+      market.address,
+      {
+        ovflBalance: balances.get(market.ovfl.address)!,
+        ptReserve: results[i * 2],
+        outstanding: results[i * 2 + 1],
+      },
+    ])
+  )
+}
+
+// Groups streams and holdings by series and totals them per underlying. OVFL streams vest until
+// the series' expiryCached, so a stream belongs to the series whose ovflToken it pays out and whose
+// expiry it ends at. A series shows up once the wallet holds its ovflToken or one of its streams.
+export function buildPortfolio<S extends VestingStream>(
+  markets: Market[],
+  holdings: Map<string, SeriesHoldings>,
+  streams: S[],
+  now: number
+): Portfolio<S> {
+  const positions = markets.flatMap((market): SeriesPosition<S>[] => {
+    const held = holdings.get(market.address)
+    if (!held) return []
+
+    const seriesStreams = streams.filter(
+      (s) =>
+        s.withdrawn < s.deposited &&
+        s.endTime === market.expiry &&
+        s.asset.address.toLowerCase() === market.ovfl.address.toLowerCase()
+    )
+    if (held.ovflBalance === 0n && seriesStreams.length === 0) return []
+
+    const withdrawable = seriesStreams.reduce((sum, s) => sum + withdrawableAt(s, now), 0n)
+    const remaining = seriesStreams.reduce((sum, s) => sum + s.deposited - s.withdrawn, 0n)
+
+    // claim() is bounded by the wallet's balance, the PT OVFL holds and what the series is owed
+    const isMatured = now >= market.expiry
+    const claimable = [held.ovflBalance, held.ptReserve, held.outstanding].reduce((a, b) => (a < b ? a : b))
+
+    return [
+      {
+        market,
+        ovflBalance: held.ovflBalance,
+        streams: seriesStreams,
+        withdrawable,
+        vesting: remaining - withdrawable,
+        claimablePt: isMatured ? claimable : 0n,
+        daysLeft: daysLeft(market.expiry, now),
+        isMatured,
+      },
+    ]
+  })
+
+  const totals = new Map<string, UnderlyingTotals>()
+  for (const position of positions) {
+    const { underlying, ovfl } = position.market
+    const total = totals.get(underlying.address) ?? {
+      underlying,
+      ovfl,
+      ovflBalance: position.ovflBalance,
+      withdrawable: 0n,
+      vesting: 0n,
+      claimablePt: 0n,
+    }
+    total.withdrawable += position.withdrawable
+    total.vesting += position.vesting
+    total.claimablePt += position.claimablePt
+    totals.set(underlying.address, total)
+  }
+
+  // Claims across series all burn the same balance, so the total can't exceed it
+  return {
+    positions,
+    totals: [...totals.values()].map((total) => ({
+      ...total,
+      claimablePt: total.claimablePt < total.ovflBalance ? total.claimablePt : total.ovflBalance,
+    })),
+  }
+}
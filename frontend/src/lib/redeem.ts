@@ -0,0 +1,64 @@
+import { encodeFunctionData, PublicClient } from 'viem'
+import { ERC20_ABI, OVFL_ABI } from '../abi/ovfl'
+import { PENDLE_ROUTER_ABI, PENDLE_ROUTER_STATIC_ABI } from '../abi/pendle'
+import { approveCall, Call } from './calls'
+import { Market } from './markets'
+import { tokenOutput } from './pendleRouter'
+
+export interface RedeemContracts {
+  ovfl: `0x${string}`
+  router: `0x${string}`
+  routerStatic: `0x${string}`
+}
+
+// Underlying Pendle pays out for `ptAmount` of matured PT, redeemed through the YT and SY
+export async function quoteRedeem(
+  client: PublicClient,
+  routerStatic: `0x${string}`,
+  market: Market,
+  ptAmount: bigint
+): Promise<bigint> {
+  return client.readContract({
+    address: routerStatic,
+    abi: PENDLE_ROUTER_STATIC_ABI,
+    functionName: 'redeemPyToTokenStatic',
+    args: [market.yt, ptAmount, market.underlying.address],
+  })
+}
+
+// Claims `amount` of ovflTokens and redeems the PT they pay out for the underlying. OVFL.claim
+// pays PT 1:1, so the redemption amount is known before the claim lands and both can be batched.
+// The router approval is exact and skipped when already in place.
+export async function buildClaimRedeemCalls(
+  client: PublicClient,
+  contracts: RedeemContracts,
+  account: `0x${string}`,
+  market: Market,
+  amount: bigint,
+  minTokenOut: bigint
+): Promise<Call[]> {
+  const allowance = await client.readContract({
+    address: market.pt.address,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: [account, contracts.router],
+  })
+
+  return [
+    {
+      label: 'Claim',
+      to: contracts.ovfl,
+      data: encodeFunctionData({ abi: OVFL_ABI, functionName: 'claim', args: [market.pt.address, amount] }),
+    },
+    ...(allowance < amount ? [approveCall(market.pt, contracts.router, amount)] : []),
+    {
+      label: `Redeem to ${market.underlying.symbol}`,
+      to: contracts.router,
+      data: encodeFunctionData({
+        abi: PENDLE_ROUTER_ABI,
+        functionName: 'redeemPyToToken',
+        args: [account, market.yt, amount, tokenOutput(market.underlying.address, minTokenOut)],
+      }),
+    },
+  ]
+}
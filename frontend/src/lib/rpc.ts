@@ -0,0 +1,30 @@
+// Many RPC providers reject eth_getLogs over more than 10k blocks, so wide scans go in windows
+export const LOG_WINDOW = 5_000n
+
+// Splits fromBlock..toBlock, both inclusive, into consecutive ranges of at most `size` blocks
+export function blockWindows(
+  fromBlock: bigint,
+  toBlock: bigint,
+  size = LOG_WINDOW
+): { fromBlock: bigint; toBlock: bigint }[] {
+  const windows: { fromBlock: bigint; toBlock: bigint }[] = []
+  for (let start = fromBlock; start <= toBlock; start += size) {
+    const end = start + size - 1n
+    windows.push({ fromBlock: start, toBlock: end < toBlock ? end : toBlock })
+  }
+  return windows
+}
+
+// Like Promise.all over items.map(fn), with no more than `limit` calls in flight at once
+export async function mapLimit<T, R>(items: readonly T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++
+      results[i] = await fn(items[i])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
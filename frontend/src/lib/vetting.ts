@@ -0,0 +1,69 @@
+import { PublicClient } from 'viem'
+import { ERC20_ABI } from '../abi/ovfl'
+import { PENDLE_MARKET_ABI, PENDLE_ORACLE_ABI, SY_ABI } from '../abi/pendle'
+
+export interface MarketVetting {
+  market: `0x${string}`
+  twapDuration: number
+  // Oracle state, mirroring Admin._checkOracleReady
+  increaseCardinalityRequired: boolean
+  cardinalityRequired: number
+  oldestObservationSatisfied: boolean
+  // True when executeAddMarket would pass the oracle check right now
+  oracleReady: boolean
+  expiry: number
+  isExpired: boolean
+  sy: `0x${string}`
+  pt: `0x${string}`
+  // The asset the SY wraps, which should match the underlying the market is queued with
+  syUnderlying: {
+    address: `0x${string}`
+    symbol: string
+    decimals: number
+  }
+}
+
+// Reads everything needed to decide whether a Pendle market can be queued and later executed.
+// queueAddMarket grows cardinality itself, but executeAddMarket reverts unless the oracle has
+// enough observations spanning the full TWAP window.
+export async function vetMarket(
+  client: PublicClient,
+  oracle: `0x${string}`,
+  market: `0x${string}`,
+  twapDuration: number
+): Promise<MarketVetting> {
+  const [[increaseCardinalityRequired, cardinalityRequired, oldestObservationSatisfied], expiry, [sy, pt]] =
+    await client.multicall({
+      allowFailure: false,
+      contracts: [
+        { address: oracle, abi: PENDLE_ORACLE_ABI, functionName: 'getOracleState', args: [market, twapDuration] },
+        { address: market, abi: PENDLE_MARKET_ABI, functionName: 'expiry' },
+        { address: market, abi: PENDLE_MARKET_ABI, functionName: 'readTokens' },
+      ],
+    })
+
+  const [, asset, assetDecimals] = await client.readContract({
+    address: sy,
+    abi: SY_ABI,
+    functionName: 'assetInfo',
+  })
+
+  // Some assets (e.g. native ETH as the zero address) have no symbol()
+  const symbol = await client
+    .readContract({ address: asset, abi: ERC20_ABI, functionName: 'symbol' })
+    .catch(() => 'Unknown')
+
+  return {
+    market,
+    twapDuration,
+    increaseCardinalityRequired,
+    cardinalityRequired,
+    oldestObservationSatisfied,
+    oracleReady: !increaseCardinalityRequired && oldestObservationSatisfied,
+    expiry: Number(expiry),
+    isExpired: Date.now() / 1000 >= Number(expiry),
+    sy,
+    pt,
+    syUnderlying: { address: asset, symbol, decimals: assetDecimals },
+  }
+}
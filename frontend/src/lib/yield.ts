@@ -0,0 +1,50 @@
+const YEAR = 365 * 86_400
+const DAY = 86_400
+
+export interface YieldQuote {
+  secondsToExpiry: number
+  // Fixed APY locked in by buying PT at this rate and holding it to maturity
+  impliedApy: number
+  // APY of the streamed discount after paying the deposit fee
+  effectiveApy: number
+  // APY given up to the fee, impliedApy - effectiveApy
+  feeDragApy: number
+  // ovflTokens vesting per day from the stream
+  streamedPerDay: bigint
+}
+
+const annualize = (growth: number, years: number) => (growth > 0 ? Math.pow(growth, 1 / years) - 1 : -1)
+
+// Yield of a deposit previewed at `rateE18`, compared with holding the PT to maturity.
+// Both end with one PT of face value per PT deposited: holding pays it at expiry, while OVFL
+// pays `rate` up front and streams the rest. The fee of feeBps on the up-front part is paid up
+// front too, so each PT of face value costs rate * (1 + fee).
+// Returns null once the market has matured. `now` is in seconds.
+export function quoteYield(
+  rateE18: bigint,
+  toStream: bigint,
+  feeBps: number,
+  expiry: number,
+  now: number
+): YieldQuote | null {
+  const secondsToExpiry = expiry - now
+  if (secondsToExpiry <= 0) return null
+
+  const years = secondsToExpiry / YEAR
+  const rate = Number(rateE18) / 1e18
+  const fee = feeBps / 10_000
+
+  // A rate at or above par leaves no discount to earn
+  const impliedApy = rate > 0 && rate < 1 ? annualize(1 / rate, years) : 0
+  const effectiveApy = rate > 0 && rate < 1 ? annualize(1 / (rate * (1 + fee)), years) : 0
+
+  return {
+    secondsToExpiry,
+    impliedApy,
+    effectiveApy,
+    feeDragApy: impliedApy - effectiveApy,
+    streamedPerDay: (toStream * BigInt(DAY)) / BigInt(secondsToExpiry),
+  }
+}
+
+export const formatApy = (apy: number) => `${(apy * 100).toFixed(2)}%`
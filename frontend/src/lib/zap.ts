@@ -0,0 +1,138 @@
+import { encodeFunctionData, PublicClient } from 'viem'
+import { ERC20_ABI, OVFL_ABI } from '../abi/ovfl'
+import { PENDLE_ROUTER_ABI, PENDLE_ROUTER_STATIC_ABI } from '../abi/pendle'
+import { approveCall, Call } from './calls'
+import { Market, Token } from './markets'
+import { feeApprovalAmount } from '../sdk/deposit'
+import { applyBps } from './bps'
+import { approxParams, EMPTY_LIMIT, tokenInput } from './pendleRouter'
+
+// What a deposit from underlying starts from: the SY's asset (e.g. stETH) or the SY itself
+export type ZapSource = 'underlying' | 'sy'
+
+export interface ZapContracts {
+  ovfl: `0x${string}`
+  router: `0x${string}`
+  routerStatic: `0x${string}`
+}
+
+export interface ZapQuote {
+  source: ZapSource
+  tokenIn: Token
+  amountIn: bigint
+  // PT the router expects to return, and the least it may return before reverting
+  ptOut: bigint
+  minPtOut: bigint
+  // 1e18 = 100%, as RouterStatic reports it
+  priceImpact: bigint
+  // OVFL's split of minPtOut, which is what gets deposited; any PT above it stays in the wallet
+  toUser: bigint
+  toStream: bigint
+  feeAmount: bigint
+  rateE18: bigint
+}
+
+export const zapToken = (market: Market, source: ZapSource) => (source === 'sy' ? market.sy : market.underlying)
+
+// Quotes buying PT with `amountIn` of the source token through RouterStatic, then previews the
+// deposit of the slippage-adjusted PT amount
+export async function quoteZap(
+  client: PublicClient,
+  contracts: ZapContracts,
+  market: Market,
+  source: ZapSource,
+  amountIn: bigint,
+  slippageBps: number
+): Promise<ZapQuote> {
+  const tokenIn = zapToken(market, source)
+
+  const [ptOut, priceImpact] =
+    source === 'sy'
+      ? await client
+          .readContract({
+            address: contracts.routerStatic,
+            abi: PENDLE_ROUTER_STATIC_ABI,
+            functionName: 'swapExactSyForPtStatic',
+            args: [market.address, amountIn],
+          })
+          .then(([netPtOut, , impact]) => [netPtOut, impact] as const)
+      : await client
+          .readContract({
+            address: contracts.routerStatic,
+            abi: PENDLE_ROUTER_STATIC_ABI,
+            functionName: 'swapExactTokenForPtStatic',
+            args: [market.address, tokenIn.address, amountIn],
+          })
+          .then(([netPtOut, , , impact]) => [netPtOut, impact] as const)
+
+  const minPtOut = applyBps(ptOut, slippageBps)
+  const [toUser, toStream, feeAmount, rateE18] = await client.readContract({
+    address: contracts.ovfl,
+    abi: OVFL_ABI,
+    functionName: 'previewDeposit',
+    args: [market.address, minPtOut],
+  })
+
+  return { source, tokenIn, amountIn, ptOut, minPtOut, priceImpact, toUser, toStream, feeAmount, rateE18 }
+}
+
+// The transactions that take `account` from the source token to an OVFL deposit, skipping
+// approvals that are already in place. Approvals are exact: the router gets amountIn, OVFL gets
+// minPtOut and the same fee cap useApprovals grants.
+export async function buildZapCalls(
+  client: PublicClient,
+  contracts: ZapContracts,
+  account: `0x${string}`,
+  market: Market,
+  quote: ZapQuote,
+  minToUser: bigint
+): Promise<Call[]> {
+  const feeApproval = feeApprovalAmount(market, quote.minPtOut, quote.feeAmount)
+
+  const [routerAllowance, ptAllowance, feeAllowance] = await client.multicall({
+    allowFailure: false,
+    contracts: [
+      { address: quote.tokenIn.address, abi: ERC20_ABI, functionName: 'allowance', args: [account, contracts.router] },
+      { address: market.pt.address, abi: ERC20_ABI, functionName: 'allowance', args: [account, contracts.ovfl] },
+      { address: market.underlying.address, abi: ERC20_ABI, functionName: 'allowance', args: [account, contracts.ovfl] },
+    ],
+  })
+
+  const swap =
+    quote.source === 'sy'
+      ? encodeFunctionData({
+          abi: PENDLE_ROUTER_ABI,
+          functionName: 'swapExactSyForPt',
+          args: [account, market.address, quote.amountIn, quote.minPtOut, approxParams(quote.ptOut), EMPTY_LIMIT],
+        })
+      : encodeFunctionData({
+          abi: PENDLE_ROUTER_ABI,
+          functionName: 'swapExactTokenForPt',
+          args: [
+            account,
+            market.address,
+            quote.minPtOut,
+            approxParams(quote.ptOut),
+            tokenInput(quote.tokenIn.address, quote.amountIn),
+            EMPTY_LIMIT,
+          ],
+        })
+
+  return [
+    ...(routerAllowance < quote.amountIn ? [approveCall(quote.tokenIn, contracts.router, quote.amountIn)] : []),
+    { label: `Buy ${market.pt.symbol}`, to: contracts.router, data: swap },
+    ...(ptAllowance < quote.minPtOut ? [approveCall(market.pt, contracts.ovfl, quote.minPtOut)] : []),
+    ...(quote.feeAmount > 0n && feeAllowance < feeApproval
+      ? [approveCall(market.underlying, contracts.ovfl, feeApproval, `Approve ${market.underlying.symbol} for fee`)]
+      : []),
+    {
+      label: 'Deposit',
+      to: contracts.ovfl,
+      data: encodeFunctionData({
+        abi: OVFL_ABI,
+        functionName: 'deposit',
+        args: [market.address, quote.minPtOut, minToUser],
+      }),
+    },
+  ]
+}
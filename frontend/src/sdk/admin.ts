@@ -0,0 +1,112 @@
+import { Chain, PublicClient, SimulateContractParameters, TransactionReceipt, WalletClient } from 'viem'
+import { ADMIN_ABI } from '../abi/admin'
+import { blockWindows } from '../lib/rpc'
+import { withOvflErrors } from './errors'
+import { confirm, requireAccount, Sender } from './transactions'
+import { OvflContracts } from './types'
+
+export interface PendingMarket {
+  market: `0x${string}`
+  twapDuration: number
+  feeBps: number
+  eta: number
+  underlying: `0x${string}`
+}
+
+// Every Admin.sol write, by function name
+export type AdminCall =
+  | { functionName: 'approveUnderlying'; args: readonly [`0x${string}`, string, string] }
+  | { functionName: 'queueAddMarket'; args: readonly [`0x${string}`, number, `0x${string}`, number] }
+  | { functionName: 'executeAddMarket'; args: readonly [`0x${string}`] }
+  | { functionName: 'cancelPendingMarket'; args: readonly [`0x${string}`] }
+  | { functionName: 'setMarketDepositLimit'; args: readonly [`0x${string}`, bigint] }
+  | { functionName: 'setMinPtAmount'; args: readonly [bigint] }
+  | { functionName: 'sweepExcessPt'; args: readonly [`0x${string}`, `0x${string}`] }
+
+// Markets named by MarketQueued, MarketCancelled or MarketApproved from fromBlock to toBlock, both
+// inclusive: those whose pendingMarkets entry may have changed. The range is read in block windows.
+export function scanQueueChanges(
+  client: PublicClient,
+  contracts: OvflContracts,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<`0x${string}`[]> {
+  return withOvflErrors(async () => {
+    const markets = new Set<`0x${string}`>()
+    for (const window of blockWindows(fromBlock, toBlock)) {
+      const logs = await client.getContractEvents({ address: contracts.admin, abi: ADMIN_ABI, ...window })
+      for (const log of logs) {
+        if (
+          log.eventName === 'MarketQueued' ||
+          log.eventName === 'MarketCancelled' ||
+          log.eventName === 'MarketApproved'
+        ) {
+          markets.add(log.args.market!)
+        }
+      }
+    }
+    return [...markets]
+  })
+}
+
+// Markets waiting in the timelock, soonest eta first. pendingMarkets is a mapping, so candidates
+// come from scanQueueChanges and are re-read to drop those since executed or cancelled.
+export function listPendingMarkets(client: PublicClient, contracts: OvflContracts): Promise<PendingMarket[]> {
+  return withOvflErrors(async () => {
+    const markets = await scanQueueChanges(client, contracts, contracts.startBlock, await client.getBlockNumber())
+    if (markets.length === 0) return []
+
+    const results = await client.multicall({
+      allowFailure: false,
+      contracts: markets.map((market) => ({
+        address: contracts.admin,
+        abi: ADMIN_ABI,
+        functionName: 'pendingMarkets',
+        args: [market],
+      }) as const),
+    })
+
+    return markets
+      .map((market, i) => {
+        const [queued, twapDuration, feeBps, eta, underlying] = results[i]
+        return { market, queued, twapDuration, feeBps, eta: Number(eta), underlying }
+      })
+      .filter((p) => p.queued)
+      .map(({ queued: _queued, ...pending }) => pending)
+      .sort((a, b) => a.eta - b.eta)
+  })
+}
+
+// Simulates an Admin.sol write; reverts such as "Admin: timelock not passed" surface here
+export function prepareAdminCall(client: PublicClient, contracts: OvflContracts, account: Sender, call: AdminCall) {
+  return withOvflErrors(async () => {
+    const { request } = await client.simulateContract({
+      account,
+      address: contracts.admin,
+      abi: ADMIN_ABI,
+      ...call,
+    } as SimulateContractParameters<
+      typeof ADMIN_ABI,
+      AdminCall['functionName'],
+      AdminCall['args'],
+      Chain | undefined,
+      Chain | undefined,
+      Sender
+    >)
+    return request
+  })
+}
+
+// Sends an Admin.sol write and resolves once it is mined
+export function adminCall(
+  client: PublicClient,
+  wallet: WalletClient,
+  contracts: OvflContracts,
+  call: AdminCall
+): Promise<{ hash: `0x${string}`; receipt: TransactionReceipt }> {
+  return withOvflErrors(async () => {
+    const request = await prepareAdminCall(client, contracts, requireAccount(wallet), call)
+    const hash = await wallet.writeContract(request)
+    return { hash, receipt: await confirm(client, hash) }
+  })
+}
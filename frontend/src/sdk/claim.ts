@@ -0,0 +1,48 @@
+import { parseEventLogs, PublicClient, TransactionReceipt, WalletClient } from 'viem'
+import { OVFL_ABI } from '../abi/ovfl'
+import { OvflError, withOvflErrors } from './errors'
+import { confirm, requireAccount, Sender } from './transactions'
+import { ClaimParams, ClaimResult, OvflContracts } from './types'
+
+// Simulates OVFL.claim, which burns `amount` ovflTokens for as much PT once the series has matured
+export function prepareClaim(
+  client: PublicClient,
+  contracts: OvflContracts,
+  account: Sender,
+  { market, amount }: ClaimParams
+) {
+  return withOvflErrors(async () => {
+    const { request } = await client.simulateContract({
+      account,
+      address: contracts.ovfl,
+      abi: OVFL_ABI,
+      functionName: 'claim',
+      args: [market.pt.address, amount],
+    })
+    return request
+  })
+}
+
+// The amounts actually burned and paid out, decoded from the receipt's Claimed event
+export function decodeClaimed(receipt: TransactionReceipt) {
+  const [log] = parseEventLogs({ abi: OVFL_ABI, eventName: 'Claimed', logs: receipt.logs })
+  return log?.args
+}
+
+// Claims PT for ovflTokens and resolves once the claim is mined
+export function claim(
+  client: PublicClient,
+  wallet: WalletClient,
+  contracts: OvflContracts,
+  params: ClaimParams
+): Promise<ClaimResult> {
+  return withOvflErrors(async () => {
+    const request = await prepareClaim(client, contracts, requireAccount(wallet), params)
+    const hash = await wallet.writeContract(request)
+    const receipt = await confirm(client, hash)
+
+    const claimed = decodeClaimed(receipt)
+    if (!claimed) throw new OvflError('UNKNOWN', `No Claimed event in ${hash}`)
+    return { hash, receipt, burnedAmount: claimed.burnedAmount!, ptOut: claimed.ptOut! }
+  })
+}
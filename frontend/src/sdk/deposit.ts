@@ -0,0 +1,153 @@
+import {
+  Chain,
+  maxUint256,
+  parseEventLogs,
+  PublicClient,
+  SimulateContractParameters,
+  TransactionReceipt,
+  WalletClient,
+  zeroHash,
+} from 'viem'
+import { ERC20_ABI, OVFL_ABI } from '../abi/ovfl'
+import { Market } from '../lib/markets'
+import { applyBps } from '../lib/bps'
+import { OvflError, withOvflErrors } from './errors'
+import { previewDeposit } from './preview'
+import { confirm, requireAccount, Sender } from './transactions'
+import { Approval, DepositOptions, DepositParams, DepositResult, OvflContracts, PermitSignature } from './types'
+
+export const DEFAULT_SLIPPAGE_BPS = 50
+
+// toUser can never exceed ptAmount, so a fee approval of feeBps on all of it covers any fee
+// increase if the TWAP moves between preview and the deposit being mined
+export function feeApprovalAmount(market: Market, ptAmount: bigint, feeAmount: bigint): bigint {
+  const feeCap = (ptAmount * BigInt(market.feeBps)) / 10_000n
+  return feeCap > feeAmount ? feeCap : feeAmount
+}
+
+// The approvals OVFL still needs to pull `ptAmount` of PT and `feeAmount` of the underlying
+export function depositApprovals(
+  client: PublicClient,
+  contracts: OvflContracts,
+  account: `0x${string}`,
+  market: Market,
+  ptAmount: bigint,
+  feeAmount: bigint
+): Promise<Approval[]> {
+  return withOvflErrors(async () => {
+    const [ptAllowance, feeAllowance] = await client.multicall({
+      allowFailure: false,
+      contracts: [
+        { address: market.pt.address, abi: ERC20_ABI, functionName: 'allowance', args: [account, contracts.ovfl] },
+        { address: market.underlying.address, abi: ERC20_ABI, functionName: 'allowance', args: [account, contracts.ovfl] },
+      ],
+    })
+    const approvals: Approval[] = []
+    if (ptAllowance < ptAmount) approvals.push({ token: market.pt, spender: contracts.ovfl, amount: ptAmount })
+    if (feeAmount > 0n && feeAllowance < feeAmount) {
+      approvals.push({
+        token: market.underlying,
+        spender: contracts.ovfl,
+        amount: feeApprovalAmount(market, ptAmount, feeAmount),
+      })
+    }
+    return approvals
+  })
+}
+
+export function prepareApprove(client: PublicClient, account: Sender, approval: Approval) {
+  return withOvflErrors(async () => {
+    const { request } = await client.simulateContract({
+      account,
+      address: approval.token.address,
+      abi: ERC20_ABI,
+      functionName: 'approve',
+      args: [approval.spender, approval.amount],
+    })
+    return request
+  })
+}
+
+// depositWithPermit skips a permit with a zero deadline
+const NO_PERMIT: PermitSignature = { value: 0n, deadline: 0n, v: 0, r: zeroHash, s: zeroHash }
+
+type DepositCall =
+  | { functionName: 'deposit'; args: readonly [`0x${string}`, bigint, bigint] }
+  | {
+      functionName: 'depositWithPermit'
+      args: readonly [`0x${string}`, bigint, bigint, PermitSignature, PermitSignature]
+    }
+
+// Simulates OVFL.deposit, or depositWithPermit when permits are given, so reverts surface with
+// their reason before anything is signed
+export function prepareDeposit(
+  client: PublicClient,
+  contracts: OvflContracts,
+  account: Sender,
+  { market, ptAmount, minToUser, permits }: DepositParams
+) {
+  return withOvflErrors(async () => {
+    const call: DepositCall =
+      permits?.pt || permits?.fee
+        ? {
+            functionName: 'depositWithPermit',
+            args: [market.address, ptAmount, minToUser, permits.pt ?? NO_PERMIT, permits.fee ?? NO_PERMIT],
+          }
+        : { functionName: 'deposit', args: [market.address, ptAmount, minToUser] }
+    const { request } = await client.simulateContract({
+      account,
+      address: contracts.ovfl,
+      abi: OVFL_ABI,
+      ...call,
+    } as SimulateContractParameters<
+      typeof OVFL_ABI,
+      DepositCall['functionName'],
+      DepositCall['args'],
+      Chain | undefined,
+      Chain | undefined,
+      Sender
+    >)
+    return request
+  })
+}
+
+// The amounts actually minted, decoded from the receipt's Deposited event
+export function decodeDeposited(receipt: TransactionReceipt) {
+  const [log] = parseEventLogs({ abi: OVFL_ABI, eventName: 'Deposited', logs: receipt.logs })
+  return log?.args
+}
+
+// Deposits PT end to end: previews the split, sends whatever approvals are missing, then deposits
+// with toUser bounded by `minToUser` or the preview less slippage. Resolves once the deposit is mined.
+export function deposit(
+  client: PublicClient,
+  wallet: WalletClient,
+  contracts: OvflContracts,
+  { market, ptAmount, minToUser, slippageBps = DEFAULT_SLIPPAGE_BPS, approval = 'exact' }: DepositOptions
+): Promise<DepositResult> {
+  return withOvflErrors(async () => {
+    const account = requireAccount(wallet)
+    const preview = await previewDeposit(client, contracts, market, ptAmount)
+
+    const approvals = await depositApprovals(client, contracts, account.address, market, ptAmount, preview.feeAmount)
+    for (const needed of approvals) {
+      const request = await prepareApprove(client, account, {
+        ...needed,
+        amount: approval === 'unlimited' ? maxUint256 : needed.amount,
+      })
+      await confirm(client, await wallet.writeContract(request))
+    }
+
+    const request = await prepareDeposit(client, contracts, account, {
+      market,
+      ptAmount,
+      minToUser: minToUser ?? applyBps(preview.toUser, slippageBps),
+    })
+    const hash = await wallet.writeContract(request)
+    const receipt = await confirm(client, hash)
+
+    const deposited = decodeDeposited(receipt)
+    if (!deposited) throw new OvflError('UNKNOWN', `No Deposited event in ${hash}`)
+    return { hash, receipt, toUser: deposited.toUser!, toStream: deposited.toStream!, streamId: deposited.streamId! }
+  })
+}
@@ -0,0 +1,130 @@
+import {
+  BaseError,
+  ChainMismatchError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  RpcRequestError,
+  TimeoutError,
+  UserRejectedRequestError,
+} from 'viem'
+
+export type OvflErrorCode =
+  // Reverts from OVFL.sol and the ERC20s it pulls from
+  | 'SLIPPAGE'
+  | 'DEPOSIT_LIMIT'
+  | 'BELOW_MIN_PT'
+  | 'MATURED'
+  | 'NOT_MATURED'
+  | 'INSUFFICIENT_RESERVES'
+  | 'NOTHING_TO_STREAM'
+  | 'MARKET_NOT_APPROVED'
+  | 'UNKNOWN_PT'
+  | 'ZERO_AMOUNT'
+  | 'INSUFFICIENT_ALLOWANCE'
+  | 'INSUFFICIENT_BALANCE'
+  // Reverts from Admin.sol
+  | 'UNDERLYING_NOT_APPROVED'
+  | 'ALREADY_APPROVED'
+  | 'ALREADY_QUEUED'
+  | 'NOT_QUEUED'
+  | 'TIMELOCK_NOT_PASSED'
+  | 'ORACLE_CARDINALITY'
+  | 'ORACLE_NOT_READY'
+  // Any other revert; `reason` holds the revert string or custom error name
+  | 'REVERTED'
+  // Sent and mined, but the receipt reports a revert
+  | 'TX_REVERTED'
+  | 'NOTHING_TO_WITHDRAW'
+  | 'NO_ACCOUNT'
+  | 'USER_REJECTED'
+  | 'INSUFFICIENT_FUNDS'
+  // The wallet is on another chain than the request
+  | 'WRONG_NETWORK'
+  | 'NETWORK'
+  | 'UNKNOWN'
+
+// Revert strings from OVFL.sol, Admin.sol and the ERC20s OVFL pulls from. The app words each code
+// for the user in lib/errors.ts, so a new revert only needs adding here.
+export const REVERT_CODES: Record<string, OvflErrorCode> = {
+  'OVFL: slippage': 'SLIPPAGE',
+  'OVFL: deposit limit exceeded': 'DEPOSIT_LIMIT',
+  'OVFL: amount < min PT': 'BELOW_MIN_PT',
+  'OVFL: matured': 'MATURED',
+  'OVFL: not matured': 'NOT_MATURED',
+  'OVFL: insufficient PT reserves': 'INSUFFICIENT_RESERVES',
+  'OVFL: nothing to stream': 'NOTHING_TO_STREAM',
+  'OVFL: market not approved': 'MARKET_NOT_APPROVED',
+  'OVFL: unknown PT': 'UNKNOWN_PT',
+  'OVFL: amount is zero': 'ZERO_AMOUNT',
+  'ERC20: insufficient allowance': 'INSUFFICIENT_ALLOWANCE',
+  'ERC20: transfer amount exceeds balance': 'INSUFFICIENT_BALANCE',
+  'ERC20: burn amount exceeds balance': 'INSUFFICIENT_BALANCE',
+  'Admin: underlying not approved': 'UNDERLYING_NOT_APPROVED',
+  'Admin: already approved': 'ALREADY_APPROVED',
+  'Admin: already queued': 'ALREADY_QUEUED',
+  'Admin: not queued': 'NOT_QUEUED',
+  'Admin: timelock not passed': 'TIMELOCK_NOT_PASSED',
+  'Admin: oracle cardinality': 'ORACLE_CARDINALITY',
+  'Admin: oracle not ready': 'ORACLE_NOT_READY',
+  'Admin: market not approved': 'MARKET_NOT_APPROVED',
+}
+
+// Every SDK function rejects with an OvflError. `cause` keeps the viem error it was raised from.
+export class OvflError extends Error {
+  override name = 'OvflError'
+  readonly code: OvflErrorCode
+  readonly reason?: string
+  readonly cause?: unknown
+
+  constructor(code: OvflErrorCode, message: string, options: { reason?: string; cause?: unknown } = {}) {
+    super(message)
+    this.code = code
+    this.reason = options.reason
+    this.cause = options.cause
+  }
+}
+
+// Classifies wallet, RPC and contract errors. Reverts keep their reason as the message.
+export function toOvflError(err: unknown): OvflError {
+  if (err instanceof OvflError) return err
+  if (!(err instanceof BaseError)) {
+    return new OvflError('UNKNOWN', err instanceof Error ? err.message : String(err), { cause: err })
+  }
+
+  if (err.walk((e) => e instanceof UserRejectedRequestError)) {
+    return new OvflError('USER_REJECTED', 'User rejected the request', { cause: err })
+  }
+
+  const revert = err.walk((e) => e instanceof ContractFunctionRevertedError)
+  if (revert instanceof ContractFunctionRevertedError) {
+    const reason = revert.reason ?? revert.data?.errorName
+    return new OvflError((reason && REVERT_CODES[reason]) || 'REVERTED', reason ?? err.shortMessage, {
+      reason,
+      cause: err,
+    })
+  }
+
+  if (err.walk((e) => e instanceof InsufficientFundsError)) {
+    return new OvflError('INSUFFICIENT_FUNDS', 'Account cannot pay for gas', { cause: err })
+  }
+
+  if (err.walk((e) => e instanceof ChainMismatchError)) {
+    return new OvflError('WRONG_NETWORK', err.shortMessage, { cause: err })
+  }
+
+  if (err.walk((e) => e instanceof HttpRequestError || e instanceof TimeoutError || e instanceof RpcRequestError)) {
+    return new OvflError('NETWORK', err.shortMessage, { cause: err })
+  }
+
+  return new OvflError('UNKNOWN', err.shortMessage, { cause: err })
+}
+
+// Runs `fn`, rejecting with an OvflError whatever it throws
+export async function withOvflErrors<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn()
+  } catch (err) {
+    throw toOvflError(err)
+  }
+}
@@ -0,0 +1,41 @@
+// Framework-free OVFL client on viem, shared by the React hooks and the Node scripts. It lives
+// inside the app rather than as its own package, and uses the app's ABIs and market discovery.
+//
+// Reads take a PublicClient; end-to-end writes (deposit, claim, withdrawStream) also take a
+// WalletClient with an account and resolve once mined. The prepare* functions only simulate and
+// return the request, for callers that sign and track transactions themselves. Everything
+// rejects with an OvflError.
+
+export { listMarkets } from './markets'
+export { previewDeposit, previewStream } from './preview'
+export {
+  DEFAULT_SLIPPAGE_BPS,
+  decodeDeposited,
+  deposit,
+  depositApprovals,
+  feeApprovalAmount,
+  prepareApprove,
+  prepareDeposit,
+} from './deposit'
+export { claim, decodeClaimed, prepareClaim } from './claim'
+export { listStreams, prepareWithdraw, prepareWithdrawMultiple, readWithdrawable, withdrawStream } from './streams'
+export { adminCall, listPendingMarkets, prepareAdminCall, scanQueueChanges } from './admin'
+export type { AdminCall, PendingMarket } from './admin'
+export { OvflError, toOvflError } from './errors'
+export type { OvflErrorCode } from './errors'
+export { applyBps } from '../lib/bps'
+export type { Market, Token } from '../lib/markets'
+export type {
+  Approval,
+  ClaimParams,
+  ClaimResult,
+  DepositOptions,
+  DepositParams,
+  DepositPreview,
+  DepositResult,
+  OvflContracts,
+  PermitSignature,
+  Stream,
+  StreamPreview,
+  WithdrawResult,
+} from './types'
@@ -0,0 +1,11 @@
+import { PublicClient } from 'viem'
+import { fetchMarkets, Market } from '../lib/markets'
+import { withOvflErrors } from './errors'
+import { OvflContracts } from './types'
+
+// Every market the Admin contract has approved, with token metadata, sorted by expiry
+export function listMarkets(client: PublicClient, contracts: OvflContracts): Promise<Market[]> {
+  return withOvflErrors(() =>
+    fetchMarkets(client, { ovfl: contracts.ovfl, admin: contracts.admin, fromBlock: contracts.startBlock })
+  )
+}
@@ -0,0 +1,46 @@
+import { PublicClient } from 'viem'
+import { OVFL_ABI } from '../abi/ovfl'
+import { Market } from '../lib/markets'
+import { withOvflErrors } from './errors'
+import { DepositPreview, OvflContracts, StreamPreview } from './types'
+
+// What depositing `ptAmount` would pay out now and stream until expiry, and the fee it takes
+export function previewDeposit(
+  client: PublicClient,
+  contracts: OvflContracts,
+  market: Market,
+  ptAmount: bigint
+): Promise<DepositPreview> {
+  return withOvflErrors(async () => {
+    const [toUser, toStream, feeAmount, rateE18] = await client.readContract({
+      address: contracts.ovfl,
+      abi: OVFL_ABI,
+      functionName: 'previewDeposit',
+      args: [market.address, ptAmount],
+    })
+    return { toUser, toStream, feeAmount, rateE18 }
+  })
+}
+
+// The stream a deposit of `ptAmount` would open if mined in the next block
+export function previewStream(
+  client: PublicClient,
+  contracts: OvflContracts,
+  market: Market,
+  ptAmount: bigint
+): Promise<StreamPreview> {
+  return withOvflErrors(async () => {
+    const [{ toStream }, block] = await Promise.all([
+      previewDeposit(client, contracts, market, ptAmount),
+      client.getBlock(),
+    ])
+    const startTime = Number(block.timestamp)
+    const duration = market.expiry - startTime
+    return {
+      amount: toStream,
+      startTime,
+      endTime: market.expiry,
+      ratePerSecond: duration > 0 ? toStream / BigInt(duration) : 0n,
+    }
+  })
+}
@@ -0,0 +1,191 @@
+import { BaseError, ContractFunctionRevertedError, PublicClient, WalletClient } from 'viem'
+import { OVFL_ABI, SABLIER_ABI } from '../abi/ovfl'
+import { Market } from '../lib/markets'
+import { blockWindows, mapLimit } from '../lib/rpc'
+import { OvflError, withOvflErrors } from './errors'
+import { confirm, requireAccount, Sender } from './transactions'
+import { OvflContracts, Stream, WithdrawResult } from './types'
+
+const addressOf = (account: Sender) => (typeof account === 'string' ? account : account.address)
+
+// Block windows scanned at once while listing streams, each with one getLogs call per event
+const WINDOW_CONCURRENCY = 4
+
+// OVFL streams held by `owner`, soonest ending first. Each stream's asset is resolved against the
+// ovflTokens of `markets`, falling back to a placeholder symbol for tokens of unknown markets.
+export function listStreams(
+  client: PublicClient,
+  contracts: OvflContracts,
+  owner: `0x${string}`,
+  markets: Market[] = []
+): Promise<Stream[]> {
+  return withOvflErrors(async () => {
+    // Candidate stream IDs: streams the owner opened through OVFL, plus any stream NFT
+    // transferred to them. Streams are transferable, so ownership is re-checked below.
+    const latest = await client.getBlockNumber()
+    const pages = await mapLimit(blockWindows(contracts.startBlock, latest), WINDOW_CONCURRENCY, (window) =>
+      Promise.all([
+        client.getContractEvents({
+          address: contracts.ovfl,
+          abi: OVFL_ABI,
+          eventName: 'Deposited',
+          args: { user: owner },
+          ...window,
+        }),
+        client.getContractEvents({
+          address: contracts.sablierLockupLinear,
+          abi: SABLIER_ABI,
+          eventName: 'Transfer',
+          args: { to: owner },
+          ...window,
+        }),
+      ])
+    )
+    const ids = [
+      ...new Set(
+        pages.flatMap(([deposits, received]) => [
+          ...deposits.map((log) => log.args.streamId!),
+          ...received.map((log) => log.args.tokenId!),
+        ])
+      ),
+    ]
+    if (ids.length === 0) return []
+
+    const results = await client.multicall({
+      contracts: ids.flatMap((id) => [
+        { address: contracts.sablierLockupLinear, abi: SABLIER_ABI, functionName: 'ownerOf', args: [id] } as const,
+        { address: contracts.sablierLockupLinear, abi: SABLIER_ABI, functionName: 'getStream', args: [id] } as const,
+        { address: contracts.sablierLockupLinear, abi: SABLIER_ABI, functionName: 'withdrawableAmountOf', args: [id] } as const,
+      ]),
+    })
+
+    return ids
+      .flatMap((id, i): Stream[] => {
+        const [ownerOf, stream, withdrawable] = results.slice(i * 3, i * 3 + 3)
+        // Burned NFTs revert on ownerOf; streams sent away are owned by someone else
+        if (ownerOf.status !== 'success' || stream.status !== 'success') return []
+        if ((ownerOf.result as string).toLowerCase() !== owner.toLowerCase()) return []
+
+        const s = stream.result as {
+          sender: `0x${string}`
+          asset: `0x${string}`
+          startTime: number
+          endTime: number
+          isDepleted: boolean
+          amounts: { deposited: bigint; withdrawn: bigint; refunded: bigint }
+        }
+        // Only streams created by OVFL
+        if (s.sender.toLowerCase() !== contracts.ovfl.toLowerCase()) return []
+
+        return [
+          {
+            id,
+            asset: markets.find((m) => m.ovfl.address.toLowerCase() === s.asset.toLowerCase())?.ovfl ?? {
+              address: s.asset,
+              symbol: 'ovfl',
+              decimals: 18,
+            },
+            deposited: s.amounts.deposited,
+            withdrawn: s.amounts.withdrawn,
+            withdrawable: withdrawable.status === 'success' ? (withdrawable.result as bigint) : 0n,
+            startTime: s.startTime,
+            endTime: s.endTime,
+            isDepleted: s.isDepleted,
+          },
+        ]
+      })
+      .sort((a, b) => a.endTime - b.endTime)
+  })
+}
+
+// Withdrawable amounts read just before withdrawing, so the amount is never above what has
+// vested. Streams with nothing to withdraw are left out.
+export function readWithdrawable(
+  client: PublicClient,
+  contracts: OvflContracts,
+  streamIds: bigint[]
+): Promise<{ id: bigint; amount: bigint }[]> {
+  return withOvflErrors(async () => {
+    const amounts = await client.multicall({
+      allowFailure: false,
+      contracts: streamIds.map((id) => ({
+        address: contracts.sablierLockupLinear,
+        abi: SABLIER_ABI,
+        functionName: 'withdrawableAmountOf',
+        args: [id],
+      }) as const),
+    })
+    return streamIds.map((id, i) => ({ id, amount: amounts[i] })).filter((s) => s.amount > 0n)
+  })
+}
+
+// Simulates withdrawing `amount` from a stream to its owner
+export function prepareWithdraw(
+  client: PublicClient,
+  contracts: OvflContracts,
+  account: Sender,
+  stream: { id: bigint; amount: bigint }
+) {
+  return withOvflErrors(async () => {
+    const { request } = await client.simulateContract({
+      account,
+      address: contracts.sablierLockupLinear,
+      abi: SABLIER_ABI,
+      functionName: 'withdraw',
+      args: [stream.id, addressOf(account), stream.amount],
+    })
+    return request
+  })
+}
+
+// Sablier deployments without withdrawMultiple have no function for its selector and revert
+// without any data
+const isMissingFunction = (err: unknown) => {
+  const revert = err instanceof BaseError ? err.walk((e) => e instanceof ContractFunctionRevertedError) : null
+  return revert instanceof ContractFunctionRevertedError && (!revert.raw || revert.raw === '0x')
+}
+
+// Simulates one withdrawMultiple for several streams. Resolves null when this Sablier
+// deployment doesn't support it, so callers can fall back to one withdraw per stream; any other
+// failure rejects as usual.
+export function prepareWithdrawMultiple(
+  client: PublicClient,
+  contracts: OvflContracts,
+  account: Sender,
+  streams: { id: bigint; amount: bigint }[]
+) {
+  return withOvflErrors(async () => {
+    try {
+      const { request } = await client.simulateContract({
+        account,
+        address: contracts.sablierLockupLinear,
+        abi: SABLIER_ABI,
+        functionName: 'withdrawMultiple',
+        args: [streams.map((s) => s.id), streams.map((s) => s.amount)],
+      })
+      return request
+    } catch (err) {
+      if (isMissingFunction(err)) return null
+      throw err
+    }
+  })
+}
+
+// Withdraws everything vested so far from one stream and resolves once it is mined
+export function withdrawStream(
+  client: PublicClient,
+  wallet: WalletClient,
+  contracts: OvflContracts,
+  streamId: bigint
+): Promise<WithdrawResult> {
+  return withOvflErrors(async () => {
+    const account = requireAccount(wallet)
+    const [stream] = await readWithdrawable(client, contracts, [streamId])
+    if (!stream) throw new OvflError('NOTHING_TO_WITHDRAW', `Stream #${streamId} has nothing to withdraw yet`)
+
+    const request = await prepareWithdraw(client, contracts, account, stream)
+    const hash = await wallet.writeContract(request)
+    const receipt = await confirm(client, hash)
+    return { hash, receipt, streamId, amount: stream.amount }
+  })
+}
@@ -0,0 +1,19 @@
+import { Account, PublicClient, TransactionReceipt, WalletClient } from 'viem'
+import { OvflError } from './errors'
+
+// Reads and simulations only need an address; sending from a local account needs the Account
+export type Sender = Account | `0x${string}`
+
+export function requireAccount(wallet: WalletClient): Account {
+  if (!wallet.account) throw new OvflError('NO_ACCOUNT', 'Wallet client has no account')
+  return wallet.account
+}
+
+// Waits for `hash` to be mined and rejects if it reverted
+export async function confirm(client: PublicClient, hash: `0x${string}`): Promise<TransactionReceipt> {
+  const receipt = await client.waitForTransactionReceipt({ hash })
+  if (receipt.status !== 'success') {
+    throw new OvflError('TX_REVERTED', `Transaction ${hash} reverted`)
+  }
+  return receipt
+}
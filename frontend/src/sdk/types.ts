@@ -0,0 +1,94 @@
+import { TransactionReceipt } from 'viem'
+import { Deployment } from '../deployments'
+import { Market, Token } from '../lib/markets'
+
+// The addresses the SDK talks to; any `Deployment` from src/deployments.ts fits
+export type OvflContracts = Pick<Deployment, 'ovfl' | 'admin' | 'sablierLockupLinear' | 'startBlock'>
+
+// OVFL.previewDeposit at the current TWAP rate
+export interface DepositPreview {
+  toUser: bigint
+  toStream: bigint
+  feeAmount: bigint
+  rateE18: bigint
+}
+
+// The Sablier stream a deposit would open: linear, no cliff, ending at the series' expiry
+export interface StreamPreview {
+  amount: bigint
+  // Seconds; starts at the latest block's timestamp
+  startTime: number
+  endTime: number
+  ratePerSecond: bigint
+}
+
+export interface Stream {
+  id: bigint
+  asset: Token
+  deposited: bigint
+  withdrawn: bigint
+  withdrawable: bigint
+  startTime: number
+  endTime: number
+  isDepleted: boolean
+}
+
+export interface Approval {
+  token: Token
+  spender: `0x${string}`
+  amount: bigint
+}
+
+// An EIP-2612 permit signed for OVFL, in the form depositWithPermit takes it
+export interface PermitSignature {
+  value: bigint
+  deadline: bigint
+  v: number
+  r: `0x${string}`
+  s: `0x${string}`
+}
+
+export interface DepositParams {
+  market: Market
+  ptAmount: bigint
+  minToUser: bigint
+  // Signed permits deposited with in place of approvals; either may be left out
+  permits?: { pt?: PermitSignature; fee?: PermitSignature }
+}
+
+export interface DepositOptions {
+  market: Market
+  ptAmount: bigint
+  // Defaults to the previewed toUser less `slippageBps`
+  minToUser?: bigint
+  slippageBps?: number
+  // Approvals are exact unless 'unlimited'
+  approval?: 'exact' | 'unlimited'
+}
+
+export interface ClaimParams {
+  market: Market
+  amount: bigint
+}
+
+export interface DepositResult {
+  hash: `0x${string}`
+  receipt: TransactionReceipt
+  toUser: bigint
+  toStream: bigint
+  streamId: bigint
+}
+
+export interface ClaimResult {
+  hash: `0x${string}`
+  receipt: TransactionReceipt
+  burnedAmount: bigint
+  ptOut: bigint
+}
+
+export interface WithdrawResult {
+  hash: `0x${string}`
+  receipt: TransactionReceipt
+  streamId: bigint
+  amount: bigint
+}
@@ -1,36 +1,21 @@
-import { http, createConfig } from 'wagmi'
-import { mainnet } from 'wagmi/chains'
+import { Chain } from 'viem'
+import { http } from 'wagmi'
 import { getDefaultConfig } from '@rainbow-me/rainbowkit'
+import { Deployment, DEPLOYMENTS, LOCAL_CHAIN, SUPPORTED_CHAINS } from './deployments'
+import { LOCAL_DEPLOYMENT } from './devnet'
 
-// Contract addresses (mainnet)
-export const OVFL_ADDRESS = '0x0000000000000000000000000000000000000000' as const // TODO: Update after deployment
-export const ADMIN_ADDRESS = '0x0000000000000000000000000000000000000000' as const // TODO: Update after deployment
-export const SABLIER_ADDRESS = '0x3962f6585946823440d274aD7C719B02b49DE51E' as const
+// Contract addresses per chain live in deployments.ts. In dev mode the local Anvil node joins
+// the list once it has been deployed to.
+
+const chains: readonly [Chain, ...Chain[]] = LOCAL_DEPLOYMENT ? [...SUPPORTED_CHAINS, LOCAL_CHAIN] : SUPPORTED_CHAINS
+
+export const deployments: Record<number, Deployment> = LOCAL_DEPLOYMENT
+  ? { ...DEPLOYMENTS, [LOCAL_CHAIN.id]: LOCAL_DEPLOYMENT }
+  : DEPLOYMENTS
 
 export const config = getDefaultConfig({
   appName: 'OVFL',
   projectId: 'YOUR_WALLETCONNECT_PROJECT_ID', // Get from https://cloud.walletconnect.com
-  chains: [mainnet],
-  transports: {
-    [mainnet.id]: http(),
-  },
+  chains,
+  transports: Object.fromEntries(chains.map((chain) => [chain.id, http()])),
 })
-
-// Example markets for development
-export const EXAMPLE_MARKETS = [
-  {
-    address: '0x0000000000000000000000000000000000000001',
-    name: 'PT-stETH',
-    underlying: 'ETH',
-    expiry: new Date('2025-06-26').getTime() / 1000,
-    ptToken: '0x0000000000000000000000000000000000000002',
-  },
-  {
-    address: '0x0000000000000000000000000000000000000003',
-    name: 'PT-weETH',
-    underlying: 'ETH',
-    expiry: new Date('2025-06-26').getTime() / 1000,
-    ptToken: '0x0000000000000000000000000000000000000004',
-  },
-]
-
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { fireEvent, render, screen } from '@testing-library/react'
+import { parseEther } from 'viem'
+import ClaimTab from '../../src/components/ClaimTab'
+import { useMarkets } from '../../src/hooks/useMarkets'
+import { useBalances } from '../../src/hooks/useBalances'
+import { useClaim } from '../../src/hooks/useClaim'
+import { useBacking } from '../../src/hooks/useBacking'
+import { useRedeemQuote } from '../../src/hooks/useRedeemQuote'
+import { useClaimRedeem } from '../../src/hooks/useClaimRedeem'
+import { useNow } from '../../src/hooks/useNow'
+import { MARKET, NOW, walletWrapper } from '../utils'
+
+vi.mock('../../src/hooks/useMarkets', () => ({ useMarkets: vi.fn() }))
+vi.mock('../../src/hooks/useBalances', () => ({ useBalances: vi.fn() }))
+vi.mock('../../src/hooks/useClaim', () => ({ useClaim: vi.fn() }))
+vi.mock('../../src/hooks/useBacking', () => ({ useBacking: vi.fn() }))
+vi.mock('../../src/hooks/useRedeemQuote', () => ({ useRedeemQuote: vi.fn() }))
+vi.mock('../../src/hooks/useClaimRedeem', () => ({ useClaimRedeem: vi.fn() }))
+vi.mock('../../src/hooks/useNow', () => ({ useNow: vi.fn() }))
+
+const claim = vi.fn()
+const claimAndRedeem = vi.fn()
+
+async function renderWithAmount(amount: string) {
+  render(<ClaimTab />, { wrapper: await walletWrapper() })
+  fireEvent.click(screen.getByText(MARKET.name))
+  fireEvent.change(screen.getByPlaceholderText('0.0'), { target: { value: amount } })
+}
+
+const actionButton = (label: string) => screen.getByRole('button', { name: label }) as HTMLButtonElement
+
+describe('ClaimTab', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(useMarkets).mockReturnValue({ markets: [MARKET], isLoading: false, error: null })
+    vi.mocked(useBalances).mockReturnValue({
+      pt: undefined,
+      ovfl: { value: parseEther('20'), decimals: 18, formatted: '20' },
+      underlying: undefined,
+      sy: undefined,
+      isLoading: false,
+    })
+    vi.mocked(useBacking).mockReturnValue({
+      backing: [
+        {
+          ovfl: MARKET.ovfl,
+          supply: parseEther('20'),
+          ptBalance: parseEther('20'),
+          ratioBps: 10_000,
+          deficit: 0n,
+          series: [],
+        },
+      ],
+      isLoading: false,
+      error: null,
+    })
+    vi.mocked(useClaim).mockReturnValue({
+      claim,
+      result: undefined,
+      status: 'idle',
+      isLoading: false,
+      isSuccess: false,
+      error: null,
+      txHash: undefined,
+    })
+    vi.mocked(useRedeemQuote).mockReturnValue({ amountOut: parseEther('5'), isLoading: false, error: null })
+    vi.mocked(useClaimRedeem).mockReturnValue({
+      claimAndRedeem,
+      canBatch: false,
+      steps: ['Claim', `Approve ${MARKET.pt.symbol}`, `Redeem to ${MARKET.underlying.symbol}`],
+      currentStep: 0,
+      status: 'idle',
+      isLoading: false,
+      isSuccess: false,
+      isReady: true,
+      error: null,
+    })
+  })
+
+  it('gates claims until the market matures', async () => {
+    vi.mocked(useNow).mockReturnValue(NOW)
+    await renderWithAmount('5')
+
+    expect(screen.getByText('Pending')).toBeTruthy()
+    expect(screen.getByText('Market Not Matured')).toBeTruthy()
+    expect(actionButton('Not Yet Matured').disabled).toBe(true)
+  })
+
+  it('claims PT 1:1 for ovflTokens after maturity', async () => {
+    vi.mocked(useNow).mockReturnValue(MARKET.expiry)
+    await renderWithAmount('5')
+
+    expect(screen.getByText('Ready')).toBeTruthy()
+    expect(screen.getByText(`5 ${MARKET.pt.symbol}`)).toBeTruthy()
+    expect(screen.getByText('Backed 100.00%')).toBeTruthy()
+
+    fireEvent.click(actionButton('Claim'))
+    expect(claim).toHaveBeenCalledWith({ market: MARKET, amount: parseEther('5') })
+  })
+
+  it('blocks claims above the ovflToken balance', async () => {
+    vi.mocked(useNow).mockReturnValue(MARKET.expiry)
+    await renderWithAmount('21')
+
+    expect(screen.getByText(`Insufficient ${MARKET.ovfl.symbol} balance`)).toBeTruthy()
+    expect(actionButton('Claim').disabled).toBe(true)
+  })
+
+  it('claims and redeems to the underlying in one flow', async () => {
+    vi.mocked(useNow).mockReturnValue(MARKET.expiry)
+    await renderWithAmount('5')
+
+    expect(useRedeemQuote).toHaveBeenLastCalledWith(MARKET, null)
+    fireEvent.click(screen.getByLabelText(`Redeem to ${MARKET.underlying.symbol}`))
+
+    expect(useRedeemQuote).toHaveBeenLastCalledWith(MARKET, parseEther('5'))
+    expect(screen.getByText(`5 ${MARKET.underlying.symbol}`)).toBeTruthy()
+    // Default 0.5% slippage on the redemption
+    expect(useClaimRedeem).toHaveBeenLastCalledWith(MARKET, parseEther('5'), parseEther('4.975'))
+    expect(screen.getByText('3 transactions, each sent once the previous one confirms')).toBeTruthy()
+
+    fireEvent.click(actionButton('Claim and redeem'))
+    expect(claimAndRedeem).toHaveBeenCalled()
+    expect(claim).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { fireEvent, render, screen } from '@testing-library/react'
+import { parseEther } from 'viem'
+import DepositTab from '../../src/components/DepositTab'
+import { useMarkets } from '../../src/hooks/useMarkets'
+import { useBalances } from '../../src/hooks/useBalances'
+import { useCapacity } from '../../src/hooks/useCapacity'
+import { usePreview } from '../../src/hooks/usePreview'
+import { useDeposit } from '../../src/hooks/useDeposit'
+import { useApprovals } from '../../src/hooks/useApprovals'
+import { useNow } from '../../src/hooks/useNow'
+import { MARKET, NOW, walletWrapper } from '../utils'
+
+vi.mock('../../src/hooks/useMarkets', () => ({ useMarkets: vi.fn() }))
+vi.mock('../../src/hooks/useBalances', () => ({ useBalances: vi.fn() }))
+vi.mock('../../src/hooks/useCapacity', () => ({ useCapacity: vi.fn() }))
+vi.mock('../../src/hooks/usePreview', () => ({ usePreview: vi.fn() }))
+vi.mock('../../src/hooks/useDeposit', () => ({ useDeposit: vi.fn() }))
+vi.mock('../../src/hooks/useApprovals', () => ({ useApprovals: vi.fn() }))
+vi.mock('../../src/hooks/useNow', () => ({ useNow: vi.fn() }))
+
+const deposit = vi.fn()
+const approve = vi.fn()
+const permit = vi.fn()
+
+const balance = (value: bigint) => ({ value, decimals: 18, formatted: '' })
+
+const preview = {
+  toUser: parseEther('9.85'),
+  toStream: parseEther('0.15'),
+  feeAmount: parseEther('0.04925'),
+  rateE18: parseEther('0.985'),
+}
+
+function mockApprovals(
+  step: 'approve-pt' | 'approve-fee' | 'deposit',
+  {
+    canPermit = false,
+    permits = { pt: undefined, fee: undefined },
+  }: Partial<Pick<ReturnType<typeof useApprovals>, 'canPermit' | 'permits'>> = {}
+) {
+  vi.mocked(useApprovals).mockReturnValue({
+    step,
+    needsFee: true,
+    approve,
+    permit,
+    canPermit,
+    permits,
+    isLoading: false,
+    error: null,
+  })
+}
+
+function mockCapacity(limit: bigint, deposited: bigint, minPtAmount = parseEther('0.01')) {
+  const remaining = limit === 0n ? null : limit - deposited
+  vi.mocked(useCapacity).mockReturnValue({
+    capacities: {
+      [MARKET.address]: { limit, deposited, remaining, usedBps: 0, isFull: remaining === 0n, isNearCap: false },
+    },
+    minPtAmount,
+  })
+}
+
+async function renderWithAmount(amount: string) {
+  render(<DepositTab />, { wrapper: await walletWrapper() })
+  fireEvent.click(screen.getByText('Select a market...'))
+  fireEvent.click(screen.getByText(MARKET.name))
+  fireEvent.change(screen.getByPlaceholderText('0.0'), { target: { value: amount } })
+}
+
+const actionButton = (label: string) => screen.getByRole('button', { name: label }) as HTMLButtonElement
+
+describe('DepositTab', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(useNow).mockReturnValue(NOW)
+    vi.mocked(useMarkets).mockReturnValue({ markets: [MARKET], isLoading: false, error: null })
+    vi.mocked(useBalances).mockReturnValue({
+      pt: balance(parseEther('100')),
+      ovfl: balance(0n),
+      underlying: balance(parseEther('1')),
+      sy: balance(0n),
+      isLoading: false,
+    })
+    mockCapacity(0n, 0n)
+    vi.mocked(usePreview).mockReturnValue({ preview, isLoading: false, error: null })
+    vi.mocked(useDeposit).mockReturnValue({
+      deposit,
+      result: undefined,
+      status: 'idle',
+      isLoading: false,
+      isSuccess: false,
+      error: null,
+      txHash: undefined,
+    })
+    mockApprovals('deposit')
+  })
+
+  it('approves PT before anything else', async () => {
+    mockApprovals('approve-pt')
+    await renderWithAmount('10')
+
+    fireEvent.click(actionButton(`Approve ${MARKET.pt.symbol}`))
+    expect(approve).toHaveBeenCalledWith('exact')
+    expect(deposit).not.toHaveBeenCalled()
+  })
+
+  it('approves the fee token with the selected allowance mode', async () => {
+    mockApprovals('approve-fee')
+    await renderWithAmount('10')
+
+    fireEvent.click(screen.getByRole('button', { name: 'unlimited' }))
+    fireEvent.click(actionButton(`Approve ${MARKET.underlying.symbol} for fee`))
+    expect(approve).toHaveBeenCalledWith('unlimited')
+  })
+
+  it('deposits with the slippage-adjusted minimum', async () => {
+    await renderWithAmount('10')
+
+    expect(screen.getByText('9.85 ovflWETH')).toBeTruthy()
+    fireEvent.click(actionButton('Deposit'))
+    expect(deposit).toHaveBeenCalledWith({
+      market: MARKET,
+      ptAmount: parseEther('10'),
+      // Default 0.5% slippage
+      minToUser: (preview.toUser * 9_950n) / 10_000n,
+      permits: { pt: undefined, fee: undefined },
+    })
+  })
+
+  it('signs a permit instead of approving where the token takes one', async () => {
+    mockApprovals('approve-pt', { canPermit: true })
+    await renderWithAmount('10')
+
+    fireEvent.click(screen.getByRole('button', { name: 'unlimited' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Sign permit instead' }))
+    expect(permit).toHaveBeenCalledWith('unlimited')
+    expect(approve).not.toHaveBeenCalled()
+  })
+
+  it('deposits with the signed permits', async () => {
+    const signature = { value: parseEther('10'), deadline: 1n, v: 27, r: '0x01', s: '0x02' } as const
+    mockApprovals('deposit', { permits: { pt: signature, fee: undefined } })
+    await renderWithAmount('10')
+
+    fireEvent.click(actionButton('Deposit'))
+    expect(deposit).toHaveBeenCalledWith(expect.objectContaining({ permits: { pt: signature, fee: undefined } }))
+  })
+
+  it('blocks deposits above the PT balance', async () => {
+    await renderWithAmount('101')
+
+    expect(screen.getByText(`Insufficient ${MARKET.pt.symbol} balance`)).toBeTruthy()
+    expect(actionButton('Deposit').disabled).toBe(true)
+  })
+
+  it('blocks deposits below the minimum PT amount', async () => {
+    mockCapacity(0n, 0n, parseEther('1'))
+    await renderWithAmount('0.5')
+
+    expect(screen.getByText(`Minimum deposit is 1 ${MARKET.pt.symbol}`)).toBeTruthy()
+    expect(actionButton('Deposit').disabled).toBe(true)
+  })
+
+  it('blocks deposits above the market limit', async () => {
+    mockCapacity(parseEther('50'), parseEther('45'))
+    await renderWithAmount('10')
+
+    expect(screen.getByText(`Only 5 ${MARKET.pt.symbol} left in this market`)).toBeTruthy()
+    expect(actionButton('Deposit').disabled).toBe(true)
+  })
+
+  it('blocks deposits when the fee cannot be paid', async () => {
+    vi.mocked(useBalances).mockReturnValue({
+      pt: balance(parseEther('100')),
+      ovfl: balance(0n),
+      underlying: balance(parseEther('0.01')),
+      sy: balance(0n),
+      isLoading: false,
+    })
+    await renderWithAmount('10')
+
+    expect(screen.getByText(`Insufficient ${MARKET.underlying.symbol} to pay the fee`)).toBeTruthy()
+  })
+})
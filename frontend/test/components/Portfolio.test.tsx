@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { fireEvent, render, screen } from '@testing-library/react'
+import { parseEther } from 'viem'
+import Portfolio from '../../src/components/Portfolio'
+import { usePortfolio } from '../../src/hooks/usePortfolio'
+import { Stream } from '../../src/hooks/useStreams'
+import { buildPortfolio, SeriesHoldings } from '../../src/lib/portfolio'
+import { DAY, MARKET, NOW, walletWrapper } from '../utils'
+
+vi.mock('../../src/hooks/usePortfolio', () => ({ usePortfolio: vi.fn() }))
+
+// A second WETH series, already matured, minting the same ovflToken
+const MATURED = {
+  ...MARKET,
+  address: '0x00000000000000000000000000000000000000a2',
+  name: 'PT-WETH-25JUN2025',
+  expiry: NOW - DAY,
+  pt: { address: '0x00000000000000000000000000000000000000b2', symbol: 'PT-WETH-25JUN2025', decimals: 18 },
+} as const
+
+// Halfway through a 10-day stream of 1 ovflWETH on MARKET, ending at its expiry
+const stream = (id: bigint, withdrawn = 0n): Stream => ({
+  id,
+  asset: MARKET.ovfl,
+  deposited: parseEther('1'),
+  withdrawn,
+  withdrawable: parseEther('0.5') - withdrawn,
+  startTime: MARKET.expiry - 10 * DAY,
+  endTime: MARKET.expiry,
+  isDepleted: false,
+})
+
+const holdings = (ovflBalance: bigint, ptReserve = parseEther('100')) =>
+  new Map<string, SeriesHoldings>([
+    [MARKET.address, { ovflBalance, ptReserve, outstanding: ptReserve }],
+    [MATURED.address, { ovflBalance, ptReserve, outstanding: ptReserve }],
+  ])
+
+function mockPortfolio(ovflBalance: bigint, streams: Stream[], now = MARKET.expiry - 5 * DAY) {
+  vi.mocked(usePortfolio).mockReturnValue({
+    ...buildPortfolio([MATURED, MARKET], holdings(ovflBalance), streams, now),
+    isLoading: false,
+    error: null,
+  })
+}
+
+describe('Portfolio', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('points wallets without positions to a deposit', async () => {
+    mockPortfolio(0n, [])
+    render(<Portfolio />, { wrapper: await walletWrapper() })
+
+    expect(screen.getByText(/No OVFL positions yet/)).toBeTruthy()
+  })
+
+  it('lists each series with its streams, claimable PT and days to maturity', async () => {
+    mockPortfolio(parseEther('2'), [stream(7n, parseEther('0.25'))])
+    render(<Portfolio />, { wrapper: await walletWrapper() })
+
+    expect(screen.getByText(MATURED.name)).toBeTruthy()
+    expect(screen.getByText('Matured')).toBeTruthy()
+    expect(screen.getByText(`2 ${MATURED.pt.symbol}`)).toBeTruthy()
+
+    expect(screen.getByText(MARKET.name)).toBeTruthy()
+    expect(screen.getByText('5 days to maturity')).toBeTruthy()
+    expect(screen.getByText('1 stream, withdrawable')).toBeTruthy()
+    // Withdrawable and still vesting, on the series row and in the totals
+    expect(screen.getAllByText('0.25 ovflWETH')).toHaveLength(2)
+    expect(screen.getAllByText('0.5 ovflWETH')).toHaveLength(2)
+  })
+
+  it('totals per underlying without counting the shared balance twice', async () => {
+    mockPortfolio(parseEther('2'), [stream(7n), stream(8n)])
+    render(<Portfolio />, { wrapper: await walletWrapper() })
+
+    expect(screen.getAllByText('WETH')).toHaveLength(1)
+    // The balance appears on each series row and once in the totals
+    expect(screen.getAllByText('2 ovflWETH')).toHaveLength(3)
+    expect(screen.getByText('2 PT')).toBeTruthy()
+    // Two half-vested streams of 1 ovflWETH
+    expect(screen.getAllByText('1 ovflWETH')).toHaveLength(4)
+  })
+
+  it('caps claimable PT at the reserves OVFL holds', async () => {
+    vi.mocked(usePortfolio).mockReturnValue({
+      ...buildPortfolio([MATURED], holdings(parseEther('2'), parseEther('0.5')), [], NOW),
+      isLoading: false,
+      error: null,
+    })
+    render(<Portfolio />, { wrapper: await walletWrapper() })
+
+    expect(screen.getByText(`0.5 ${MATURED.pt.symbol}`)).toBeTruthy()
+    expect(screen.getByText('0.5 PT')).toBeTruthy()
+  })
+
+  it('opens the Claim tab for matured series', async () => {
+    const onClaim = vi.fn()
+    mockPortfolio(parseEther('2'), [])
+    render(<Portfolio onClaim={onClaim} />, { wrapper: await walletWrapper() })
+
+    fireEvent.click(screen.getByRole('button', { name: 'Claim PT' }))
+    expect(onClaim).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { parseEther } from 'viem'
+import Preview from '../../src/components/Preview'
+import { useNow } from '../../src/hooks/useNow'
+import { DAY, MARKET, NOW } from '../utils'
+
+vi.mock('../../src/hooks/useNow', () => ({ useNow: vi.fn() }))
+
+const preview = {
+  toUser: parseEther('9.85'),
+  toStream: parseEther('0.15'),
+  feeAmount: parseEther('0.04925'),
+  rateE18: parseEther('0.985'),
+}
+
+describe('Preview', () => {
+  beforeEach(() => {
+    vi.mocked(useNow).mockReturnValue(NOW)
+  })
+
+  it('shows the immediate and streamed split, fee and rate', () => {
+    render(<Preview preview={preview} market={MARKET} expiry="Dec 26" />)
+
+    expect(screen.getByText('9.85 ovflWETH')).toBeTruthy()
+    expect(screen.getByText('0.15 ovflWETH')).toBeTruthy()
+    expect(screen.getByText('until Dec 26')).toBeTruthy()
+    expect(screen.getByText('0.0492 WETH')).toBeTruthy()
+    expect(screen.getByText('98.50%')).toBeTruthy()
+  })
+
+  it('shows the slippage-adjusted minimum', () => {
+    render(
+      <Preview preview={preview} market={MARKET} expiry="Dec 26" minToUser={parseEther('9.80075')} slippageBps={50} />
+    )
+
+    expect(screen.getByText('9.8007 ovflWETH')).toBeTruthy()
+    expect(screen.getByText('with 0.50% slippage')).toBeTruthy()
+  })
+
+  it('labels fee-free markets', () => {
+    render(<Preview preview={{ ...preview, feeAmount: 0n }} market={{ ...MARKET, feeBps: 0 }} expiry="Dec 26" />)
+
+    expect(screen.getByText('No fee')).toBeTruthy()
+    expect(screen.getByText(/at no cost/)).toBeTruthy()
+  })
+
+  it('quotes implied and effective APY until expiry', () => {
+    render(<Preview preview={preview} market={MARKET} expiry="Dec 26" />)
+
+    expect(screen.getByText('Implied fixed APY')).toBeTruthy()
+    expect(screen.getByText('after 0.50% fee')).toBeTruthy()
+    expect(screen.getByText(/pays nothing for 90 days/)).toBeTruthy()
+  })
+
+  it('drops the yield quote once the market has matured', () => {
+    vi.mocked(useNow).mockReturnValue(MARKET.expiry + DAY)
+    render(<Preview preview={preview} market={MARKET} expiry="Dec 26" />)
+
+    expect(screen.queryByText('Implied fixed APY')).toBeNull()
+  })
+
+  it('masks values while loading', () => {
+    render(<Preview preview={preview} market={MARKET} expiry="Dec 26" isLoading />)
+
+    expect(screen.queryByText('9.85 ovflWETH')).toBeNull()
+    expect(screen.getAllByText('...').length).toBeGreaterThan(0)
+  })
+})
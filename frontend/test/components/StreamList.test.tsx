@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { fireEvent, render, screen } from '@testing-library/react'
+import { parseEther } from 'viem'
+import StreamList from '../../src/components/StreamList'
+import { Stream, useStreams } from '../../src/hooks/useStreams'
+import { useWithdrawStream } from '../../src/hooks/useWithdrawStream'
+import { useNow } from '../../src/hooks/useNow'
+import { DAY, MARKET, NOW, walletWrapper } from '../utils'
+
+vi.mock('../../src/hooks/useStreams', () => ({ useStreams: vi.fn() }))
+vi.mock('../../src/hooks/useWithdrawStream', () => ({ useWithdrawStream: vi.fn() }))
+vi.mock('../../src/hooks/useNow', () => ({ useNow: vi.fn() }))
+
+const withdraw = vi.fn()
+const withdrawAll = vi.fn()
+
+// Halfway through a 10-day stream of 1 ovflWETH
+const stream = (id: bigint, withdrawn = 0n): Stream => ({
+  id,
+  asset: MARKET.ovfl,
+  deposited: parseEther('1'),
+  withdrawn,
+  withdrawable: parseEther('0.5') - withdrawn,
+  startTime: NOW - 5 * DAY,
+  endTime: NOW + 5 * DAY,
+  isDepleted: false,
+})
+
+function mockStreams(streams: Stream[]) {
+  vi.mocked(useStreams).mockReturnValue({ streams, isLoading: false, error: null })
+}
+
+describe('StreamList', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(useNow).mockReturnValue(NOW)
+    vi.mocked(useWithdrawStream).mockReturnValue({
+      withdraw,
+      withdrawAll,
+      pendingIds: [],
+      status: 'idle',
+      isLoading: false,
+      isSuccess: false,
+      error: null,
+      txHash: undefined,
+    })
+  })
+
+  it('renders nothing without active streams', async () => {
+    mockStreams([stream(1n, parseEther('1'))])
+    const { container } = render(<StreamList />, { wrapper: await walletWrapper() })
+
+    expect(container.textContent).toBe('')
+  })
+
+  it('shows vesting progress and the amount available', async () => {
+    mockStreams([stream(7n, parseEther('0.25'))])
+    render(<StreamList />, { wrapper: await walletWrapper() })
+
+    expect(screen.getByText('Stream #7')).toBeTruthy()
+    expect(screen.getByText('0.25/1')).toBeTruthy()
+    expect(screen.getByText('0.25 ovflWETH')).toBeTruthy()
+    expect(screen.getByText(/^5d/)).toBeTruthy()
+  })
+
+  it('withdraws a single stream', async () => {
+    mockStreams([stream(7n)])
+    render(<StreamList />, { wrapper: await walletWrapper() })
+
+    fireEvent.click(screen.getByRole('button', { name: 'Withdraw Available' }))
+    expect(withdraw).toHaveBeenCalledWith(7n)
+    expect(screen.queryByRole('button', { name: 'Withdraw All' })).toBeNull()
+  })
+
+  it('withdraws every stream with vested tokens at once', async () => {
+    mockStreams([stream(7n), stream(8n)])
+    render(<StreamList />, { wrapper: await walletWrapper() })
+
+    fireEvent.click(screen.getByRole('button', { name: 'Withdraw All' }))
+    expect(withdrawAll).toHaveBeenCalledWith([7n, 8n])
+  })
+
+  it('disables withdrawal before anything has vested', async () => {
+    mockStreams([{ ...stream(7n), startTime: NOW, endTime: NOW + 10 * DAY }])
+    render(<StreamList />, { wrapper: await walletWrapper() })
+
+    expect((screen.getByRole('button', { name: 'Withdraw Available' }) as HTMLButtonElement).disabled).toBe(true)
+  })
+})
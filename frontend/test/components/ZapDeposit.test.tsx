@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { fireEvent, render, screen } from '@testing-library/react'
+import { parseEther } from 'viem'
+import ZapDeposit from '../../src/components/ZapDeposit'
+import { useBalances } from '../../src/hooks/useBalances'
+import { useZapQuote } from '../../src/hooks/useZapQuote'
+import { useZap } from '../../src/hooks/useZap'
+import { useNow } from '../../src/hooks/useNow'
+import { MARKET, NOW, walletWrapper } from '../utils'
+
+vi.mock('../../src/hooks/useBalances', () => ({ useBalances: vi.fn() }))
+vi.mock('../../src/hooks/useZapQuote', () => ({ useZapQuote: vi.fn() }))
+vi.mock('../../src/hooks/useZap', () => ({ useZap: vi.fn() }))
+vi.mock('../../src/hooks/useNow', () => ({ useNow: vi.fn() }))
+
+const zap = vi.fn()
+
+const balance = (value: bigint) => ({ value, decimals: 18, formatted: '' })
+
+// 1 WETH buys ~1.015 PT at 0.985; 0.5% slippage leaves 1.01 PT to deposit
+const quote = {
+  source: 'underlying' as const,
+  tokenIn: MARKET.underlying,
+  amountIn: parseEther('1'),
+  ptOut: parseEther('1.015'),
+  minPtOut: parseEther('1.01'),
+  priceImpact: parseEther('0.0012'),
+  toUser: parseEther('0.99'),
+  toStream: parseEther('0.02'),
+  feeAmount: parseEther('0.005'),
+  rateE18: parseEther('0.985'),
+}
+
+function mockZap(steps: string[], canBatch = false) {
+  vi.mocked(useZap).mockReturnValue({
+    zap,
+    canBatch,
+    steps,
+    currentStep: 0,
+    status: 'idle',
+    isLoading: false,
+    isSuccess: false,
+    isReady: true,
+    error: null,
+  })
+}
+
+async function renderWithAmount(amount: string) {
+  render(<ZapDeposit market={MARKET} expiry="Mar 1" minPtAmount={parseEther('0.01')} />, {
+    wrapper: await walletWrapper(),
+  })
+  fireEvent.change(screen.getByPlaceholderText('0.0'), { target: { value: amount } })
+}
+
+const actionButton = () => screen.getByRole('button', { name: 'Buy and deposit' }) as HTMLButtonElement
+
+describe('ZapDeposit', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(useNow).mockReturnValue(NOW)
+    vi.mocked(useBalances).mockReturnValue({
+      pt: balance(0n),
+      ovfl: balance(0n),
+      underlying: balance(parseEther('2')),
+      sy: balance(parseEther('3')),
+      isLoading: false,
+    })
+    vi.mocked(useZapQuote).mockReturnValue({ quote, isLoading: false, error: null })
+    mockZap([`Approve ${MARKET.underlying.symbol}`, `Buy ${MARKET.pt.symbol}`, 'Deposit'])
+  })
+
+  it('previews the PT bought and the deposit split together', async () => {
+    await renderWithAmount('1')
+
+    expect(screen.getByText('1.015 PT-WETH-26DEC2025')).toBeTruthy()
+    expect(screen.getByText('1.01 PT-WETH-26DEC2025')).toBeTruthy()
+    expect(screen.getByText('0.99 ovflWETH')).toBeTruthy()
+    expect(screen.getByText('0.12%')).toBeTruthy()
+  })
+
+  it('deposits with the slippage-adjusted minimum and runs every step from one click', async () => {
+    await renderWithAmount('1')
+
+    expect(useZap).toHaveBeenLastCalledWith(MARKET, quote, (quote.toUser * 9_950n) / 10_000n)
+    expect(screen.getByText('3 transactions, each sent once the previous one confirms')).toBeTruthy()
+    fireEvent.click(actionButton())
+    expect(zap).toHaveBeenCalled()
+  })
+
+  it('tells batching wallets everything is signed at once', async () => {
+    mockZap([`Buy ${MARKET.pt.symbol}`, 'Deposit'], true)
+    await renderWithAmount('1')
+
+    expect(screen.getByText('Your wallet runs all 2 steps in a single batch')).toBeTruthy()
+  })
+
+  it('quotes from SY against the SY balance', async () => {
+    await renderWithAmount('1')
+    fireEvent.click(screen.getByRole('button', { name: MARKET.sy.symbol }))
+
+    expect(useZapQuote).toHaveBeenLastCalledWith(MARKET, 'sy', parseEther('1'), 50)
+    expect(screen.getByText(`3 ${MARKET.sy.symbol}`)).toBeTruthy()
+  })
+
+  it('blocks when the swap and the fee together exceed the underlying balance', async () => {
+    vi.mocked(useBalances).mockReturnValue({
+      pt: balance(0n),
+      ovfl: balance(0n),
+      underlying: balance(parseEther('1')),
+      sy: balance(0n),
+      isLoading: false,
+    })
+    await renderWithAmount('1')
+
+    expect(screen.getByText(`Insufficient ${MARKET.underlying.symbol} to pay the fee`)).toBeTruthy()
+    expect(actionButton().disabled).toBe(true)
+  })
+})
@@ -0,0 +1,56 @@
+import { ChildProcess, spawn } from 'node:child_process'
+import type { GlobalSetupContext } from 'vitest/node'
+import { createPublicClient, http } from 'viem'
+import { deployDevnet, Devnet, hasArtifacts } from '../../scripts/devnet'
+
+// Away from 8545 so a dev node left running is never touched
+const PORT = 8645
+export const RPC_URL = `http://127.0.0.1:${PORT}`
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    // null when Anvil or the Foundry build is unavailable, which skips the integration tests
+    devnet: Devnet | null
+  }
+}
+
+async function waitForNode(anvil: ChildProcess) {
+  const client = createPublicClient({ transport: http(RPC_URL) })
+  for (let attempt = 0; attempt < 50; attempt++) {
+    // No pid means anvil could not be spawned at all
+    if (anvil.pid === undefined || anvil.exitCode !== null) return false
+    try {
+      await client.getChainId()
+      return true
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 200))
+    }
+  }
+  return false
+}
+
+export default async function setup({ provide }: GlobalSetupContext) {
+  provide('devnet', null)
+  if (!hasArtifacts()) {
+    console.warn('Skipping integration tests: no Foundry build in ../out (run forge build)')
+    return
+  }
+
+  const anvil = spawn('anvil', ['--port', String(PORT), '--silent'], { stdio: 'ignore' })
+  const started = await new Promise<boolean>((resolve) => {
+    anvil.once('error', () => resolve(false))
+    waitForNode(anvil).then(resolve)
+  })
+  if (!started) {
+    console.warn('Skipping integration tests: could not start anvil')
+    anvil.kill()
+    return
+  }
+
+  const devnet = await deployDevnet(RPC_URL)
+  provide('devnet', devnet)
+
+  return () => {
+    anvil.kill()
+  }
+}
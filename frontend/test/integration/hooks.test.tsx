@@ -0,0 +1,288 @@
+import { beforeAll, describe, expect, inject, it, vi } from 'vitest'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { createPublicClient, createTestClient, createWalletClient, http, parseEther } from 'viem'
+import { ADMIN_ABI } from '../../src/abi/admin'
+import { ERC20_ABI } from '../../src/abi/ovfl'
+import { fetchMarkets, Market } from '../../src/lib/markets'
+import * as sdk from '../../src/sdk'
+import { useApprovals } from '../../src/hooks/useApprovals'
+import { useClaim } from '../../src/hooks/useClaim'
+import { useClaimRedeem } from '../../src/hooks/useClaimRedeem'
+import { useDeposit } from '../../src/hooks/useDeposit'
+import { usePortfolio } from '../../src/hooks/usePortfolio'
+import { usePreview } from '../../src/hooks/usePreview'
+import { useRedeemQuote } from '../../src/hooks/useRedeemQuote'
+import { useStreams } from '../../src/hooks/useStreams'
+import { useZap } from '../../src/hooks/useZap'
+import { useZapQuote } from '../../src/hooks/useZapQuote'
+import { devAccount, devChain, FEE_BPS } from '../../scripts/devnet'
+import { connectWallet, createTestConfig, createWrapper } from '../utils'
+import { RPC_URL } from './anvil'
+
+// Hooks read addresses from the contracts deployed by the global setup
+vi.mock('../../src/hooks/useDeployment', async () => {
+  const { inject } = await import('vitest')
+  const { LOCAL_CHAIN } = await import('../../src/deployments')
+  const devnet = inject('devnet')
+  return {
+    useDeployment: () => ({
+      chainId: LOCAL_CHAIN.id,
+      deployment: devnet && { ...devnet.deployment, startBlock: BigInt(devnet.deployment.startBlock) },
+      isSupported: true,
+      isLocal: true,
+    }),
+  }
+})
+
+const devnet = inject('devnet')
+const WAIT = { timeout: 10_000 }
+
+describe.skipIf(!devnet)('hooks against Anvil', () => {
+  const chain = devChain(RPC_URL)
+  const transport = http(RPC_URL)
+  const client = createPublicClient({ chain, transport })
+  const testClient = createTestClient({ chain, mode: 'anvil', transport })
+  const admin = createWalletClient({ account: devAccount(0), chain, transport })
+  const user = devAccount(1)
+  const ptAmount = parseEther('10')
+
+  let market: Market
+  let wrapper: ReturnType<typeof createWrapper>
+
+  const balanceOf = (token: `0x${string}`) =>
+    client.readContract({ address: token, abi: ERC20_ABI, functionName: 'balanceOf', args: [user.address] })
+
+  const setDepositLimit = async (limit: bigint) => {
+    const hash = await admin.writeContract({
+      address: devnet!.deployment.admin,
+      abi: ADMIN_ABI,
+      functionName: 'setMarketDepositLimit',
+      args: [market.address, limit],
+    })
+    await client.waitForTransactionReceipt({ hash })
+  }
+
+  // Moves the chain to the market's expiry unless an earlier test already has
+  const warpToExpiry = async () => {
+    const { timestamp } = await client.getBlock()
+    if (timestamp >= BigInt(market.expiry)) return
+    await testClient.setNextBlockTimestamp({ timestamp: BigInt(market.expiry) })
+    await testClient.mine({ blocks: 1 })
+  }
+
+  const renderFlow = (amount: bigint) =>
+    renderHook(
+      () => {
+        const { preview } = usePreview(market, amount)
+        return {
+          preview,
+          approvals: useApprovals(market, amount, preview?.feeAmount ?? 0n),
+          deposit: useDeposit(),
+          claim: useClaim(),
+          streams: useStreams().streams,
+        }
+      },
+      { wrapper }
+    )
+
+  beforeAll(async () => {
+    const { deployment } = devnet!
+    ;[market] = await fetchMarkets(client, {
+      ovfl: deployment.ovfl,
+      admin: deployment.admin,
+      fromBlock: BigInt(deployment.startBlock),
+    })
+
+    const config = createTestConfig(chain, user.address)
+    await connectWallet(config)
+    wrapper = createWrapper(config)
+  })
+
+  it('previews the split and fee at the oracle rate', async () => {
+    const { result } = renderFlow(ptAmount)
+    await waitFor(() => expect(result.current.preview).not.toBeNull(), WAIT)
+
+    const { toUser, toStream, feeAmount, rateE18 } = result.current.preview!
+    expect(rateE18).toBeGreaterThan(parseEther('0.98'))
+    expect(rateE18).toBeLessThan(parseEther('1'))
+    expect(toUser + toStream).toBe(ptAmount)
+    expect(feeAmount).toBe((toUser * BigInt(FEE_BPS)) / 10_000n)
+  })
+
+  it('approves PT, then the fee token', async () => {
+    const { result } = renderFlow(ptAmount)
+    await waitFor(() => expect(result.current.approvals.step).toBe('approve-pt'), WAIT)
+
+    await act(() => result.current.approvals.approve('exact'))
+    await waitFor(() => expect(result.current.approvals.step).toBe('approve-fee'), WAIT)
+
+    await act(() => result.current.approvals.approve('exact'))
+    await waitFor(() => expect(result.current.approvals.step).toBe('deposit'), WAIT)
+  })
+
+  it('reverts deposits below the minimum immediate amount', async () => {
+    const { result } = renderFlow(ptAmount)
+    await waitFor(() => expect(result.current.preview).not.toBeNull(), WAIT)
+
+    await act(() => result.current.deposit.deposit({ market, ptAmount, minToUser: ptAmount }))
+    expect(result.current.deposit.status).toBe('failed')
+    expect(result.current.deposit.error?.message).toContain('OVFL: slippage')
+  })
+
+  it('reverts deposits above the market limit', async () => {
+    await setDepositLimit(parseEther('5'))
+    const { result } = renderFlow(ptAmount)
+
+    await act(() => result.current.deposit.deposit({ market, ptAmount, minToUser: 0n }))
+    expect(result.current.deposit.error?.message).toContain('OVFL: deposit limit exceeded')
+
+    await setDepositLimit(0n)
+  })
+
+  it('deposits, mints ovflTokens and opens a stream', async () => {
+    const { result } = renderFlow(ptAmount)
+    await waitFor(() => expect(result.current.preview).not.toBeNull(), WAIT)
+    const minToUser = (result.current.preview!.toUser * 9_950n) / 10_000n
+
+    await act(() => result.current.deposit.deposit({ market, ptAmount, minToUser }))
+    expect(result.current.deposit.status).toBe('confirmed')
+
+    const deposited = result.current.deposit.result!
+    expect(deposited.toUser).toBeGreaterThanOrEqual(minToUser)
+    expect(deposited.toUser + deposited.toStream).toBe(ptAmount)
+    expect(await balanceOf(market.ovfl.address)).toBe(deposited.toUser)
+
+    await waitFor(() => expect(result.current.streams).toHaveLength(1), WAIT)
+    const [stream] = result.current.streams
+    expect(stream.id).toBe(deposited.streamId)
+    expect(stream.deposited).toBe(deposited.toStream)
+    expect(stream.endTime).toBe(market.expiry)
+  })
+
+  it('buys PT with WETH and deposits it, one transaction per step', async () => {
+    const amountIn = parseEther('1')
+    const { result } = renderHook(
+      () => {
+        const { quote } = useZapQuote(market, 'underlying', amountIn, 50)
+        const minToUser = quote ? (quote.toUser * 9_950n) / 10_000n : undefined
+        return { quote, zap: useZap(market, quote, minToUser) }
+      },
+      { wrapper }
+    )
+    await waitFor(() => expect(result.current.zap.isReady).toBe(true), WAIT)
+
+    // The mock connector reports no atomic batching on Anvil
+    expect(result.current.zap.canBatch).toBe(false)
+    expect(result.current.zap.steps).toEqual([
+      `Approve ${market.underlying.symbol}`,
+      `Buy ${market.pt.symbol}`,
+      `Approve ${market.pt.symbol}`,
+      `Approve ${market.underlying.symbol} for fee`,
+      'Deposit',
+    ])
+
+    const { minPtOut } = result.current.quote!
+    const wethBefore = await balanceOf(market.underlying.address)
+    const ovflBefore = await balanceOf(market.ovfl.address)
+
+    await act(() => result.current.zap.zap())
+    expect(result.current.zap.status).toBe('confirmed')
+
+    // PT trades below par, so 1 WETH buys more than 1 PT. The fee comes out of WETH on top of the swap.
+    expect(minPtOut).toBeGreaterThan(amountIn)
+    expect(await balanceOf(market.underlying.address)).toBeLessThan(wethBefore - amountIn)
+    expect(await balanceOf(market.ovfl.address)).toBeGreaterThan(ovflBefore)
+  })
+
+  it('aggregates the balance and stream of the series before maturity', async () => {
+    const { result } = renderHook(() => usePortfolio(), { wrapper })
+    await waitFor(() => expect(result.current.positions).toHaveLength(1), WAIT)
+
+    const [position] = result.current.positions
+    expect(position.market.address).toBe(market.address)
+    expect(position.ovflBalance).toBe(await balanceOf(market.ovfl.address))
+    expect(position.streams.length).toBeGreaterThan(0)
+    expect(position.isMatured).toBe(false)
+    expect(position.claimablePt).toBe(0n)
+    expect(position.daysLeft).toBeGreaterThan(0)
+
+    const [total] = result.current.totals
+    expect(total.underlying.address).toBe(market.underlying.address)
+    expect(total.ovflBalance).toBe(position.ovflBalance)
+    expect(total.withdrawable + total.vesting).toBe(
+      position.streams.reduce((sum, s) => sum + s.deposited - s.withdrawn, 0n)
+    )
+  })
+
+  it('deposits through the SDK, sending the approvals it needs', async () => {
+    const wallet = createWalletClient({ account: devAccount(2), chain, transport })
+    const contracts = { ...devnet!.deployment, startBlock: BigInt(devnet!.deployment.startBlock) }
+
+    const stream = await sdk.previewStream(client, contracts, market, ptAmount)
+    expect(stream.endTime).toBe(market.expiry)
+
+    const result = await sdk.deposit(client, wallet, contracts, { market, ptAmount, slippageBps: 50 })
+    expect(result.toUser + result.toStream).toBe(ptAmount)
+
+    const streams = await sdk.listStreams(client, contracts, wallet.account.address, [market])
+    expect(streams.map((s) => s.id)).toEqual([result.streamId])
+    expect(streams[0].asset).toEqual(market.ovfl)
+
+    const error = await sdk.claim(client, wallet, contracts, { market, amount: result.toUser }).catch((err) => err)
+    expect(error).toBeInstanceOf(sdk.OvflError)
+    expect(error.code).toBe('NOT_MATURED')
+  })
+
+  it('gates claims until maturity', async () => {
+    const { result } = renderFlow(ptAmount)
+
+    await act(() => result.current.claim.claim({ market, amount: parseEther('1') }))
+    expect(result.current.claim.error?.message).toContain('OVFL: not matured')
+  })
+
+  it('claims and redeems PT to WETH through the router after maturity', async () => {
+    await warpToExpiry()
+    const amount = (await balanceOf(market.ovfl.address)) / 2n
+    const { result } = renderHook(
+      () => {
+        const { amountOut } = useRedeemQuote(market, amount)
+        const minTokenOut = amountOut !== undefined ? (amountOut * 9_950n) / 10_000n : undefined
+        return { amountOut, flow: useClaimRedeem(market, amount, minTokenOut) }
+      },
+      { wrapper }
+    )
+    await waitFor(() => expect(result.current.flow.isReady).toBe(true), WAIT)
+
+    // The mock SY wraps WETH 1:1, so matured PT redeems 1:1 too
+    expect(result.current.amountOut).toBe(amount)
+    expect(result.current.flow.steps).toEqual(['Claim', `Approve ${market.pt.symbol}`, `Redeem to ${market.underlying.symbol}`])
+
+    const ovflBefore = await balanceOf(market.ovfl.address)
+    const ptBefore = await balanceOf(market.pt.address)
+    const wethBefore = await balanceOf(market.underlying.address)
+
+    await act(() => result.current.flow.claimAndRedeem())
+    expect(result.current.flow.status).toBe('confirmed')
+
+    expect(await balanceOf(market.ovfl.address)).toBe(ovflBefore - amount)
+    expect(await balanceOf(market.pt.address)).toBe(ptBefore)
+    expect(await balanceOf(market.underlying.address)).toBe(wethBefore + amount)
+  })
+
+  it('claims PT 1:1 for ovflTokens after maturity', async () => {
+    await warpToExpiry()
+
+    const { result } = renderFlow(ptAmount)
+    const ovflBefore = await balanceOf(market.ovfl.address)
+    const ptBefore = await balanceOf(market.pt.address)
+
+    await act(() => result.current.claim.claim({ market, amount: ovflBefore }))
+    expect(result.current.claim.status).toBe('confirmed')
+
+    const claimed = result.current.claim.result!
+    expect(claimed.burnedAmount).toBe(ovflBefore)
+    expect(claimed.ptOut).toBe(ovflBefore)
+    expect(await balanceOf(market.ovfl.address)).toBe(0n)
+    expect(await balanceOf(market.pt.address)).toBe(ptBefore + ovflBefore)
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { ContractFunctionRevertedError, encodeErrorResult, HttpRequestError, UserRejectedRequestError } from 'viem'
+import { toUserError } from '../../src/lib/errors'
+import { OvflError, toOvflError } from '../../src/sdk'
+
+const revertWith = (reason: string) =>
+  new ContractFunctionRevertedError({
+    abi: [],
+    functionName: 'deposit',
+    data: encodeErrorResult({
+      abi: [{ type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] }],
+      errorName: 'Error',
+      args: [reason],
+    }),
+  })
+
+describe('toUserError', () => {
+  it.each([
+    ['OVFL: slippage', 'SLIPPAGE', 'Price moved'],
+    ['Admin: already queued', 'ALREADY_QUEUED', 'Already queued'],
+    ['Admin: market not approved', 'MARKET_NOT_APPROVED', 'Market not available'],
+    ['ERC20: burn amount exceeds balance', 'INSUFFICIENT_BALANCE', 'Insufficient balance'],
+  ])('words the %s revert by its SDK code', (reason, code, title) => {
+    const err = revertWith(reason)
+
+    expect(toOvflError(err).code).toBe(code)
+    expect(toUserError(err).title).toBe(title)
+    expect(toUserError(toOvflError(err)).title).toBe(title)
+  })
+
+  it.each([
+    ['a wallet rejection', new UserRejectedRequestError(new Error('denied')), 'Request rejected'],
+    ['an RPC failure', new HttpRequestError({ url: 'http://rpc', status: 502 }), 'Network error'],
+    ['an SDK error with no viem cause', new OvflError('NOTHING_TO_WITHDRAW', 'Stream #1'), 'Nothing to withdraw'],
+    ['a mined revert', new OvflError('TX_REVERTED', 'Transaction 0x01 reverted'), 'Transaction reverted'],
+  ])('words %s by its SDK code', (_case, err, title) => {
+    expect(toUserError(err).title).toBe(title)
+  })
+
+  it('falls back to the raw reason for reverts the SDK does not know', () => {
+    expect(toUserError(revertWith('Custom: nope'))).toEqual({
+      title: 'Transaction would fail',
+      message: 'Custom: nope',
+    })
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest'
+import { PublicClient } from 'viem'
+import { fetchMarkets } from '../../src/lib/markets'
+import { LOG_WINDOW } from '../../src/lib/rpc'
+
+const contracts = {
+  ovfl: '0x0000000000000000000000000000000000000001',
+  admin: '0x0000000000000000000000000000000000000002',
+  fromBlock: 100n,
+} as const
+const GOOD = '0x00000000000000000000000000000000000000a1'
+const BROKEN = '0x00000000000000000000000000000000000000a2'
+const PT = '0x00000000000000000000000000000000000000b1'
+const OVFL_TOKEN = '0x00000000000000000000000000000000000000c1'
+const UNDERLYING = '0x00000000000000000000000000000000000000d1'
+const SY = '0x00000000000000000000000000000000000000e1'
+const YT = '0x00000000000000000000000000000000000000f1'
+
+// OVFL.series(market) for an approved market
+const series = [true, 900, 50, 1_800_000_000n, PT, OVFL_TOKEN, UNDERLYING] as const
+
+describe('fetchMarkets', () => {
+  it('scans MarketApproved in windows and leaves out markets whose readTokens fails', async () => {
+    const getContractEvents = vi
+      .fn()
+      .mockResolvedValueOnce([{ args: { market: GOOD } }])
+      .mockResolvedValueOnce([{ args: { market: BROKEN } }])
+    const multicall = vi
+      .fn()
+      .mockResolvedValueOnce([series, series])
+      .mockResolvedValueOnce([
+        { status: 'success', result: [SY, PT, YT] },
+        { status: 'failure', error: new Error('execution reverted') },
+      ])
+      .mockImplementationOnce(({ contracts: calls }: { contracts: { address: string; functionName: string }[] }) =>
+        calls.map((call) => ({
+          status: 'success',
+          result: call.functionName === 'symbol' ? `T${call.address.slice(-2)}` : 18,
+        }))
+      )
+    const client = {
+      getBlockNumber: vi.fn().mockResolvedValue(100n + LOG_WINDOW),
+      getContractEvents,
+      multicall,
+    } as unknown as PublicClient
+
+    const markets = await fetchMarkets(client, contracts)
+
+    expect(getContractEvents.mock.calls.map(([args]) => [args.fromBlock, args.toBlock])).toEqual([
+      [100n, 99n + LOG_WINDOW],
+      [100n + LOG_WINDOW, 100n + LOG_WINDOW],
+    ])
+    expect(markets).toEqual([
+      {
+        address: GOOD,
+        name: 'Tb1',
+        expiry: 1_800_000_000,
+        feeBps: 50,
+        twapDuration: 900,
+        pt: { address: PT, symbol: 'Tb1', decimals: 18 },
+        ovfl: { address: OVFL_TOKEN, symbol: 'Tc1', decimals: 18 },
+        underlying: { address: UNDERLYING, symbol: 'Td1', decimals: 18 },
+        sy: { address: SY, symbol: 'Te1', decimals: 18 },
+        yt: YT,
+      },
+    ])
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { blockWindows, mapLimit } from '../../src/lib/rpc'
+
+describe('blockWindows', () => {
+  it('covers the range in windows of at most `size` blocks', () => {
+    expect(blockWindows(10n, 34n, 10n)).toEqual([
+      { fromBlock: 10n, toBlock: 19n },
+      { fromBlock: 20n, toBlock: 29n },
+      { fromBlock: 30n, toBlock: 34n },
+    ])
+  })
+
+  it('returns one window for a single block and none for an empty range', () => {
+    expect(blockWindows(5n, 5n, 10n)).toEqual([{ fromBlock: 5n, toBlock: 5n }])
+    expect(blockWindows(6n, 5n, 10n)).toEqual([])
+  })
+})
+
+describe('mapLimit', () => {
+  it('keeps results in input order with no more than `limit` calls in flight', async () => {
+    let inFlight = 0
+    let peak = 0
+    const results = await mapLimit([30, 10, 20, 0, 5], 2, async (ms) => {
+      peak = Math.max(peak, ++inFlight)
+      await new Promise((resolve) => setTimeout(resolve, ms))
+      inFlight--
+      return ms * 2
+    })
+
+    expect(results).toEqual([60, 20, 40, 0, 10])
+    expect(peak).toBe(2)
+  })
+})
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { parseEther } from 'viem'
+import { quoteYield } from '../../src/lib/yield'
+
+const YEAR = 365 * 86_400
+
+describe('quoteYield', () => {
+  it('charges the fee on top of the up-front rate', () => {
+    // One PT of face value costs 0.95 * 1.01 = 0.9595, so it grows by 1 / 0.9595 over the year
+    const quote = quoteYield(parseEther('0.95'), parseEther('0.05'), 100, YEAR, 0)!
+
+    expect(quote.impliedApy).toBeCloseTo(0.0526315789, 9)
+    expect(quote.effectiveApy).toBeCloseTo(0.0422094841, 9)
+    expect(quote.feeDragApy).toBeCloseTo(0.0104220948, 9)
+    expect(quote.streamedPerDay).toBe(parseEther('0.05') / 365n)
+  })
+
+  it('annualizes over the time left to expiry', () => {
+    // 1 / 0.9595 over half a year compounds to (1 / 0.9595)^2 - 1 a year
+    const quote = quoteYield(parseEther('0.95'), parseEther('0.05'), 100, YEAR / 2, 0)!
+
+    expect(quote.effectiveApy).toBeCloseTo(0.0862006088, 9)
+  })
+
+  it('has no yield at par and no quote after expiry', () => {
+    expect(quoteYield(parseEther('1'), 0n, 100, YEAR, 0)).toMatchObject({ impliedApy: 0, effectiveApy: 0 })
+    expect(quoteYield(parseEther('0.95'), 0n, 100, YEAR, YEAR)).toBeNull()
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import { expectArgs, parseCli, parseInteger, parseTokenAmount, UsageError } from '../../scripts/cli/args'
+import { Cli, resolveMarket } from '../../scripts/cli/context'
+import { Market } from '../../src/lib/markets'
+import { MARKET } from '../utils'
+
+describe('parseCli', () => {
+  it('splits positionals from options and applies defaults', () => {
+    expect(parseCli(['deposit', 'PT-WETH', '1.5'])).toEqual({
+      positionals: ['deposit', 'PT-WETH', '1.5'],
+      options: {
+        json: false,
+        dryRun: false,
+        keystore: undefined,
+        from: undefined,
+        slippageBps: undefined,
+        unlimited: false,
+        help: false,
+      },
+    })
+  })
+
+  it('reads every option, checksumming --from', () => {
+    const { positionals, options } = parseCli([
+      'admin',
+      'sweep',
+      '--json',
+      '--dry-run',
+      '--keystore',
+      'deployer',
+      '--from',
+      '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+      '--slippage',
+      '25',
+      '--unlimited',
+      '-h',
+    ])
+
+    expect(positionals).toEqual(['admin', 'sweep'])
+    expect(options).toEqual({
+      json: true,
+      dryRun: true,
+      keystore: 'deployer',
+      from: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      slippageBps: 25,
+      unlimited: true,
+      help: true,
+    })
+  })
+
+  it.each([
+    [['--slippage', '10001'], '--slippage takes basis points from 0 to 10000, got "10001"'],
+    [['--slippage', '0.5'], '--slippage takes basis points from 0 to 10000, got "0.5"'],
+    [['--slippage=-1'], '--slippage takes basis points from 0 to 10000, got "-1"'],
+    [['--from', '0x1234'], '--from must be an address, got "0x1234"'],
+    [['--bogus'], "Unknown option '--bogus'"],
+  ])('rejects %j', (argv, message) => {
+    expect(() => parseCli(argv)).toThrow(UsageError)
+    expect(() => parseCli(argv)).toThrow(message)
+  })
+
+  it('accepts the slippage bounds', () => {
+    expect(parseCli(['--slippage', '0']).options.slippageBps).toBe(0)
+    expect(parseCli(['--slippage', '10000']).options.slippageBps).toBe(10_000)
+  })
+})
+
+describe('expectArgs', () => {
+  it('names the first missing argument', () => {
+    expect(() => expectArgs(['market'], ['market', 'amount'])).toThrow('Missing <amount>')
+  })
+
+  it('rejects arguments past the optional ones', () => {
+    expect(() => expectArgs(['a', 'b', 'c'], ['market'], 1)).toThrow('Unexpected argument "c"')
+  })
+
+  it('accepts the required arguments with or without the optional ones', () => {
+    expect(() => expectArgs(['a'], ['market'], 1)).not.toThrow()
+    expect(() => expectArgs(['a', 'b'], ['market'], 1)).not.toThrow()
+  })
+})
+
+describe('parseTokenAmount and parseInteger', () => {
+  it('parses amounts up to the token decimals', () => {
+    expect(parseTokenAmount('1.5', 6, '<amount>')).toBe(1_500_000n)
+    expect(() => parseTokenAmount('1.0000001', 6, '<amount>')).toThrow('at most 6 decimals')
+  })
+
+  it('only takes whole numbers', () => {
+    expect(parseInteger('900', '<twap>')).toBe(900)
+    expect(() => parseInteger('9e2', '<twap>')).toThrow('<twap> must be a whole number')
+    expect(() => parseInteger('-1', '<twap>')).toThrow(UsageError)
+  })
+})
+
+describe('resolveMarket', () => {
+  const other: Market = {
+    ...MARKET,
+    address: '0x00000000000000000000000000000000000000a2',
+    name: 'PT-stETH-26JUN2026',
+    pt: { address: '0x00000000000000000000000000000000000000b2', symbol: 'PT-stETH-26JUN2026', decimals: 18 },
+  }
+  const cli = { markets: async () => [MARKET, other] } as unknown as Cli
+
+  it.each([
+    ['its address', '0x00000000000000000000000000000000000000A2'],
+    ['its name', 'pt-steth-26jun2026'],
+    ['its PT address', '0x00000000000000000000000000000000000000b2'],
+  ])('finds a market by %s, ignoring case', async (_by, input) => {
+    await expect(resolveMarket(cli, input)).resolves.toBe(other)
+  })
+
+  it('rejects markets that are not approved', async () => {
+    await expect(resolveMarket(cli, 'PT-USDC')).rejects.toThrow(UsageError)
+    await expect(resolveMarket(cli, 'PT-USDC')).rejects.toThrow('Unknown market "PT-USDC"')
+  })
+})
@@ -0,0 +1,319 @@
+import { mkdtempSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Account, Chain, PublicClient, TransactionReceipt, Transport, WalletClient } from 'viem'
+import { Keeper, tick } from '../../scripts/keeper/execute'
+import { BumpOptions, sendWithBumps } from '../../scripts/keeper/send'
+import { KeeperState, PendingEntry, SentTx } from '../../scripts/keeper/state'
+import { syncPending } from '../../scripts/keeper/sync'
+import { LOG_WINDOW } from '../../src/lib/rpc'
+import { OvflContracts } from '../../src/sdk'
+
+const contracts: OvflContracts = {
+  ovfl: '0x0000000000000000000000000000000000000001',
+  admin: '0x0000000000000000000000000000000000000002',
+  sablierLockupLinear: '0x0000000000000000000000000000000000000003',
+  startBlock: 100n,
+}
+const SIGNER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'
+const UNDERLYING = '0x00000000000000000000000000000000000000d1'
+const A = '0x00000000000000000000000000000000000000a1'
+const B = '0x00000000000000000000000000000000000000a2'
+const C = '0x00000000000000000000000000000000000000a3'
+
+const entry = (fields: Partial<PendingEntry> = {}): PendingEntry => ({
+  twapDuration: 900,
+  feeBps: 50,
+  eta: 1_000,
+  underlying: UNDERLYING,
+  attempts: 0,
+  ...fields,
+})
+
+const stateWith = (pending: KeeperState['pending'], lastBlock = 1_000n): KeeperState => ({
+  chainId: 1,
+  admin: contracts.admin,
+  lastBlock: lastBlock.toString(),
+  pending,
+})
+
+// pendingMarkets(market) as Admin returns it
+const pendingResult = (queued: boolean, eta = 0) => [queued, 900, 50, BigInt(eta), UNDERLYING] as const
+
+const receipt = (hash: `0x${string}`, status: 'success' | 'reverted' = 'success') =>
+  ({ transactionHash: hash, blockNumber: 1n, status }) as TransactionReceipt
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('syncPending', () => {
+  it('re-reads every market the events touched and applies queues, re-queues and cancels', async () => {
+    const state = stateWith({
+      // Cancelled, then queued again with a new eta
+      [A]: entry({
+        eta: 1_000,
+        attempts: 3,
+        retryAt: 2_000,
+        tx: { nonce: 4, hashes: ['0x01'], maxFeePerGas: '1', maxPriorityFeePerGas: '1' },
+      }),
+      // Cancelled
+      [B]: entry({ eta: 1_000 }),
+    })
+    const logs = [
+      { eventName: 'MarketCancelled', args: { market: A } },
+      { eventName: 'MarketQueued', args: { market: A } },
+      { eventName: 'MarketCancelled', args: { market: B } },
+      { eventName: 'MarketQueued', args: { market: C } },
+      { eventName: 'UnderlyingApproved', args: { underlying: UNDERLYING } },
+    ]
+    const multicall = vi
+      .fn()
+      .mockResolvedValue([pendingResult(true, 5_000), pendingResult(false), pendingResult(true, 6_000)])
+    const client = { getContractEvents: vi.fn().mockResolvedValue(logs), multicall } as unknown as PublicClient
+
+    const changes = await syncPending(client, contracts, state, 1_010n)
+
+    expect(changes).toEqual({ queued: [A, C], removed: [B] })
+    expect(state.pending).toEqual({ [A]: entry({ eta: 5_000 }), [C]: entry({ eta: 6_000 }) })
+    expect(state.lastBlock).toBe('1010')
+    expect(multicall).toHaveBeenCalledWith(expect.objectContaining({ blockNumber: 1_010n }))
+  })
+
+  it('keeps retries and transactions in flight for markets whose eta did not change', async () => {
+    const tx: SentTx = { nonce: 4, hashes: ['0x01'], maxFeePerGas: '1', maxPriorityFeePerGas: '1' }
+    const state = stateWith({ [A]: entry({ eta: 5_000, attempts: 2, retryAt: 3_000, tx }) })
+    const client = {
+      getContractEvents: vi.fn().mockResolvedValue([{ eventName: 'MarketQueued', args: { market: A } }]),
+      multicall: vi.fn().mockResolvedValue([pendingResult(true, 5_000)]),
+    } as unknown as PublicClient
+
+    expect(await syncPending(client, contracts, state, 1_010n)).toEqual({ queued: [], removed: [] })
+    expect(state.pending[A]).toEqual(entry({ eta: 5_000, attempts: 2, retryAt: 3_000, tx }))
+  })
+
+  it('scans from the start block in windows, rescanning the reorg depth on later syncs', async () => {
+    const getContractEvents = vi.fn().mockResolvedValue([])
+    const client = { getContractEvents, multicall: vi.fn() } as unknown as PublicClient
+    const head = contracts.startBlock + 2n * LOG_WINDOW
+
+    const state = stateWith({}, contracts.startBlock - 1n)
+    await syncPending(client, contracts, state, head)
+
+    expect(getContractEvents.mock.calls.map(([args]) => [args.fromBlock, args.toBlock])).toEqual([
+      [100n, 100n + LOG_WINDOW - 1n],
+      [100n + LOG_WINDOW, 100n + 2n * LOG_WINDOW - 1n],
+      [head, head],
+    ])
+    expect(client.multicall).not.toHaveBeenCalled()
+
+    getContractEvents.mockClear()
+    await syncPending(client, contracts, state, head + 5n)
+    expect(getContractEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBlock: head - 11n, toBlock: head + 5n })
+    )
+  })
+})
+
+describe('sendWithBumps', () => {
+  const options: BumpOptions = { bumpAfter: 0, maxBumps: 2, pollInterval: 0 }
+  const call = { functionName: 'executeAddMarket', args: [A] } as const
+
+  // A chain where `mined` lists the hashes with a receipt and `latestNonce` counts mined nonces
+  function stubs(chain: { mined: `0x${string}`[]; latestNonce: number; pendingNonce?: number }) {
+    const client = {
+      getTransactionReceipt: vi.fn(async ({ hash }: { hash: `0x${string}` }) => {
+        if (!chain.mined.includes(hash)) throw new Error('receipt not found')
+        return receipt(hash)
+      }),
+      getTransactionCount: vi.fn(async ({ blockTag }: { blockTag: string }) =>
+        blockTag === 'pending' ? (chain.pendingNonce ?? chain.latestNonce) : chain.latestNonce
+      ),
+      estimateFeesPerGas: vi.fn().mockResolvedValue({ maxFeePerGas: 1_000n, maxPriorityFeePerGas: 100n }),
+    } as unknown as PublicClient
+    const wallet = {
+      account: { address: SIGNER },
+      chain: { id: 1 },
+      writeContract: vi.fn(),
+    } as unknown as WalletClient<Transport, Chain, Account>
+    return { client, wallet, writeContract: vi.mocked(wallet.writeContract) }
+  }
+
+  it('returns the receipt of a resumed transaction that was mined while the keeper was down', async () => {
+    const { client, wallet, writeContract } = stubs({ mined: ['0x02'], latestNonce: 6 })
+    const tx: SentTx = { nonce: 5, hashes: ['0x01', '0x02'], maxFeePerGas: '1000', maxPriorityFeePerGas: '100' }
+
+    const result = await sendWithBumps(client, wallet, contracts.admin, call, tx, options, vi.fn())
+
+    expect(result.transactionHash).toBe('0x02')
+    expect(writeContract).not.toHaveBeenCalled()
+  })
+
+  it('starts over at a fresh nonce when a resumed nonce went to another transaction', async () => {
+    const chain = { mined: [] as `0x${string}`[], latestNonce: 6, pendingNonce: 7 }
+    const { client, wallet, writeContract } = stubs(chain)
+    writeContract.mockImplementation(async () => {
+      chain.mined.push('0xaa')
+      return '0xaa'
+    })
+    const onSent = vi.fn()
+    const tx: SentTx = { nonce: 5, hashes: ['0x01'], maxFeePerGas: '500', maxPriorityFeePerGas: '50' }
+
+    const result = await sendWithBumps(client, wallet, contracts.admin, call, tx, options, onSent)
+
+    expect(result.transactionHash).toBe('0xaa')
+    expect(writeContract).toHaveBeenCalledWith(
+      expect.objectContaining({ nonce: 7, maxFeePerGas: 1_000n, maxPriorityFeePerGas: 100n })
+    )
+    expect(onSent).toHaveBeenCalledWith({
+      nonce: 7,
+      hashes: ['0xaa'],
+      maxFeePerGas: '1000',
+      maxPriorityFeePerGas: '100',
+    })
+  })
+
+  it('returns the earlier receipt when a replacement fails with nonce too low', async () => {
+    const chain = { mined: [] as `0x${string}`[], latestNonce: 5 }
+    const { client, wallet, writeContract } = stubs(chain)
+    writeContract.mockImplementation(async () => {
+      // The first transaction is mined just before its replacement reaches the node
+      chain.mined.push('0x01')
+      throw new Error('nonce too low')
+    })
+    const tx: SentTx = { nonce: 5, hashes: ['0x01'], maxFeePerGas: '1000', maxPriorityFeePerGas: '100' }
+
+    const result = await sendWithBumps(client, wallet, contracts.admin, call, tx, options, vi.fn())
+
+    expect(result.transactionHash).toBe('0x01')
+    expect(writeContract).toHaveBeenCalledWith(
+      expect.objectContaining({ nonce: 5, maxFeePerGas: 1_125n, maxPriorityFeePerGas: 112n })
+    )
+  })
+
+  it('rethrows nonce too low when none of its transactions was mined', async () => {
+    const { client, wallet, writeContract } = stubs({ mined: [], latestNonce: 5 })
+    writeContract.mockRejectedValue(new Error('nonce too low'))
+    const tx: SentTx = { nonce: 5, hashes: ['0x01'], maxFeePerGas: '1000', maxPriorityFeePerGas: '100' }
+
+    await expect(sendWithBumps(client, wallet, contracts.admin, call, tx, options, vi.fn())).rejects.toThrow(
+      'nonce too low'
+    )
+  })
+
+  it('gives up after maxBumps replacements, leaving the last one to resume', async () => {
+    const { client, wallet, writeContract } = stubs({ mined: [], latestNonce: 5 })
+    let sent = 0
+    writeContract.mockImplementation(async () => `0x0${++sent}`)
+    const onSent = vi.fn()
+
+    await expect(sendWithBumps(client, wallet, contracts.admin, call, undefined, options, onSent)).rejects.toThrow(
+      'Not mined after 2 fee bumps at nonce 5'
+    )
+    expect(writeContract).toHaveBeenCalledTimes(3)
+    expect(onSent).toHaveBeenLastCalledWith({
+      nonce: 5,
+      hashes: ['0x01', '0x02', '0x03'],
+      maxFeePerGas: '1265',
+      maxPriorityFeePerGas: '126',
+    })
+  })
+})
+
+describe('tick', () => {
+  const NOW = 10_000
+
+  function keeperWith(pending: KeeperState['pending'], overrides: Record<string, unknown> = {}) {
+    const head = { number: 2_000n, timestamp: BigInt(NOW) }
+    const client = {
+      getBlock: vi.fn().mockResolvedValue(head),
+      getContractEvents: vi.fn().mockResolvedValue([]),
+      // Oracle not ready for any market
+      readContract: vi.fn().mockResolvedValue([true, 0, false]),
+      ...overrides,
+    }
+    const keeper: Keeper = {
+      client: client as unknown as Keeper['client'],
+      contracts,
+      oracle: '0x00000000000000000000000000000000000000f0',
+      account: SIGNER,
+      state: stateWith(pending, head.number),
+      options: {
+        statePath: join(mkdtempSync(join(tmpdir(), 'keeper-')), 'state.json'),
+        poll: 12,
+        once: true,
+        dryRun: false,
+        bump: { bumpAfter: 0, maxBumps: 0, pollInterval: 0 },
+      },
+    }
+    return { keeper, client, head }
+  }
+
+  it('backs off failed executions 1, 2, 4 ... minutes, capped at an hour', async () => {
+    const { keeper, head } = keeperWith({ [A]: entry({ eta: NOW - 1 }) })
+
+    await tick(keeper)
+    expect(keeper.state.pending[A]).toMatchObject({
+      attempts: 1,
+      retryAt: NOW + 60,
+      lastError: 'oracle cardinality too low for a 900s TWAP',
+    })
+
+    // Not retried before retryAt
+    await tick(keeper)
+    expect(keeper.state.pending[A].attempts).toBe(1)
+
+    head.timestamp = BigInt(NOW + 60)
+    await tick(keeper)
+    expect(keeper.state.pending[A]).toMatchObject({ attempts: 2, retryAt: NOW + 60 + 120 })
+
+    keeper.state.pending[A] = entry({ eta: NOW - 1, attempts: 6 })
+    await tick(keeper)
+    expect(keeper.state.pending[A]).toMatchObject({ attempts: 7, retryAt: NOW + 60 + 3_600 })
+  })
+
+  it('leaves markets alone until their eta', async () => {
+    const { keeper, client } = keeperWith({ [A]: entry({ eta: NOW + 1 }) })
+
+    await tick(keeper)
+
+    expect(keeper.state.pending[A].attempts).toBe(0)
+    expect(client.readContract).not.toHaveBeenCalled()
+  })
+
+  it("sends at a nonce left stuck by another market's transaction instead of queueing behind it", async () => {
+    const stuck: SentTx = { nonce: 5, hashes: ['0x01'], maxFeePerGas: '1000', maxPriorityFeePerGas: '100' }
+    const { keeper } = keeperWith(
+      {
+        [A]: entry({ eta: NOW - 100, attempts: 1, retryAt: NOW + 60, tx: stuck }),
+        [B]: entry({ eta: NOW - 1 }),
+      },
+      {
+        readContract: vi.fn().mockResolvedValue([false, 0, true]),
+        simulateContract: vi.fn().mockResolvedValue({ request: {} }),
+        getTransactionCount: vi.fn().mockResolvedValue(5),
+        getTransactionReceipt: vi.fn(async ({ hash }: { hash: `0x${string}` }) => {
+          if (hash !== '0xbb') throw new Error('receipt not found')
+          return receipt(hash)
+        }),
+      }
+    )
+    const writeContract = vi.fn().mockResolvedValue('0xbb')
+    keeper.wallet = { account: { address: SIGNER }, chain: { id: 1 }, writeContract } as unknown as Keeper['wallet']
+
+    await tick(keeper)
+
+    expect(writeContract).toHaveBeenCalledOnce()
+    expect(writeContract).toHaveBeenCalledWith(
+      expect.objectContaining({ args: [B], nonce: 5, maxFeePerGas: 1_125n, maxPriorityFeePerGas: 112n })
+    )
+    expect(keeper.state.pending[B]).toBeUndefined()
+    // A is sent again at a new nonce once its retry comes up
+    expect(keeper.state.pending[A]).toEqual(entry({ eta: NOW - 100, attempts: 1, retryAt: NOW + 60 }))
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { privateKeyToAccount } from 'viem/accounts'
+import { decryptKeystore } from '../../scripts/cli/keystore'
+
+// go-ethereum's accounts/keystore/testdata fixture, password "foobar"
+const GETH_SCRYPT = JSON.stringify({
+  address: '7ef5a6135f1fd6a02593eedc869c6d41d934aef8',
+  crypto: {
+    cipher: 'aes-128-ctr',
+    ciphertext: '1d0839166e7a15b9c1333fc865d69858b22df26815ccf601b28219b6192974e1',
+    cipherparams: { iv: '8df6caa7ff1b00c4e871f002cb7921ed' },
+    kdf: 'scrypt',
+    kdfparams: {
+      dklen: 32,
+      n: 8,
+      p: 16,
+      r: 8,
+      salt: 'e5e6ef3f4ea695f496b643ebd3f75c0aa58ef4070e90c80c5d3fb0241bf1595c',
+    },
+    mac: '6d16dfde774845e4585357f24bce530528bc69f4f84e1e22880d34fa45c273e5',
+  },
+  id: '950077c7-71e3-4c44-a4a1-143919141ed4',
+  version: 3,
+})
+
+// The PBKDF2 test vector from the Web3 Secret Storage definition, password "testpassword"
+const SPEC_PBKDF2 = JSON.stringify({
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+    ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+    kdf: 'pbkdf2',
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: 'hmac-sha256',
+      salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd',
+    },
+    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2',
+  },
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  version: 3,
+})
+
+describe('decryptKeystore', () => {
+  it('decrypts a geth scrypt keystore to the key of its address', () => {
+    const key = decryptKeystore(GETH_SCRYPT, 'foobar')
+
+    expect(key).toBe('0x976f9f7772781ff6d1c93941129d417c49a209c674056a3cf5e27e225ee55fa8')
+    expect(privateKeyToAccount(key).address).toBe('0x7EF5A6135f1FD6a02593eEdC869c6D41D934aef8')
+  })
+
+  it('decrypts a pbkdf2 keystore', () => {
+    expect(decryptKeystore(SPEC_PBKDF2, 'testpassword')).toBe(
+      '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d'
+    )
+  })
+
+  it.each([
+    ['scrypt', GETH_SCRYPT],
+    ['pbkdf2', SPEC_PBKDF2],
+  ])('rejects a wrong password for a %s keystore', (_kdf, json) => {
+    expect(() => decryptKeystore(json, 'wrong')).toThrow('Wrong keystore password')
+  })
+
+  it('rejects keystores other than version 3', () => {
+    expect(() => decryptKeystore(JSON.stringify({ ...JSON.parse(GETH_SCRYPT), version: 1 }), 'foobar')).toThrow(
+      'expected a version 3 JSON keystore'
+    )
+  })
+})
@@ -0,0 +1,230 @@
+import { mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { parseEther } from 'viem'
+import { DEFAULT_CONFIG, loadConfig, Thresholds } from '../../scripts/monitor/config'
+import { conditions, eventAlert, transitions, twapAlerts } from '../../scripts/monitor/rules'
+import { Alert } from '../../scripts/monitor/sinks'
+import { Snapshot } from '../../scripts/monitor/snapshot'
+import { DAY, MARKET, NOW } from '../utils'
+
+const thresholds: Thresholds = DEFAULT_CONFIG.thresholds
+
+interface Fixture {
+  block?: bigint
+  timestamp?: number
+  // marketTotalDeposited and marketDepositLimits of MARKET
+  deposited?: bigint
+  limit?: bigint
+  // ovflToken supply and the PT backing it
+  supply?: bigint
+  ptReserves?: bigint
+  rate?: bigint | null
+  eta?: number
+}
+
+// The protocol with MARKET as its only series, healthy unless overridden
+function snapshot({
+  block = 100n,
+  timestamp = NOW,
+  deposited = parseEther('10'),
+  limit = 0n,
+  supply = parseEther('10'),
+  ptReserves = parseEther('10'),
+  rate = parseEther('0.95'),
+  eta,
+}: Fixture = {}): Snapshot {
+  return {
+    block,
+    timestamp,
+    markets: [MARKET],
+    backing: [
+      {
+        ovfl: MARKET.ovfl,
+        supply,
+        ptBalance: ptReserves,
+        ratioBps: null,
+        deficit: supply > ptReserves ? supply - ptReserves : 0n,
+        series: [{ market: MARKET, ptBalance: ptReserves, accounted: deposited, excess: 0n, deficit: 0n }],
+      },
+    ],
+    limits: new Map([[MARKET.address, limit]]),
+    rates: new Map([[MARKET.address, rate]]),
+    pending:
+      eta === undefined
+        ? []
+        : [{ market: MARKET.address, twapDuration: 900, feeBps: 50, eta, underlying: MARKET.underlying.address }],
+  }
+}
+
+const rules = (s: Snapshot) => conditions(s, thresholds).map((c) => c.alert.rule)
+
+describe('conditions', () => {
+  // depositLimitBps defaults to 9000
+  it.each([
+    ['no limit', parseEther('1000'), 0n, false],
+    ['just under 90%', parseEther('89.99'), parseEther('100'), false],
+    ['exactly 90%', parseEther('90'), parseEther('100'), true],
+    ['full', parseEther('100'), parseEther('100'), true],
+  ])('deposit-limit with %s of the limit used: %s', (_case, deposited, limit, alerts) => {
+    expect(rules(snapshot({ deposited, limit })).includes('deposit-limit')).toBe(alerts)
+  })
+
+  it('reports how much of the limit is used', () => {
+    const [condition] = conditions(snapshot({ deposited: parseEther('95'), limit: parseEther('100') }), thresholds)
+
+    expect(condition.key).toBe(`deposit-limit:${MARKET.address}`)
+    expect(condition.alert).toMatchObject({ severity: 'warning', data: { usedBps: 9500 } })
+    expect(condition.alert.message).toBe(
+      'PT-WETH-26DEC2025 is at 95.00% of its deposit limit (95 PT-WETH-26DEC2025 of 100 PT-WETH-26DEC2025)'
+    )
+  })
+
+  // expiryWarningSeconds defaults to 3 days; MARKET expires 90 days after NOW
+  it.each([
+    ['3 days out and short of PT', MARKET.expiry - 3 * DAY, parseEther('9'), true],
+    ['3 days and a second out', MARKET.expiry - 3 * DAY - 1, parseEther('9'), false],
+    ['at expiry', MARKET.expiry, parseEther('9'), false],
+    ['an hour out, fully backed', MARKET.expiry - 3600, parseEther('10'), false],
+  ])('expiry-backing %s: %s', (_case, timestamp, ptReserves, alerts) => {
+    expect(rules(snapshot({ timestamp, ptReserves })).includes('expiry-backing')).toBe(alerts)
+  })
+
+  // etaGraceSeconds defaults to an hour
+  it.each([
+    ['before its eta', NOW + 60, false],
+    ['an hour past its eta', NOW - 3600, false],
+    ['an hour and a second past its eta', NOW - 3601, true],
+  ])('eta-overdue for a market still queued %s: %s', (_case, eta, alerts) => {
+    expect(rules(snapshot({ eta })).includes('eta-overdue')).toBe(alerts)
+  })
+
+  it('raises nothing for a healthy protocol', () => {
+    expect(conditions(snapshot({ limit: parseEther('100') }), thresholds)).toEqual([])
+  })
+})
+
+describe('transitions', () => {
+  const full = { deposited: parseEther('95'), limit: parseEther('100') }
+
+  it('alerts when a condition starts, stays quiet while it holds and resolves once it clears', () => {
+    const active = new Map<string, Alert>()
+    const step = (s: Snapshot) => transitions(active, conditions(s, thresholds), s)
+
+    const [raised, ...others] = step(snapshot({ ...full, block: 100n }))
+    expect(others).toEqual([])
+    expect(raised).toMatchObject({ rule: 'deposit-limit', block: 100n })
+    expect(raised.resolved).toBeUndefined()
+    expect([...active.keys()]).toEqual([`deposit-limit:${MARKET.address}`])
+
+    expect(step(snapshot({ ...full, block: 101n }))).toEqual([])
+
+    const cleared = step(snapshot({ block: 102n, limit: parseEther('100') }))
+    expect(cleared).toEqual([{ ...raised, resolved: true, time: expect.any(String), block: 102n }])
+    expect(active.size).toBe(0)
+
+    expect(step(snapshot({ block: 103n, limit: parseEther('100') }))).toEqual([])
+  })
+
+  it('tracks each condition by its own key', () => {
+    const active = new Map<string, Alert>()
+    const both = snapshot({ ...full, eta: NOW - 2 * 3600 })
+    expect(transitions(active, conditions(both, thresholds), both).map((a) => a.rule)).toEqual([
+      'deposit-limit',
+      'eta-overdue',
+    ])
+
+    const etaOnly = snapshot({ eta: NOW - 2 * 3600, limit: parseEther('100') })
+    const alerts = transitions(active, conditions(etaOnly, thresholds), etaOnly)
+    expect(alerts.map((a) => [a.rule, a.resolved])).toEqual([['deposit-limit', true]])
+    expect([...active.keys()]).toEqual([`eta-overdue:${MARKET.address}`])
+  })
+})
+
+describe('twapAlerts', () => {
+  const before = snapshot({ block: 100n, rate: parseEther('1') })
+
+  // twapBandBps defaults to 100
+  it.each([
+    ['up exactly 1%', parseEther('1.01'), false],
+    ['up 1.01%', parseEther('1.0101'), true],
+    ['down 1.01%', parseEther('0.9899'), true],
+    ['to a revert', null, false],
+  ])('moving %s: %s', (_case, rate, alerts) => {
+    expect(twapAlerts(before, snapshot({ block: 101n, rate }), thresholds).length > 0).toBe(alerts)
+  })
+
+  it('needs a previous snapshot and a rate in it', () => {
+    const after = snapshot({ block: 101n, rate: parseEther('2') })
+
+    expect(twapAlerts(undefined, after, thresholds)).toEqual([])
+    expect(twapAlerts(snapshot({ rate: null }), after, thresholds)).toEqual([])
+  })
+
+  it('reports the move between the two blocks', () => {
+    const [alert] = twapAlerts(before, snapshot({ block: 101n, rate: parseEther('0.98') }), thresholds)
+
+    expect(alert).toMatchObject({
+      rule: 'twap-band',
+      market: MARKET.address,
+      data: { fromBlock: 100n, moveBps: 200 },
+    })
+    expect(alert.message).toBe(
+      'PT-WETH-26DEC2025 TWAP rate moved 2.00% from 100.00% to 98.00% between blocks 100 and 101'
+    )
+  })
+})
+
+describe('eventAlert', () => {
+  it('dates an event alert to the block the event was emitted in', () => {
+    const log = {
+      eventName: 'ExcessSwept',
+      args: { ptToken: MARKET.pt.address, to: '0x00000000000000000000000000000000000000aa', amount: parseEther('2') },
+      blockNumber: 42n,
+      transactionHash: '0x01',
+    } as const
+
+    expect(eventAlert(log, [MARKET])).toMatchObject({
+      rule: 'excess-swept',
+      market: MARKET.address,
+      block: 42n,
+      message: '2 PT-WETH-26DEC2025 swept to 0x00000000000000000000000000000000000000aa in 0x01',
+    })
+  })
+})
+
+describe('loadConfig', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'monitor-'))
+  const write = (config: unknown) => {
+    const path = join(dir, `${Math.random().toString(36).slice(2)}.json`)
+    writeFileSync(path, JSON.stringify(config))
+    return path
+  }
+
+  it('fills in defaults for anything left out', () => {
+    const config = loadConfig(write({ thresholds: { twapBandBps: 250 } }))
+
+    expect(config).toEqual({ ...DEFAULT_CONFIG, thresholds: { ...DEFAULT_CONFIG.thresholds, twapBandBps: 250 } })
+  })
+
+  it('accepts zero thresholds', () => {
+    const config = loadConfig(write({ pollSeconds: 0, thresholds: { etaGraceSeconds: 0 } }))
+
+    expect(config.pollSeconds).toBe(0)
+    expect(config.thresholds.etaGraceSeconds).toBe(0)
+  })
+
+  it.each([
+    ['an unknown threshold', { thresholds: { depositLimitPct: 90 } }, 'unknown threshold "depositLimitPct"'],
+    ['a negative threshold', { thresholds: { twapBandBps: -1 } }, 'thresholds.twapBandBps must be a non-negative'],
+    ['a threshold as a string', { thresholds: { etaGraceSeconds: '3600' } }, 'thresholds.etaGraceSeconds must be'],
+    ['a non-numeric poll interval', { pollSeconds: 'fast' }, 'pollSeconds must be a non-negative number'],
+    ['an unknown event', { events: ['Deposited'] }, 'events can only list ExcessSwept, AdminContractUpdated'],
+    ['an unknown sink', { sinks: [{ type: 'slack' }] }, 'unknown sink type "slack"'],
+    ['a jsonLog sink without a path', { sinks: [{ type: 'jsonLog' }] }, 'jsonLog sinks need a "path"'],
+    ['a webhook sink without a url', { sinks: [{ type: 'webhook' }] }, 'webhook sinks need a "url"'],
+  ])('rejects %s', (_case, config, message) => {
+    expect(() => loadConfig(write(config))).toThrow(message)
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ContractFunctionRevertedError, encodeErrorResult, HttpRequestError, PublicClient } from 'viem'
+import { LOG_WINDOW } from '../../src/lib/rpc'
+import { listStreams, OvflError, prepareWithdrawMultiple } from '../../src/sdk'
+import { OvflContracts } from '../../src/sdk/types'
+
+const contracts: OvflContracts = {
+  ovfl: '0x0000000000000000000000000000000000000001',
+  admin: '0x0000000000000000000000000000000000000002',
+  sablierLockupLinear: '0x0000000000000000000000000000000000000003',
+  startBlock: 0n,
+}
+const account = '0x00000000000000000000000000000000000000aa'
+const streams = [
+  { id: 1n, amount: 10n },
+  { id: 2n, amount: 20n },
+]
+
+const clientRejecting = (err: Error) =>
+  ({ simulateContract: vi.fn().mockRejectedValue(err) }) as unknown as PublicClient
+
+const revert = (data: `0x${string}` | undefined) =>
+  new ContractFunctionRevertedError({ abi: [], functionName: 'withdrawMultiple', data })
+
+describe('prepareWithdrawMultiple', () => {
+  it('resolves the simulated request when Sablier supports batching', async () => {
+    const request = { functionName: 'withdrawMultiple' }
+    const client = { simulateContract: vi.fn().mockResolvedValue({ request }) } as unknown as PublicClient
+
+    await expect(prepareWithdrawMultiple(client, contracts, account, streams)).resolves.toBe(request)
+  })
+
+  it('resolves null when the call reverts without data', async () => {
+    await expect(
+      prepareWithdrawMultiple(clientRejecting(revert('0x')), contracts, account, streams)
+    ).resolves.toBeNull()
+    await expect(
+      prepareWithdrawMultiple(clientRejecting(revert(undefined)), contracts, account, streams)
+    ).resolves.toBeNull()
+  })
+
+  it('rejects on reverts with a reason', async () => {
+    const data = encodeErrorResult({
+      abi: [{ type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] }],
+      errorName: 'Error',
+      args: ['SablierV2Lockup_Overdraw'],
+    })
+
+    const result = prepareWithdrawMultiple(clientRejecting(revert(data)), contracts, account, streams)
+    await expect(result).rejects.toBeInstanceOf(OvflError)
+    await expect(result).rejects.toMatchObject({ code: 'REVERTED', reason: 'SablierV2Lockup_Overdraw' })
+  })
+
+  it('rejects on RPC failures', async () => {
+    const client = clientRejecting(new HttpRequestError({ url: 'http://rpc', status: 502 }))
+
+    await expect(prepareWithdrawMultiple(client, contracts, account, streams)).rejects.toMatchObject({
+      code: 'NETWORK',
+    })
+  })
+})
+
+describe('listStreams', () => {
+  const stream = (endTime: number) => ({
+    sender: contracts.ovfl,
+    asset: '0x00000000000000000000000000000000000000c1',
+    startTime: 0,
+    endTime,
+    isDepleted: false,
+    amounts: { deposited: 100n, withdrawn: 0n, refunded: 0n },
+  })
+
+  it('scans deposits and received stream NFTs in block windows', async () => {
+    const getContractEvents = vi.fn(async ({ eventName, fromBlock }: { eventName: string; fromBlock: bigint }) => {
+      if (eventName === 'Deposited') return fromBlock === 0n ? [{ args: { streamId: 1n } }] : []
+      return fromBlock === LOG_WINDOW ? [{ args: { tokenId: 2n } }, { args: { tokenId: 1n } }] : []
+    })
+    const multicall = vi.fn().mockResolvedValue([
+      { status: 'success', result: account },
+      { status: 'success', result: stream(2_000) },
+      { status: 'success', result: 5n },
+      { status: 'success', result: account },
+      { status: 'success', result: stream(1_000) },
+      { status: 'success', result: 7n },
+    ])
+    const client = {
+      getBlockNumber: vi.fn().mockResolvedValue(LOG_WINDOW + 1n),
+      getContractEvents,
+      multicall,
+    } as unknown as PublicClient
+
+    const listed = await listStreams(client, contracts, account)
+
+    expect(getContractEvents.mock.calls.map(([args]) => [args.eventName, args.fromBlock])).toEqual([
+      ['Deposited', 0n],
+      ['Transfer', 0n],
+      ['Deposited', LOG_WINDOW],
+      ['Transfer', LOG_WINDOW],
+    ])
+    expect(listed.map((s) => [s.id, s.withdrawable])).toEqual([
+      [2n, 7n],
+      [1n, 5n],
+    ])
+  })
+})
@@ -0,0 +1,65 @@
+import { ReactNode } from 'react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { Chain, http } from 'viem'
+import { mainnet } from 'viem/chains'
+import { Config, createConfig, WagmiProvider } from 'wagmi'
+import { connect } from 'wagmi/actions'
+import { mock } from 'wagmi/connectors'
+import { ToastProvider } from '../src/components/Toast'
+import { Market } from '../src/hooks/useMarkets'
+
+export const USER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'
+
+// Seconds, fixed for component tests through a mocked useNow
+export const NOW = 1_750_000_000
+export const DAY = 86_400
+
+export const MARKET: Market = {
+  address: '0x00000000000000000000000000000000000000a1',
+  name: 'PT-WETH-26DEC2025',
+  expiry: NOW + 90 * DAY,
+  feeBps: 50,
+  twapDuration: 900,
+  pt: { address: '0x00000000000000000000000000000000000000b1', symbol: 'PT-WETH-26DEC2025', decimals: 18 },
+  ovfl: { address: '0x00000000000000000000000000000000000000c1', symbol: 'ovflWETH', decimals: 18 },
+  underlying: { address: '0x00000000000000000000000000000000000000d1', symbol: 'WETH', decimals: 18 },
+  sy: { address: '0x00000000000000000000000000000000000000e1', symbol: 'SY-WETH', decimals: 18 },
+  yt: '0x00000000000000000000000000000000000000f1',
+}
+
+// A wagmi config whose only wallet is the mock connector. Account-state hooks resolve against it;
+// anything it signs or sends goes to the chain's RPC, so point it at Anvil for integration tests.
+export function createTestConfig(chain: Chain = mainnet, account: `0x${string}` = USER) {
+  return createConfig({
+    chains: [chain],
+    connectors: [mock({ accounts: [account] })],
+    transports: { [chain.id]: http() },
+    // Block-driven refetches land quickly on Anvil
+    pollingInterval: 250,
+  })
+}
+
+export async function connectWallet(config: Config) {
+  await connect(config, { connector: config.connectors[0] })
+}
+
+export function createWrapper(config: Config) {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } })
+  // Reconnecting would find the mock connector unauthorized and disconnect it
+  return function Wrapper({ children }: { children: ReactNode }) {
+    return (
+      <WagmiProvider config={config} reconnectOnMount={false}>
+        <QueryClientProvider client={queryClient}>
+          <ToastProvider>{children}</ToastProvider>
+        </QueryClientProvider>
+      </WagmiProvider>
+    )
+  }
+}
+
+// A connected wrapper for rendering components
+export async function walletWrapper() {
+  const config = createTestConfig()
+  await connectWallet(config)
+  return createWrapper(config)
+}
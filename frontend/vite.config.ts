@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -8,5 +9,11 @@ export default defineConfig({
       '@': '/src',
     },
   },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./test/setup.ts'],
+    // Starts Anvil and deploys the contracts for test/integration, which skips without them
+    globalSetup: ['./test/integration/anvil.ts'],
+    testTimeout: 30_000,
+  },
 })
-
@@ -14,13 +14,19 @@ contract OVFLScript is Script {
 
         // Get the deployer address
         address deployer = vm.addr(vm.envUint("PRIVATE_KEY"));
-        
+
+        // Chain-specific dependencies, defaulting to their Ethereum mainnet deployments
+        address pendleOracle = vm.envOr("PENDLE_ORACLE", address(0x9a9Fa8338dd5E5B2188006f1Cd2Ef26d921650C2));
+        address sablierLL = vm.envOr("SABLIER_LOCKUP_LINEAR", address(0x3962f6585946823440d274aD7C719B02b49DE51E));
+
         // Deploy OVFL with deployer as admin and treasury
-        ovfl = new OVFL(deployer, deployer);
+        ovfl = new OVFL(deployer, deployer, pendleOracle, sablierLL);
 
         console.log("OVFL deployed to:", address(ovfl));
         console.log("Admin:", deployer);
         console.log("Treasury:", deployer);
+        console.log("Pendle oracle:", pendleOracle);
+        console.log("Sablier LockupLinear:", sablierLL);
 
         vm.stopBroadcast();
     }
@@ -17,7 +17,7 @@ contract Admin is AccessControl {
     uint256 public constant MAX_TWAP_DURATION = 30 minutes;
 
     OVFL public ovfl;
-    IPendleOracle public constant PENDLE_ORACLE = IPendleOracle(0x9a9Fa8338dd5E5B2188006f1Cd2Ef26d921650C2);
+    IPendleOracle public immutable PENDLE_ORACLE;
 
     mapping(address => address) public underlyingToOvfl;
     mapping(address => PendingMarket) public pendingMarkets;
@@ -38,14 +38,18 @@ contract Admin is AccessControl {
     event MarketDepositLimitSet(address indexed market, uint256 limit);
     event MinPtAmountSet(uint256 newMin);
 
-    constructor(address admin) {
+    constructor(address admin, address pendleOracle) {
         require(admin != address(0), "Admin: zero address");
+        require(pendleOracle != address(0), "Admin: zero address");
+        PENDLE_ORACLE = IPendleOracle(pendleOracle);
         _grantRole(ADMIN_ROLE, admin);
     }
 
     function setOVFL(address ovflAddress) external onlyRole(ADMIN_ROLE) {
         require(address(ovfl) == address(0), "Admin: ovfl already set");
         require(ovflAddress != address(0), "Admin: zero address");
+        // Markets are checked against PENDLE_ORACLE but priced by OVFL's oracle, so the two must agree
+        require(address(OVFL(ovflAddress).pendleOracle()) == address(PENDLE_ORACLE), "Admin: oracle mismatch");
         ovfl = OVFL(ovflAddress);
         emit OVFLSet(ovflAddress);
     }
@@ -2,6 +2,7 @@
 pragma solidity ^0.8.20;
 
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {PRBMath} from "prb-math/PRBMath.sol";
@@ -42,10 +43,10 @@ contract OVFL is ReentrancyGuard {
     address public adminContract;
 
     /// @notice Pendle Oracle for PT-to-SY TWAP pricing
-    IPendleOracle public immutable pendleOracle = IPendleOracle(0x9a9Fa8338dd5E5B2188006f1Cd2Ef26d921650C2);
+    IPendleOracle public immutable pendleOracle;
 
     /// @notice Sablier V2 Lockup Linear contract for streaming
-    ISablierV2LockupLinear public immutable sablierLL = ISablierV2LockupLinear(0x3962f6585946823440d274aD7C719B02b49DE51E);
+    ISablierV2LockupLinear public immutable sablierLL;
 
     /*//////////////////////////////////////////////////////////////
                                 STRUCTS
@@ -69,6 +70,20 @@ contract OVFL is ReentrancyGuard {
         address underlying;
     }
 
+    /// @notice An EIP-2612 permit signed by the depositor, with this contract as spender
+    /// @param value Allowance the permit grants
+    /// @param deadline Last timestamp the signature can be used at; 0 means no permit
+    /// @param v Signature recovery id
+    /// @param r Signature r
+    /// @param s Signature s
+    struct PermitSignature {
+        uint256 value;
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
     /*//////////////////////////////////////////////////////////////
                                 MAPPINGS
     //////////////////////////////////////////////////////////////*/
@@ -154,12 +169,18 @@ contract OVFL is ReentrancyGuard {
     /// @notice Initializes the OVFL contract
     /// @param admin The admin contract address
     /// @param treasury The treasury address for fee collection
-    constructor(address admin, address treasury) {
+    /// @param oracle The Pendle PT oracle on this chain
+    /// @param sablier The Sablier V2 LockupLinear contract on this chain
+    constructor(address admin, address treasury, address oracle, address sablier) {
         require(admin != address(0), "OVFL: admin is zero address");
         require(treasury != address(0), "OVFL: treasury is zero address");
+        require(oracle != address(0), "OVFL: oracle is zero address");
+        require(sablier != address(0), "OVFL: sablier is zero address");
 
         adminContract = admin;
         TREASURY_ADDR = treasury;
+        pendleOracle = IPendleOracle(oracle);
+        sablierLL = ISablierV2LockupLinear(sablier);
     }
 
     /*//////////////////////////////////////////////////////////////
@@ -242,7 +263,8 @@ contract OVFL is ReentrancyGuard {
     //////////////////////////////////////////////////////////////*/
 
     /// @notice Deposits PT tokens to receive ovflTokens immediately and a stream for the discount
-    /// @dev User must approve both PT token and underlying (for fee) before calling.
+    /// @dev User must approve both PT token and underlying (for fee) before calling, or sign permits
+    ///      for them and call depositWithPermit instead.
     ///      The rate determines the split: if PT is at 95% of face value, user gets 95% immediately
     ///      and 5% is streamed via Sablier until maturity.
     /// @param market The Pendle market address
@@ -256,56 +278,35 @@ contract OVFL is ReentrancyGuard {
         nonReentrant
         returns (uint256 toUser, uint256 toStream, uint256 streamId)
     {
+        return _deposit(market, ptAmount, minToUser);
+    }
+
+    /// @notice Deposits like `deposit`, first granting this contract allowance with EIP-2612 permits
+    /// @dev Lets a depositor sign approvals instead of sending them. A permit with a zero deadline is
+    ///      skipped, e.g. for a fee token that already has allowance or has no permit. A permit that
+    ///      fails, such as one already submitted by someone who saw it in the mempool, is ignored, and
+    ///      the deposit goes ahead on whatever allowance is in place.
+    /// @param market The Pendle market address
+    /// @param ptAmount Amount of PT tokens to deposit
+    /// @param minToUser Minimum ovflTokens to receive immediately (slippage protection)
+    /// @param ptPermit Permit for the market's PT token
+    /// @param feePermit Permit for the market's underlying, which pays the fee
+    /// @return toUser Amount of ovflTokens minted immediately to caller
+    /// @return toStream Amount of ovflTokens streamed until maturity via Sablier
+    /// @return streamId The Sablier stream ID for tracking
+    function depositWithPermit(
+        address market,
+        uint256 ptAmount,
+        uint256 minToUser,
+        PermitSignature calldata ptPermit,
+        PermitSignature calldata feePermit
+    ) external nonReentrant returns (uint256 toUser, uint256 toStream, uint256 streamId) {
         SeriesInfo memory info = series[market];
         require(info.approved, "OVFL: market not approved");
-        require(ptAmount >= minPtAmount, "OVFL: amount < min PT");
-        require(block.timestamp < info.expiryCached, "OVFL: matured");
-
-        uint256 currentDeposited = marketTotalDeposited[market];
-        uint256 limit = marketDepositLimits[market];
-        
-        if (limit > 0) {
-            require(currentDeposited + ptAmount <= limit, "OVFL: deposit limit exceeded");
-        }
-
-        IERC20(info.ptToken).safeTransferFrom(msg.sender, address(this), ptAmount);
 
-        uint256 rateE18 = pendleOracle.getPtToSyRate(market, info.twapDurationFixed);
-
-        toUser = PRBMath.mulDiv(ptAmount, rateE18, WAD);
-        if (toUser > ptAmount) toUser = ptAmount;
-        toStream = ptAmount - toUser;
-
-        require(toStream > 0, "OVFL: nothing to stream");
-        require(toUser >= minToUser, "OVFL: slippage");
-
-        uint256 feeAmount = info.feeBps == 0 ? 0 : PRBMath.mulDiv(toUser, info.feeBps, BASIS_POINTS);
-
-        if (feeAmount > 0) {
-            IERC20(info.underlying).safeTransferFrom(msg.sender, TREASURY_ADDR, feeAmount);
-            emit FeeTaken(msg.sender, info.underlying, feeAmount);
-        }
-
-        OVFLETH ovflToken = OVFLETH(info.ovflToken);
-        ovflToken.mint(msg.sender, toUser);
-        ovflToken.mint(address(this), toStream);
-
-        uint256 duration = info.expiryCached - block.timestamp;
-        ISablierV2LockupLinear.CreateWithDurations memory p = ISablierV2LockupLinear.CreateWithDurations({
-            sender: address(this),
-            recipient: msg.sender,
-            totalAmount: uint128(toStream),
-            asset: IERC20(info.ovflToken),
-            cancelable: false,
-            transferable: true,
-            durations: ISablierV2LockupLinear.Durations({cliff: 0, total: uint40(duration)}),
-            broker: ISablierV2LockupLinear.Broker({account: address(0), fee: 0})
-        });
-        streamId = sablierLL.createWithDurations(p);
-
-        marketTotalDeposited[market] = currentDeposited + ptAmount;
-
-        emit Deposited(msg.sender, market, ptAmount, toUser, toStream, streamId);
+        _permit(info.ptToken, ptPermit);
+        _permit(info.underlying, feePermit);
+        return _deposit(market, ptAmount, minToUser);
     }
 
     /// @notice Burns ovflTokens to claim PT tokens after maturity
@@ -395,4 +396,73 @@ contract OVFL is ReentrancyGuard {
         toStream = ptAmount - toUser;
         feeAmount = info.feeBps == 0 ? 0 : PRBMath.mulDiv(toUser, info.feeBps, BASIS_POINTS);
     }
+
+    /*//////////////////////////////////////////////////////////////
+                          INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Pulls the PT and fee from the caller, mints ovflTokens and opens the discount stream
+    function _deposit(address market, uint256 ptAmount, uint256 minToUser)
+        internal
+        returns (uint256 toUser, uint256 toStream, uint256 streamId)
+    {
+        SeriesInfo memory info = series[market];
+        require(info.approved, "OVFL: market not approved");
+        require(ptAmount >= minPtAmount, "OVFL: amount < min PT");
+        require(block.timestamp < info.expiryCached, "OVFL: matured");
+
+        uint256 currentDeposited = marketTotalDeposited[market];
+        uint256 limit = marketDepositLimits[market];
+        
+        if (limit > 0) {
+            require(currentDeposited + ptAmount <= limit, "OVFL: deposit limit exceeded");
+        }
+
+        IERC20(info.ptToken).safeTransferFrom(msg.sender, address(this), ptAmount);
+
+        uint256 rateE18 = pendleOracle.getPtToSyRate(market, info.twapDurationFixed);
+
+        toUser = PRBMath.mulDiv(ptAmount, rateE18, WAD);
+        if (toUser > ptAmount) toUser = ptAmount;
+        toStream = ptAmount - toUser;
+
+        require(toStream > 0, "OVFL: nothing to stream");
+        require(toUser >= minToUser, "OVFL: slippage");
+
+        uint256 feeAmount = info.feeBps == 0 ? 0 : PRBMath.mulDiv(toUser, info.feeBps, BASIS_POINTS);
+
+        if (feeAmount > 0) {
+            IERC20(info.underlying).safeTransferFrom(msg.sender, TREASURY_ADDR, feeAmount);
+            emit FeeTaken(msg.sender, info.underlying, feeAmount);
+        }
+
+        OVFLETH ovflToken = OVFLETH(info.ovflToken);
+        ovflToken.mint(msg.sender, toUser);
+        ovflToken.mint(address(this), toStream);
+
+        uint256 duration = info.expiryCached - block.timestamp;
+        ISablierV2LockupLinear.CreateWithDurations memory p = ISablierV2LockupLinear.CreateWithDurations({
+            sender: address(this),
+            recipient: msg.sender,
+            totalAmount: uint128(toStream),
+            asset: IERC20(info.ovflToken),
+            cancelable: false,
+            transferable: true,
+            durations: ISablierV2LockupLinear.Durations({cliff: 0, total: uint40(duration)}),
+            broker: ISablierV2LockupLinear.Broker({account: address(0), fee: 0})
+        });
+        streamId = sablierLL.createWithDurations(p);
+
+        marketTotalDeposited[market] = currentDeposited + ptAmount;
+
+        emit Deposited(msg.sender, market, ptAmount, toUser, toStream, streamId);
+    }
+
+    /// @notice Submits the caller's permit for `token`, unless it is empty or fails
+    function _permit(address token, PermitSignature calldata permit) internal {
+        if (permit.deadline == 0) return;
+        try IERC20Permit(token).permit(
+            msg.sender, address(this), permit.value, permit.deadline, permit.v, permit.r, permit.s
+        ) {} catch {}
+    }
 }
@@ -5,12 +5,14 @@ import {Test, console} from "forge-std/Test.sol";
 import {OVFL} from "../src/OVFL.sol";
 import {Admin} from "../src/Admin.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 
 contract OVFLTest is Test {
     OVFL public ovfl;
     Admin public admin;
 
     address public constant PENDLE_ORACLE = 0x9a9Fa8338dd5E5B2188006f1Cd2Ef26d921650C2;
+    address public constant SABLIER_LL = 0x3962f6585946823440d274aD7C719B02b49DE51E;
     address public constant PENDLE_MARKET = 0xC374f7eC85F8C7DE3207a10bB1978bA104bdA3B2;
     address public constant PENDLE_SY = 0xcbC72d92b2dc8187414F6734718563898740C0BC;
     address public constant PENDLE_PT = 0xf99985822fb361117FCf3768D34a6353E6022F5F;
@@ -24,10 +26,10 @@ contract OVFLTest is Test {
 
     function setUp() public {
         // Deploy Admin first
-        admin = new Admin(ADMIN_ADDR);
+        admin = new Admin(ADMIN_ADDR, PENDLE_ORACLE);
 
         // Deploy OVFL with Admin as the admin contract
-        ovfl = new OVFL(address(admin), TREASURY);
+        ovfl = new OVFL(address(admin), TREASURY, PENDLE_ORACLE, SABLIER_LL);
 
         // Connect Admin to OVFL
         vm.startPrank(ADMIN_ADDR);
@@ -85,4 +87,99 @@ contract OVFLTest is Test {
         // Verify stream creation
         assertGt(streamId, 0, "Stream ID should be created");
     }
+
+    function test_DepositWithPermit_Success() public {
+        (address user, uint256 key) = makeAddrAndKey("user");
+        uint256 ptAmount = 10 ether;
+        uint256 feeAmount = 0.3 ether;
+
+        deal(PENDLE_PT, user, ptAmount);
+        deal(WSTETH, user, feeAmount);
+
+        // No approvals: both allowances come from the signed permits
+        OVFL.PermitSignature memory ptPermit = _signPermit(PENDLE_PT, key, user, ptAmount);
+        OVFL.PermitSignature memory feePermit = _signPermit(WSTETH, key, user, feeAmount);
+
+        vm.prank(user);
+        (,, uint256 streamId) = ovfl.depositWithPermit(PENDLE_MARKET, ptAmount, 0, ptPermit, feePermit);
+
+        assertEq(IERC20(PENDLE_PT).balanceOf(address(ovfl)), ptAmount, "Vault should receive PT tokens");
+        assertEq(IERC20Permit(PENDLE_PT).nonces(user), 1, "PT permit should be used");
+        assertEq(IERC20Permit(WSTETH).nonces(user), 1, "Fee permit should be used");
+        assertGt(streamId, 0, "Stream ID should be created");
+    }
+
+    function test_DepositWithPermit_GoesAheadWhenPermitWasFrontRun() public {
+        (address user, uint256 key) = makeAddrAndKey("user");
+        uint256 ptAmount = 10 ether;
+        uint256 feeAmount = 0.3 ether;
+
+        deal(PENDLE_PT, user, ptAmount);
+        deal(WSTETH, user, feeAmount);
+
+        OVFL.PermitSignature memory ptPermit = _signPermit(PENDLE_PT, key, user, ptAmount);
+        OVFL.PermitSignature memory noPermit;
+
+        // Someone submits the PT permit from the mempool first, so the one in depositWithPermit fails
+        IERC20Permit(PENDLE_PT).permit(
+            user, address(ovfl), ptPermit.value, ptPermit.deadline, ptPermit.v, ptPermit.r, ptPermit.s
+        );
+
+        vm.startPrank(user);
+        IERC20(WSTETH).approve(address(ovfl), feeAmount);
+        ovfl.depositWithPermit(PENDLE_MARKET, ptAmount, 0, ptPermit, noPermit);
+        vm.stopPrank();
+
+        assertEq(IERC20(PENDLE_PT).balanceOf(address(ovfl)), ptAmount, "Vault should receive PT tokens");
+    }
+
+    function test_DepositWithPermit_RevertsOnUnapprovedMarket() public {
+        OVFL.PermitSignature memory noPermit;
+
+        vm.expectRevert("OVFL: market not approved");
+        ovfl.depositWithPermit(makeAddr("market"), 10 ether, 0, noPermit, noPermit);
+    }
+
+    function test_Constructor_RevertsOnZeroOracle() public {
+        vm.expectRevert("OVFL: oracle is zero address");
+        new OVFL(address(admin), TREASURY, address(0), SABLIER_LL);
+
+        vm.expectRevert("Admin: zero address");
+        new Admin(ADMIN_ADDR, address(0));
+    }
+
+    function test_Constructor_RevertsOnZeroSablier() public {
+        vm.expectRevert("OVFL: sablier is zero address");
+        new OVFL(address(admin), TREASURY, PENDLE_ORACLE, address(0));
+    }
+
+    function test_SetOVFL_RevertsOnOracleMismatch() public {
+        Admin otherAdmin = new Admin(ADMIN_ADDR, makeAddr("otherOracle"));
+
+        vm.prank(ADMIN_ADDR);
+        vm.expectRevert("Admin: oracle mismatch");
+        otherAdmin.setOVFL(address(ovfl));
+    }
+
+    // Signs an EIP-2612 permit from `owner` for OVFL, valid for an hour
+    function _signPermit(address token, uint256 key, address owner, uint256 value)
+        internal
+        view
+        returns (OVFL.PermitSignature memory permit)
+    {
+        permit.value = value;
+        permit.deadline = block.timestamp + 1 hours;
+        bytes32 structHash = keccak256(
+            abi.encode(
+                keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"),
+                owner,
+                address(ovfl),
+                value,
+                IERC20Permit(token).nonces(owner),
+                permit.deadline
+            )
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", IERC20Permit(token).DOMAIN_SEPARATOR(), structHash));
+        (permit.v, permit.r, permit.s) = vm.sign(key, digest);
+    }
 }
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+/// @notice Freely mintable Pendle PT stand-in with a fixed expiry. Like Pendle's PTs it takes
+///         EIP-2612 permits.
+contract MockPT is ERC20Permit {
+    address public immutable SY;
+    uint256 public immutable expiry;
+
+    constructor(string memory name_, string memory symbol_, address sy, uint256 expiry_)
+        ERC20(name_, symbol_)
+        ERC20Permit(name_)
+    {
+        SY = sy;
+        expiry = expiry_;
+    }
+
+    function isExpired() external view returns (bool) {
+        return block.timestamp >= expiry;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import {IPendleMarket} from "../../interfaces/IPendleMarket.sol";
+
+/// @notice Pendle market stand-in holding only the token set and expiry OVFL reads
+contract MockPendleMarket is IPendleMarket {
+    address private immutable SY;
+    address private immutable PT;
+    address private immutable YT;
+    uint256 public immutable expiry;
+
+    constructor(address sy, address pt, address yt, uint256 expiry_) {
+        SY = sy;
+        PT = pt;
+        YT = yt;
+        expiry = expiry_;
+    }
+
+    function readTokens() external view returns (address _SY, address _PT, address _YT) {
+        return (SY, PT, YT);
+    }
+
+    /// @dev The mock oracle needs no observations, so there is nothing to grow
+    function increaseObservationsCardinalityNext(uint16) external {}
+}
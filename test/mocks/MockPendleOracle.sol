@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import {IPendleMarket} from "../../interfaces/IPendleMarket.sol";
+import {IPendleOracle} from "../../interfaces/IPendleOracle.sol";
+
+/// @notice Pendle oracle stand-in whose PT rate accretes linearly from a seeded rate to 1e18 at expiry,
+///         so moving the node's clock moves the rate the way a real PT converges on par
+contract MockPendleOracle is IPendleOracle {
+    struct Curve {
+        uint256 startRate;
+        uint256 startTime;
+    }
+
+    mapping(address => Curve) public curves;
+
+    /// @notice Starts the market's rate curve at `rateE18` from the current block
+    function setRate(address market, uint256 rateE18) external {
+        require(rateE18 <= 1e18, "MockPendleOracle: rate above par");
+        curves[market] = Curve({startRate: rateE18, startTime: block.timestamp});
+    }
+
+    function getPtToSyRate(address market, uint32) external view returns (uint256) {
+        Curve memory curve = curves[market];
+        require(curve.startTime != 0, "MockPendleOracle: no rate");
+
+        uint256 expiry = IPendleMarket(market).expiry();
+        if (block.timestamp >= expiry) return 1e18;
+
+        uint256 elapsed = block.timestamp - curve.startTime;
+        return curve.startRate + (1e18 - curve.startRate) * elapsed / (expiry - curve.startTime);
+    }
+
+    /// @dev Always ready: there are no observations to wait for
+    function getOracleState(address, uint32)
+        external
+        pure
+        returns (bool increaseCardinalityRequired, uint16 cardinalityRequired, bool oldestObservationSatisfied)
+    {
+        return (false, 0, true);
+    }
+}
@@ -0,0 +1,183 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IPendleMarket} from "../../interfaces/IPendleMarket.sol";
+import {IPendleOracle} from "../../interfaces/IPendleOracle.sol";
+import {IStandardizedYield} from "../../interfaces/IStandardizedYield.sol";
+import {MockERC20} from "./MockERC20.sol";
+import {MockPT} from "./MockPT.sol";
+import {MockYT} from "./MockYT.sol";
+
+/// @notice Pendle router and RouterStatic stand-in that sells freshly minted PT at the oracle rate and
+///         redeems matured PT 1:1 for freshly minted asset. The SY wraps its asset 1:1 and nothing
+///         charges a fee, so a quote is exact.
+contract MockPendleRouter {
+    using SafeERC20 for IERC20;
+
+    // Pendle router structs, kept field-for-field so calldata matches the real router
+    struct ApproxParams {
+        uint256 guessMin;
+        uint256 guessMax;
+        uint256 guessOffchain;
+        uint256 maxIteration;
+        uint256 eps;
+    }
+
+    struct SwapData {
+        uint8 swapType;
+        address extRouter;
+        bytes extCalldata;
+        bool needScale;
+    }
+
+    struct TokenInput {
+        address tokenIn;
+        uint256 netTokenIn;
+        address tokenMintSy;
+        address pendleSwap;
+        SwapData swapData;
+    }
+
+    struct TokenOutput {
+        address tokenOut;
+        uint256 minTokenOut;
+        address tokenRedeemSy;
+        address pendleSwap;
+        SwapData swapData;
+    }
+
+    struct Order {
+        uint256 salt;
+        uint256 expiry;
+        uint256 nonce;
+        uint8 orderType;
+        address token;
+        address YT;
+        address maker;
+        address receiver;
+        uint256 makingAmount;
+        uint256 lnImpliedRate;
+        uint256 failSafeRate;
+        bytes permit;
+    }
+
+    struct FillOrderParams {
+        Order order;
+        bytes signature;
+        uint256 makingAmount;
+    }
+
+    struct LimitOrderData {
+        address limitRouter;
+        uint256 epsSkipMarket;
+        FillOrderParams[] normalFills;
+        FillOrderParams[] flashFills;
+        bytes optData;
+    }
+
+    IPendleOracle public immutable oracle;
+
+    constructor(address oracle_) {
+        oracle = IPendleOracle(oracle_);
+    }
+
+    function swapExactTokenForPt(
+        address receiver,
+        address market,
+        uint256 minPtOut,
+        ApproxParams calldata,
+        TokenInput calldata input,
+        LimitOrderData calldata
+    ) external payable returns (uint256 netPtOut, uint256 netSyFee, uint256 netSyInterm) {
+        (address sy,,) = IPendleMarket(market).readTokens();
+        require(input.tokenIn == _asset(sy), "MockPendleRouter: token not accepted");
+
+        IERC20(input.tokenIn).safeTransferFrom(msg.sender, address(this), input.netTokenIn);
+        netSyInterm = input.netTokenIn;
+        netPtOut = _mintPt(receiver, market, netSyInterm, minPtOut);
+    }
+
+    function swapExactSyForPt(
+        address receiver,
+        address market,
+        uint256 exactSyIn,
+        uint256 minPtOut,
+        ApproxParams calldata,
+        LimitOrderData calldata
+    ) external returns (uint256 netPtOut, uint256 netSyFee) {
+        (address sy,,) = IPendleMarket(market).readTokens();
+        IERC20(sy).safeTransferFrom(msg.sender, address(this), exactSyIn);
+        netPtOut = _mintPt(receiver, market, exactSyIn, minPtOut);
+    }
+
+    /// @dev Only matured PT is accepted, which redeems without its YT
+    function redeemPyToToken(address receiver, address YT, uint256 netPyIn, TokenOutput calldata output)
+        external
+        returns (uint256 netTokenOut, uint256 netSyInterm)
+    {
+        MockYT yt = MockYT(YT);
+        require(yt.isExpired(), "MockPendleRouter: not expired");
+        require(output.tokenOut == _asset(yt.SY()), "MockPendleRouter: token not accepted");
+
+        IERC20(yt.PT()).safeTransferFrom(msg.sender, address(this), netPyIn);
+        netSyInterm = netPyIn;
+        netTokenOut = netPyIn;
+        require(netTokenOut >= output.minTokenOut, "Slippage: INSUFFICIENT_TOKEN_OUT");
+        MockERC20(output.tokenOut).mint(receiver, netTokenOut);
+    }
+
+    /// @dev Mirrors IPActionMintRedeemStatic.redeemPyToTokenStatic
+    function redeemPyToTokenStatic(address YT, uint256 netPYToRedeem, address tokenOut)
+        external
+        view
+        returns (uint256 netTokenOut)
+    {
+        require(tokenOut == _asset(MockYT(YT).SY()), "MockPendleRouter: token not accepted");
+        return netPYToRedeem;
+    }
+
+    /// @dev Mirrors IPActionMarketCoreStatic.swapExactTokenForPtStatic
+    function swapExactTokenForPtStatic(address market, address tokenIn, uint256 amountTokenIn)
+        external
+        view
+        returns (uint256 netPtOut, uint256 netSyMinted, uint256 netSyFee, uint256 priceImpact, uint256 exchangeRateAfter)
+    {
+        (address sy,,) = IPendleMarket(market).readTokens();
+        require(tokenIn == _asset(sy), "MockPendleRouter: token not accepted");
+        netSyMinted = amountTokenIn;
+        netPtOut = _ptOut(market, netSyMinted);
+        exchangeRateAfter = _exchangeRate(market);
+    }
+
+    /// @dev Mirrors IPActionMarketCoreStatic.swapExactSyForPtStatic
+    function swapExactSyForPtStatic(address market, uint256 exactSyIn)
+        external
+        view
+        returns (uint256 netPtOut, uint256 netSyFee, uint256 priceImpact, uint256 exchangeRateAfter)
+    {
+        netPtOut = _ptOut(market, exactSyIn);
+        exchangeRateAfter = _exchangeRate(market);
+    }
+
+    function _mintPt(address receiver, address market, uint256 syIn, uint256 minPtOut) private returns (uint256 ptOut) {
+        ptOut = _ptOut(market, syIn);
+        require(ptOut >= minPtOut, "Slippage: INSUFFICIENT_PT_OUT");
+        (, address pt,) = IPendleMarket(market).readTokens();
+        MockPT(pt).mint(receiver, ptOut);
+    }
+
+    function _ptOut(address market, uint256 syIn) private view returns (uint256) {
+        return syIn * 1e18 / oracle.getPtToSyRate(market, 0);
+    }
+
+    /// @dev PT per SY, the way Pendle reports exchangeRateAfter
+    function _exchangeRate(address market) private view returns (uint256) {
+        return 1e36 / oracle.getPtToSyRate(market, 0);
+    }
+
+    function _asset(address sy) private view returns (address asset) {
+        (, asset,) = IStandardizedYield(sy).assetInfo();
+    }
+}
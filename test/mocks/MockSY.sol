@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+
+/// @notice Pendle SY stand-in exposing the asset views the frontend reads when vetting a market
+contract MockSY is ERC20 {
+    address public immutable yieldToken;
+
+    constructor(string memory name_, string memory symbol_, address asset) ERC20(name_, symbol_) {
+        yieldToken = asset;
+    }
+
+    /// @dev Mirrors IStandardizedYield.assetInfo with AssetType.TOKEN
+    function assetInfo() external view returns (uint8 assetType, address assetAddress, uint8 assetDecimals) {
+        return (0, yieldToken, IERC20Metadata(yieldToken).decimals());
+    }
+}
@@ -0,0 +1,123 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ISablierV2LockupLinear} from "../../interfaces/ISablierV2LockupLinear.sol";
+
+/// @notice Sablier V2 LockupLinear stand-in: non-cancelable linear streams without cliffs, held as
+///         transferable NFTs, with the views and withdraw functions the frontend uses
+contract MockSablierLockupLinear is ERC721 {
+    using SafeERC20 for IERC20;
+
+    struct Amounts {
+        uint128 deposited;
+        uint128 withdrawn;
+        uint128 refunded;
+    }
+
+    /// @dev Field order matches LockupLinear.StreamLL so getStream decodes with the real ABI
+    struct StreamLL {
+        address sender;
+        address recipient;
+        uint40 startTime;
+        bool isCancelable;
+        bool wasCanceled;
+        IERC20 asset;
+        uint40 endTime;
+        bool isDepleted;
+        bool isStream;
+        bool isTransferable;
+        Amounts amounts;
+        uint40 cliffTime;
+    }
+
+    struct Stream {
+        address sender;
+        IERC20 asset;
+        uint40 startTime;
+        uint40 endTime;
+        uint128 deposited;
+        uint128 withdrawn;
+    }
+
+    uint256 public nextStreamId = 1;
+
+    mapping(uint256 => Stream) private streams;
+
+    constructor() ERC721("Sablier V2 Lockup Linear NFT", "SAB-V2-LOCKUP-LIN") {}
+
+    function createWithDurations(ISablierV2LockupLinear.CreateWithDurations calldata params)
+        external
+        returns (uint256 streamId)
+    {
+        require(params.totalAmount > 0, "MockSablier: zero amount");
+        require(params.durations.total > 0, "MockSablier: zero duration");
+
+        streamId = nextStreamId++;
+        streams[streamId] = Stream({
+            sender: params.sender,
+            asset: params.asset,
+            startTime: uint40(block.timestamp),
+            endTime: uint40(block.timestamp) + params.durations.total,
+            deposited: params.totalAmount,
+            withdrawn: 0
+        });
+
+        params.asset.safeTransferFrom(msg.sender, address(this), params.totalAmount);
+        _mint(params.recipient, streamId);
+    }
+
+    function getStream(uint256 streamId) external view returns (StreamLL memory) {
+        Stream memory s = _stream(streamId);
+        return StreamLL({
+            sender: s.sender,
+            recipient: ownerOf(streamId),
+            startTime: s.startTime,
+            isCancelable: false,
+            wasCanceled: false,
+            asset: s.asset,
+            endTime: s.endTime,
+            isDepleted: s.withdrawn == s.deposited,
+            isStream: true,
+            isTransferable: true,
+            amounts: Amounts({deposited: s.deposited, withdrawn: s.withdrawn, refunded: 0}),
+            cliffTime: 0
+        });
+    }
+
+    function withdrawableAmountOf(uint256 streamId) public view returns (uint128) {
+        Stream memory s = _stream(streamId);
+        if (block.timestamp >= s.endTime) return s.deposited - s.withdrawn;
+
+        uint256 streamed = uint256(s.deposited) * (block.timestamp - s.startTime) / (s.endTime - s.startTime);
+        return uint128(streamed) - s.withdrawn;
+    }
+
+    /// @dev As in Sablier, anyone may withdraw to the recipient; only the recipient or an approved
+    ///      operator may withdraw elsewhere
+    function withdraw(uint256 streamId, address to, uint128 amount) public returns (uint128) {
+        address recipient = ownerOf(streamId);
+        require(to == recipient || _isApprovedOrOwner(msg.sender, streamId), "MockSablier: unauthorized");
+        require(amount > 0, "MockSablier: zero amount");
+        require(amount <= withdrawableAmountOf(streamId), "MockSablier: overdraw");
+
+        Stream storage s = streams[streamId];
+        s.withdrawn += amount;
+        s.asset.safeTransfer(to, amount);
+        return amount;
+    }
+
+    function withdrawMultiple(uint256[] calldata streamIds, uint128[] calldata amounts) external {
+        require(streamIds.length == amounts.length, "MockSablier: length mismatch");
+        for (uint256 i = 0; i < streamIds.length; i++) {
+            withdraw(streamIds[i], ownerOf(streamIds[i]), amounts[i]);
+        }
+    }
+
+    function _stream(uint256 streamId) private view returns (Stream memory s) {
+        s = streams[streamId];
+        require(s.endTime != 0, "MockSablier: null stream");
+    }
+}
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+/// @notice Pendle YT stand-in holding only the token pair and expiry the mock router redeems through
+contract MockYT {
+    address public immutable SY;
+    address public immutable PT;
+    uint256 public immutable expiry;
+
+    constructor(address sy, address pt, uint256 expiry_) {
+        SY = sy;
+        PT = pt;
+        expiry = expiry_;
+    }
+
+    function isExpired() external view returns (bool) {
+        return block.timestamp >= expiry;
+    }
+}